@@ -0,0 +1,261 @@
+/**
+ * Analytics Pipeline
+ *
+ * The only path analytics events take to the server
+ * - Every context sends TRACK_EVENT to the background, which enqueues here
+ * - Event IDs let the server dedupe retried batches
+ * - One session ID stitched across popup, side panel and content scripts
+ * - Queue persisted in chrome.storage.local (survives worker restarts)
+ * - Drained in batches on a chrome.alarms schedule with exponential backoff
+ * - Nothing is queued or sent when managed policy disables analytics
+ */
+
+import type { StoredAuth } from '@/shared/types';
+import { logger } from '@/shared/utils';
+import { policyService } from '@/services/policy';
+
+// Single analytics endpoint (override with VITE_ANALYTICS_URL)
+const ANALYTICS_PATH = '/api/analytics/events';
+
+// Alarm that drains the queue
+export const ANALYTICS_FLUSH_ALARM = 'flush-event-queue';
+export const ANALYTICS_FLUSH_PERIOD_MINUTES = 1;
+
+// Queue limits
+const BATCH_SIZE = 50;
+const MAX_QUEUE_SIZE = 500; // Oldest events dropped beyond this
+
+// Backoff after failed flushes: 1 min, 2 min, 4 min ... capped at 1 hour
+const BASE_BACKOFF = 60 * 1000;
+const MAX_BACKOFF = 60 * 60 * 1000;
+
+// A session ends after 30 minutes without events
+const SESSION_TIMEOUT = 30 * 60 * 1000;
+
+// Storage keys
+const QUEUE_KEY = 'eventQueue'; // local
+const BACKOFF_KEY = 'analyticsBackoff'; // local
+const ANALYTICS_ID_KEY = 'analyticsId'; // local
+const SESSION_KEY = 'analyticsSession'; // session
+
+type EventSource = 'background' | 'extension_page' | 'content_script';
+
+interface QueuedEvent {
+  event_id: string;
+  event: string;
+  properties: Record<string, any>;
+  timestamp: number;
+  session_id: string;
+  user_id: string;
+  source: EventSource;
+  extension_version: string;
+}
+
+interface BackoffState {
+  failures: number;
+  nextAttemptAt: number;
+}
+
+interface AnalyticsSession {
+  id: string;
+  lastActivityAt: number;
+}
+
+/**
+ * Analytics Pipeline
+ */
+class AnalyticsPipeline {
+  // Serializes read-modify-write of the persisted queue
+  private queueLock: Promise<unknown> = Promise.resolve();
+  private flushing: Promise<void> | null = null;
+
+  /**
+   * Add an event to the queue
+   */
+  async track(
+    event: string,
+    properties: Record<string, any> = {},
+    options: { source?: EventSource; timestamp?: number } = {}
+  ): Promise<void> {
+    if (!(await policyService.isAnalyticsEnabled())) return;
+
+    const [userId, sessionId] = await Promise.all([this.getUserId(), this.touchSession()]);
+
+    const queued: QueuedEvent = {
+      event_id: crypto.randomUUID(),
+      event,
+      properties,
+      timestamp: options.timestamp || Date.now(),
+      session_id: sessionId,
+      user_id: userId,
+      source: options.source || 'background',
+      extension_version: chrome.runtime.getManifest().version,
+    };
+
+    const size = await this.withQueue((queue) => {
+      queue.push(queued);
+      return queue.slice(-MAX_QUEUE_SIZE);
+    });
+
+    logger.debug('Event tracked:', event);
+
+    // Don't wait for the alarm once a full batch is ready
+    if (size >= BATCH_SIZE) {
+      this.flush().catch((error) => {
+        logger.debug('Failed to flush event queue:', error);
+      });
+    }
+  }
+
+  /**
+   * Send queued events in batches, respecting backoff
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async drain(): Promise<void> {
+    // Drop anything queued before analytics was disabled by policy
+    if (!(await policyService.isAnalyticsEnabled())) {
+      await this.withQueue(() => []);
+      return;
+    }
+
+    const backoff = await this.getBackoff();
+
+    if (Date.now() < backoff.nextAttemptAt) {
+      logger.debug('Analytics flush backing off until', new Date(backoff.nextAttemptAt).toISOString());
+      return;
+    }
+
+    while (true) {
+      const batch = (await this.readQueue()).slice(0, BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      const status = await this.send(batch);
+
+      if (status === 'retry') {
+        await this.recordFailure(backoff);
+        return;
+      }
+
+      // Sent, or rejected as malformed (retrying would never succeed)
+      const sentIds = new Set(batch.map((item) => item.event_id));
+      await this.withQueue((queue) => queue.filter((item) => !sentIds.has(item.event_id)));
+    }
+
+    if (backoff.failures > 0) {
+      await chrome.storage.local.remove(BACKOFF_KEY);
+    }
+
+    logger.debug('Event queue flushed');
+  }
+
+  /**
+   * POST one batch to the analytics endpoint
+   */
+  private async send(batch: QueuedEvent[]): Promise<'sent' | 'dropped' | 'retry'> {
+    try {
+      const { auth } = await chrome.storage.local.get('auth');
+      const accessToken = (auth as StoredAuth | undefined)?.accessToken;
+
+      const endpoint =
+        process.env.VITE_ANALYTICS_URL || `${await policyService.getApiBaseUrl()}${ANALYTICS_PATH}`;
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+        },
+        body: JSON.stringify({ events: batch }),
+      });
+
+      if (response.ok) return 'sent';
+
+      if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+        logger.warn('Analytics batch rejected, dropping:', response.status);
+        return 'dropped';
+      }
+
+      logger.debug('Analytics flush failed:', response.status);
+      return 'retry';
+    } catch (error) {
+      logger.debug('Analytics flush failed:', error);
+      return 'retry';
+    }
+  }
+
+  private async recordFailure(previous: BackoffState): Promise<void> {
+    const failures = previous.failures + 1;
+    const delay = Math.min(BASE_BACKOFF * 2 ** (failures - 1), MAX_BACKOFF);
+
+    const backoff: BackoffState = { failures, nextAttemptAt: Date.now() + delay };
+    await chrome.storage.local.set({ [BACKOFF_KEY]: backoff });
+  }
+
+  private async getBackoff(): Promise<BackoffState> {
+    const result = await chrome.storage.local.get(BACKOFF_KEY);
+    return result[BACKOFF_KEY] || { failures: 0, nextAttemptAt: 0 };
+  }
+
+  /**
+   * Queue helpers
+   */
+  private async readQueue(): Promise<QueuedEvent[]> {
+    const result = await chrome.storage.local.get(QUEUE_KEY);
+    const queue = result[QUEUE_KEY];
+    return Array.isArray(queue) ? queue : [];
+  }
+
+  private withQueue(update: (queue: QueuedEvent[]) => QueuedEvent[]): Promise<number> {
+    const run = this.queueLock.then(async () => {
+      const queue = update(await this.readQueue());
+      await chrome.storage.local.set({ [QUEUE_KEY]: queue });
+      return queue.length;
+    });
+
+    this.queueLock = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Anonymous, persistent user ID
+   */
+  private async getUserId(): Promise<string> {
+    const result = await chrome.storage.local.get(ANALYTICS_ID_KEY);
+    let analyticsId: string | undefined = result[ANALYTICS_ID_KEY];
+
+    if (!analyticsId) {
+      analyticsId = `ext_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+      await chrome.storage.local.set({ [ANALYTICS_ID_KEY]: analyticsId });
+    }
+
+    return analyticsId;
+  }
+
+  /**
+   * Get the current session ID, starting a new session after inactivity
+   */
+  private async touchSession(): Promise<string> {
+    const result = await chrome.storage.session.get(SESSION_KEY);
+    const current: AnalyticsSession | undefined = result[SESSION_KEY];
+    const now = Date.now();
+
+    const session: AnalyticsSession =
+      current && now - current.lastActivityAt < SESSION_TIMEOUT
+        ? { id: current.id, lastActivityAt: now }
+        : { id: crypto.randomUUID(), lastActivityAt: now };
+
+    await chrome.storage.session.set({ [SESSION_KEY]: session });
+    return session.id;
+  }
+}
+
+// Export singleton instance
+export const analyticsPipeline = new AnalyticsPipeline();
@@ -0,0 +1,254 @@
+/**
+ * Connectivity Monitor
+ *
+ * The one place that decides whether we're online (views used to run their
+ * own detector, each polling the health endpoint every 30 seconds)
+ * - navigator.onLine plus online/offline events
+ * - Passive signals from real API requests (views send REPORT_REQUEST_OUTCOME)
+ * - Health checks on a chrome.alarms schedule, backing off while things fail
+ * - State and failure count kept in chrome.storage.session (restored before
+ *   use, so a worker restart doesn't reset the backoff) and broadcast as
+ *   CONNECTIVITY_CHANGED
+ */
+
+import type {
+  ConnectivityChangedMessage,
+  ConnectivityState,
+  ConnectivityStatus,
+  RequestOutcome,
+  StoredConnectivity,
+} from '@/shared/types';
+import { STORAGE_KEYS } from '@/shared/constants';
+import { logger } from '@/shared/utils';
+import { policyService } from '@/services/policy';
+import { lifecycle } from '@/services/memoryCleanup';
+
+export const CONNECTIVITY_CHECK_ALARM = 'connectivity-check';
+
+const OWNER = 'connectivityMonitor';
+const HEALTH_PATH = '/api/health';
+const HEALTH_TIMEOUT = 5000; // 5 seconds
+
+// Routine check while healthy (skipped if a real request just succeeded)
+const HEALTHY_CHECK_MINUTES = 5;
+// Retry schedule while something is wrong: 30s, 1m, 2m ... capped at 30m
+const MIN_BACKOFF_MINUTES = 0.5;
+const MAX_BACKOFF_MINUTES = 30;
+
+// Successful but slower than this counts as degraded
+const SLOW_RESPONSE_MS = 3000;
+// Consecutive failures before degraded becomes offline / api_down
+const FAILURE_THRESHOLD = 3;
+
+type ConnectivityListener = (status: ConnectivityStatus, previous: ConnectivityState) => void;
+
+/**
+ * Connectivity Monitor
+ */
+class ConnectivityMonitor {
+  private status: ConnectivityStatus = {
+    state: navigator.onLine ? 'online' : 'offline',
+    changedAt: Date.now(),
+    checkedAt: null,
+  };
+  private consecutiveFailures = 0;
+  private lastSuccessAt = 0;
+  private listeners: Set<ConnectivityListener> = new Set();
+  private ready: Promise<void> | null = null;
+
+  /**
+   * Restore the last state and start listening
+   */
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.restore();
+      this.listen();
+      lifecycle.onRestart(OWNER, () => this.listen());
+
+      // Keep a pending check (the worker starts far more often than it checks)
+      this.ready.then(() => chrome.alarms.get(CONNECTIVITY_CHECK_ALARM)).then((alarm) => {
+        if (!alarm) this.scheduleCheck();
+      }).catch(() => {});
+    }
+    return this.ready;
+  }
+
+  private listen(): void {
+    lifecycle.addEventListener(OWNER, self, 'online', () => {
+      this.runHealthCheck().catch(() => {});
+    });
+
+    lifecycle.addEventListener(OWNER, self, 'offline', () => {
+      this.init().then(() => this.setState('offline')).catch(() => {});
+    });
+  }
+
+  async getStatus(): Promise<ConnectivityStatus> {
+    await this.init();
+    return this.status;
+  }
+
+  /**
+   * Subscribe to state changes (background only; views get CONNECTIVITY_CHANGED)
+   */
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Feed in the result of a real request or a health check
+   */
+  async recordOutcome(outcome: RequestOutcome): Promise<void> {
+    await this.init();
+
+    if (!navigator.onLine) {
+      this.setState('offline');
+      return;
+    }
+
+    if (outcome.ok) {
+      this.consecutiveFailures = 0;
+      this.lastSuccessAt = Date.now();
+
+      const slow = (outcome.durationMs || 0) > SLOW_RESPONSE_MS;
+      this.setState(slow ? 'degraded' : 'online');
+    } else {
+      this.consecutiveFailures++;
+
+      if (this.consecutiveFailures < FAILURE_THRESHOLD) {
+        this.setState('degraded');
+      } else {
+        // No response at all looks like the network; an error response means the API
+        this.setState(outcome.networkError ? 'offline' : 'api_down');
+      }
+    }
+
+    // The counters change even when the state doesn't
+    await this.persist().catch(() => {});
+  }
+
+  /**
+   * Ping the health endpoint (from the alarm or when the network returns)
+   */
+  async runHealthCheck(): Promise<void> {
+    await this.init();
+
+    const recentlyHealthy =
+      this.status.state === 'online' &&
+      Date.now() - this.lastSuccessAt < HEALTHY_CHECK_MINUTES * 60 * 1000;
+
+    if (!recentlyHealthy) {
+      const outcome = await this.checkHealth();
+      this.status = { ...this.status, checkedAt: Date.now() };
+      await this.recordOutcome(outcome);
+    }
+
+    this.scheduleCheck();
+  }
+
+  private async checkHealth(): Promise<RequestOutcome> {
+    if (!navigator.onLine) {
+      return { ok: false, networkError: true };
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), HEALTH_TIMEOUT);
+    const startedAt = Date.now();
+
+    try {
+      const apiBaseUrl = await policyService.getApiBaseUrl();
+      const response = await fetch(`${apiBaseUrl}${HEALTH_PATH}`, {
+        method: 'HEAD',
+        cache: 'no-cache',
+        signal: controller.signal,
+      });
+
+      return {
+        ok: response.ok,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      };
+    } catch {
+      return { ok: false, networkError: true };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private setState(state: ConnectivityState): void {
+    const previous = this.status.state;
+    if (previous === state) return;
+
+    this.status = { ...this.status, state, changedAt: Date.now() };
+    logger.info('Connectivity changed:', previous, '→', state);
+
+    this.persist().catch(() => {});
+    this.broadcast();
+    this.scheduleCheck();
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.status, previous);
+      } catch (error) {
+        logger.error('Connectivity listener error:', error);
+      }
+    });
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const result = await chrome.storage.session.get(STORAGE_KEYS.CONNECTIVITY);
+      const stored: StoredConnectivity | undefined = result[STORAGE_KEYS.CONNECTIVITY];
+      if (!stored?.status) return;
+
+      this.consecutiveFailures = stored.consecutiveFailures || 0;
+      this.lastSuccessAt = stored.lastSuccessAt || 0;
+      if (navigator.onLine) {
+        this.status = stored.status;
+      }
+    } catch (error) {
+      logger.debug('Failed to restore connectivity state:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const stored: StoredConnectivity = {
+      status: this.status,
+      consecutiveFailures: this.consecutiveFailures,
+      lastSuccessAt: this.lastSuccessAt,
+    };
+
+    await chrome.storage.session.set({ [STORAGE_KEYS.CONNECTIVITY]: stored });
+  }
+
+  private broadcast(): void {
+    const message: ConnectivityChangedMessage = {
+      type: 'CONNECTIVITY_CHANGED',
+      payload: this.status,
+    };
+
+    // Rejects when no view is open
+    chrome.runtime.sendMessage(message).catch(() => {});
+  }
+
+  /**
+   * Next health check: routine while online, backing off while failing
+   */
+  private scheduleCheck(): void {
+    const delayInMinutes =
+      this.status.state === 'online'
+        ? HEALTHY_CHECK_MINUTES
+        : Math.min(
+            MIN_BACKOFF_MINUTES * 2 ** Math.max(this.consecutiveFailures - 1, 0),
+            MAX_BACKOFF_MINUTES
+          );
+
+    chrome.alarms.create(CONNECTIVITY_CHECK_ALARM, { delayInMinutes });
+  }
+}
+
+// Export singleton instance
+export const connectivityMonitor = new ConnectivityMonitor();
@@ -0,0 +1,163 @@
+/**
+ * Content Script Injection
+ *
+ * The content script is no longer matched against every page
+ * - On demand: injected into the active tab (activeTab + chrome.scripting)
+ *   when the user invokes a command, context menu or action
+ * - Passive: registered with chrome.scripting on the origins the user
+ *   granted with chrome.permissions.request, tracking selections as they happen
+ *
+ * Domains blocked by managed policy never get the script.
+ *
+ * Chrome doesn't inject into tabs that were already open when the extension
+ * is updated or reloaded; the old scripts are orphaned. After an update we
+ * inject into those tabs ourselves (the new instance tells the orphaned one
+ * to tear down).
+ */
+
+import contentScriptFile from '@/content/content.ts?script';
+import type { SelectionTracking } from '@/shared/types';
+import { CONTENT_SCRIPT_TRACKING_GLOBAL } from '@/shared/constants';
+import { logger } from '@/shared/utils';
+import { policyService } from '@/services/policy';
+
+const PASSIVE_SCRIPT_ID = 'stupify-passive-content';
+
+// Origins granted at install time are for our API, not for page access
+const REQUIRED_ORIGINS = chrome.runtime.getManifest().host_permissions || [];
+
+interface InjectionSummary {
+  injected: number;
+  failed: number;
+}
+
+/**
+ * Selection tracking mode from settings (on demand unless the user opted in)
+ */
+export async function getSelectionTracking(): Promise<SelectionTracking> {
+  const { settings } = await chrome.storage.local.get('settings');
+  return settings?.selectionTracking === 'passive' ? 'passive' : 'on_demand';
+}
+
+/**
+ * Origins the user granted for passive tracking
+ */
+export async function getPassiveOrigins(): Promise<string[]> {
+  const { origins = [] } = await chrome.permissions.getAll();
+  return origins.filter((origin) => !REQUIRED_ORIGINS.includes(origin));
+}
+
+/**
+ * Inject the content script into one tab
+ */
+async function injectIntoTab(tabId: number, tracking: SelectionTracking): Promise<void> {
+  await chrome.scripting.executeScript({
+    target: { tabId },
+    func: (key: typeof CONTENT_SCRIPT_TRACKING_GLOBAL, mode: SelectionTracking) => {
+      globalThis[key] = mode;
+    },
+    args: [CONTENT_SCRIPT_TRACKING_GLOBAL, tracking],
+  });
+
+  await chrome.scripting.executeScript({
+    target: { tabId },
+    files: [contentScriptFile],
+  });
+}
+
+/**
+ * Make sure a tab has a content script, injecting it on demand
+ * Returns false if the page can't be scripted (e.g. chrome:// pages)
+ */
+export async function ensureContentScript(tabId: number): Promise<boolean> {
+  const tab = await chrome.tabs.get(tabId).catch(() => null);
+  if (await policyService.isDomainBlocked(tab?.url)) {
+    logger.debug('Content script blocked by policy:', tabId);
+    return false;
+  }
+
+  try {
+    const response = await chrome.tabs.sendMessage(tabId, { type: 'PING_CONTENT_SCRIPT' });
+    if (response?.success) return true;
+  } catch {
+    // Not injected yet
+  }
+
+  try {
+    await injectIntoTab(tabId, 'on_demand');
+    logger.debug('Content script injected on demand:', tabId);
+    return true;
+  } catch (error) {
+    logger.debug('Cannot inject content script:', tabId, error);
+    return false;
+  }
+}
+
+/**
+ * Register (or unregister) the passive content script to match settings
+ * and granted origins
+ */
+export async function syncPassiveContentScript(): Promise<void> {
+  const [tracking, origins, blockedPatterns] = await Promise.all([
+    getSelectionTracking(),
+    getPassiveOrigins(),
+    policyService.getBlockedMatchPatterns(),
+  ]);
+
+  const registered = await chrome.scripting.getRegisteredContentScripts({ ids: [PASSIVE_SCRIPT_ID] });
+  if (registered.length > 0) {
+    await chrome.scripting.unregisterContentScripts({ ids: [PASSIVE_SCRIPT_ID] });
+  }
+
+  if (tracking !== 'passive' || origins.length === 0) {
+    logger.debug('Passive content script disabled');
+    return;
+  }
+
+  await chrome.scripting.registerContentScripts([
+    {
+      id: PASSIVE_SCRIPT_ID,
+      js: [contentScriptFile],
+      matches: origins,
+      excludeMatches: blockedPatterns,
+      runAt: 'document_idle',
+      persistAcrossSessions: true,
+    },
+  ]);
+
+  logger.info('Passive content script registered for', origins.length, 'origin(s)');
+}
+
+/**
+ * Re-inject content scripts into open tabs on passively tracked origins
+ */
+export async function reinjectContentScripts(): Promise<InjectionSummary> {
+  const summary: InjectionSummary = { injected: 0, failed: 0 };
+
+  const [tracking, origins] = await Promise.all([getSelectionTracking(), getPassiveOrigins()]);
+  if (tracking !== 'passive' || origins.length === 0) {
+    return summary;
+  }
+
+  const tabs = await chrome.tabs.query({ url: origins });
+
+  await Promise.all(
+    tabs.map(async (tab) => {
+      // Discarded tabs reload (and get the new script) when revisited
+      if (!tab.id || tab.discarded) return;
+      if (await policyService.isDomainBlocked(tab.url)) return;
+
+      try {
+        await injectIntoTab(tab.id, 'passive');
+        summary.injected++;
+      } catch (error) {
+        // e.g. the Web Store or pages blocked by policy
+        summary.failed++;
+        logger.debug('Failed to re-inject content script:', tab.id, error);
+      }
+    })
+  );
+
+  logger.info('Content scripts re-injected:', summary);
+  return summary;
+}
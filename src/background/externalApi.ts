@@ -0,0 +1,345 @@
+/**
+ * External Integration API
+ *
+ * Lets partner pages and other extensions hand text to Stupify
+ * - Reached through chrome.runtime.onMessageExternal (externally_connectable)
+ *   or the window.postMessage bridge: always on the allow-listed partner
+ *   origins, elsewhere only where the content script runs (sites the user
+ *   allowed, or after the user invoked Stupify on the page)
+ * - Versioned requests; only allow-listed methods are dispatched
+ * - Each caller needs the user's approval once (access prompt window)
+ * - Per-caller rate limits so a page can't burn through the user's quota
+ */
+
+import type {
+  ComplexityLevel,
+  ExternalApiMethod,
+  ExternalApiRequest,
+  ExternalApiResponse,
+  ExternalApiResultMap,
+  ExternalCapabilities,
+  RpcErrorCode,
+} from '@/shared/types';
+import {
+  EXTERNAL_API_SUPPORTED_VERSIONS,
+  EXTERNAL_API_VERSION,
+  MAX_SELECTION_LENGTH,
+} from '@/shared/constants';
+import { getExternalAccessStatus, setExternalAccess } from '@/shared/externalAccess';
+import { MessagingError } from '@/shared/messaging';
+import { generateId, logger } from '@/shared/utils';
+import { isNonEmptyString, isPlainObject } from './router';
+
+const METHODS: ExternalApiMethod[] = ['explain', 'openPanel', 'getCapabilities'];
+const LEVELS: ComplexityLevel[] = ['5yo', 'normal', 'advanced'];
+
+// Calls allowed per caller within each window
+const RATE_LIMITS: Record<ExternalApiMethod, { max: number; windowMs: number }> = {
+  explain: { max: 10, windowMs: 60 * 60 * 1000 }, // 10 per hour
+  openPanel: { max: 30, windowMs: 60 * 60 * 1000 }, // 30 per hour
+  getCapabilities: { max: 60, windowMs: 60 * 1000 }, // 60 per minute
+};
+
+// chrome.storage.session key (limits survive worker restarts)
+const USAGE_KEY = 'externalApiUsage';
+
+const PROMPT_PATH = 'external-access.html';
+const PROMPT_WIDTH = 420;
+const PROMPT_HEIGHT = 360;
+// Unanswered prompts count as "not now"
+const PROMPT_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+
+type CallTimes = Record<string, Partial<Record<ExternalApiMethod, number[]>>>;
+
+interface ExternalApiHandlers {
+  explain: (tab: chrome.tabs.Tab | undefined, text: string, level?: ComplexityLevel) => Promise<void>;
+  openPanel: (tab: chrome.tabs.Tab | undefined) => Promise<void>;
+}
+
+interface PendingPrompt {
+  caller: string;
+  windowId?: number;
+  resolve: (allowed: boolean) => void;
+}
+
+function apiError(code: RpcErrorCode, message: string): MessagingError {
+  return new MessagingError({ code, message });
+}
+
+/**
+ * External API
+ */
+class ExternalApi {
+  private handlers: ExternalApiHandlers | null = null;
+  private prompts: Map<string, PendingPrompt> = new Map();
+  private promptsByCaller: Map<string, Promise<boolean>> = new Map();
+  private usageQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Register the actions behind explain() and openPanel()
+   */
+  init(handlers: ExternalApiHandlers): void {
+    if (this.handlers) return;
+    this.handlers = handlers;
+
+    // Closing the prompt window without answering denies this request only
+    chrome.windows.onRemoved.addListener((windowId) => {
+      this.prompts.forEach((prompt, promptId) => {
+        if (prompt.windowId === windowId) {
+          this.settlePrompt(promptId, false);
+        }
+      });
+    });
+  }
+
+  /**
+   * chrome.runtime.onMessageExternal listener
+   */
+  handleExternalMessage = (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: ExternalApiResponse) => void
+  ): boolean => {
+    const caller = this.getCaller(sender);
+
+    if (!caller) {
+      sendResponse({ success: false, error: { code: 'FORBIDDEN', message: 'Unknown caller' } });
+      return false;
+    }
+
+    this.handle(message, caller, sender.tab).then(sendResponse);
+    return true;
+  };
+
+  /**
+   * Identify a caller: "extension:<id>" for extensions, the origin for pages
+   * (pages reach us directly or through our content script)
+   */
+  getCaller(sender: chrome.runtime.MessageSender): string | null {
+    if (sender.id && sender.id !== chrome.runtime.id) {
+      return `extension:${sender.id}`;
+    }
+
+    let origin = sender.origin;
+    if (!origin && sender.url) {
+      try {
+        origin = new URL(sender.url).origin;
+      } catch {
+        return null;
+      }
+    }
+
+    return origin && /^https?:\/\//.test(origin) ? origin : null;
+  }
+
+  /**
+   * Run one request and wrap the result (never throws)
+   */
+  async handle(request: unknown, caller: string, tab?: chrome.tabs.Tab): Promise<ExternalApiResponse> {
+    try {
+      const validRequest = this.validate(request);
+      const data = await this.dispatch(validRequest, caller, tab);
+      return { success: true, data };
+    } catch (error) {
+      const code: RpcErrorCode = error instanceof MessagingError ? error.code : 'HANDLER_FAILED';
+      const message = error instanceof Error ? error.message : 'Request failed';
+
+      logger.warn('External API request failed:', caller, code, message);
+      return { success: false, error: { code, message } };
+    }
+  }
+
+  /**
+   * Whether a message came from our access prompt window
+   */
+  isPromptSender(sender: chrome.runtime.MessageSender): boolean {
+    return !!sender.url?.startsWith(chrome.runtime.getURL(PROMPT_PATH));
+  }
+
+  /**
+   * Store the user's answer from the prompt window
+   */
+  async resolveDecision(promptId: string, caller: string, allowed: boolean): Promise<void> {
+    // Stored even if the worker restarted and lost the pending request
+    await setExternalAccess(caller, allowed);
+    this.settlePrompt(promptId, allowed);
+
+    logger.info('External access decided:', caller, allowed ? 'granted' : 'denied');
+  }
+
+  private validate(request: unknown): ExternalApiRequest {
+    if (!isPlainObject(request) || typeof request.version !== 'number') {
+      throw apiError('INVALID_PAYLOAD', 'Request must be an object with a version');
+    }
+
+    if (!EXTERNAL_API_SUPPORTED_VERSIONS.includes(request.version)) {
+      throw apiError(
+        'UNSUPPORTED_VERSION',
+        `API version ${request.version} is not supported (use ${EXTERNAL_API_VERSION})`
+      );
+    }
+
+    if (!METHODS.includes(request.method as ExternalApiMethod)) {
+      throw apiError('UNKNOWN_TYPE', `Unknown method: ${String(request.method)}`);
+    }
+
+    if (request.params !== undefined && !isPlainObject(request.params)) {
+      throw apiError('INVALID_PAYLOAD', 'params must be an object');
+    }
+
+    if (request.method === 'explain') {
+      const { text, level } = (request.params || {}) as Record<string, unknown>;
+
+      if (!isNonEmptyString(text)) {
+        throw apiError('INVALID_PAYLOAD', 'explain requires params.text');
+      }
+      if (text.length > MAX_SELECTION_LENGTH) {
+        throw apiError('INVALID_PAYLOAD', `Text is longer than ${MAX_SELECTION_LENGTH} characters`);
+      }
+      if (level !== undefined && !LEVELS.includes(level as ComplexityLevel)) {
+        throw apiError('INVALID_PAYLOAD', `Unknown level: ${String(level)}`);
+      }
+    }
+
+    return request as unknown as ExternalApiRequest;
+  }
+
+  private async dispatch(
+    request: ExternalApiRequest,
+    caller: string,
+    tab?: chrome.tabs.Tab
+  ): Promise<ExternalApiResultMap[ExternalApiMethod]> {
+    if (!this.handlers) {
+      throw apiError('HANDLER_FAILED', 'External API is not ready');
+    }
+
+    await this.consumeRateLimit(caller, request.method);
+
+    if (request.method === 'getCapabilities') {
+      return this.getCapabilities(caller);
+    }
+
+    await this.ensureAccess(caller);
+
+    if (request.method === 'explain') {
+      await this.handlers.explain(tab, request.params!.text!.trim(), request.params?.level);
+    } else {
+      await this.handlers.openPanel(tab);
+    }
+
+    logger.info('External API call:', request.method, caller);
+  }
+
+  private async getCapabilities(caller: string): Promise<ExternalCapabilities> {
+    return {
+      apiVersion: EXTERNAL_API_VERSION,
+      supportedVersions: EXTERNAL_API_SUPPORTED_VERSIONS,
+      methods: METHODS,
+      levels: LEVELS,
+      maxTextLength: MAX_SELECTION_LENGTH,
+      extensionVersion: chrome.runtime.getManifest().version,
+      access: await getExternalAccessStatus(caller),
+    };
+  }
+
+  /**
+   * Count a call against the caller's limit (serialized: calls can race)
+   */
+  private consumeRateLimit(caller: string, method: ExternalApiMethod): Promise<void> {
+    const run = this.usageQueue.then(async () => {
+      const { max, windowMs } = RATE_LIMITS[method];
+      const now = Date.now();
+
+      const result = await chrome.storage.session.get(USAGE_KEY);
+      const usage: CallTimes = result[USAGE_KEY] || {};
+      const calls = (usage[caller]?.[method] || []).filter((time) => now - time < windowMs);
+
+      if (calls.length >= max) {
+        const retryInSeconds = Math.ceil((calls[0] + windowMs - now) / 1000);
+        throw apiError('RATE_LIMITED', `Too many ${method} calls, try again in ${retryInSeconds}s`);
+      }
+
+      usage[caller] = { ...usage[caller], [method]: [...calls, now] };
+      await chrome.storage.session.set({ [USAGE_KEY]: usage });
+    });
+
+    this.usageQueue = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Check (or ask for) the user's approval of a caller
+   */
+  private async ensureAccess(caller: string): Promise<void> {
+    const status = await getExternalAccessStatus(caller);
+
+    if (status === 'denied') {
+      throw apiError('PERMISSION_DENIED', 'The user blocked this site or extension');
+    }
+
+    if (status === 'prompt' && !(await this.requestAccess(caller))) {
+      throw apiError('PERMISSION_DENIED', 'The user did not allow access');
+    }
+  }
+
+  /**
+   * Show the access prompt (one per caller at a time)
+   */
+  private requestAccess(caller: string): Promise<boolean> {
+    const existing = this.promptsByCaller.get(caller);
+    if (existing) return existing;
+
+    const promptId = generateId();
+
+    const decision = new Promise<boolean>((resolve) => {
+      this.prompts.set(promptId, { caller, resolve });
+    }).finally(() => {
+      this.promptsByCaller.delete(caller);
+    });
+
+    this.promptsByCaller.set(caller, decision);
+
+    const timeout = setTimeout(() => this.settlePrompt(promptId, false), PROMPT_TIMEOUT);
+    decision.finally(() => clearTimeout(timeout));
+
+    const params = new URLSearchParams({ promptId, caller });
+    chrome.windows
+      .create({
+        url: chrome.runtime.getURL(`${PROMPT_PATH}?${params.toString()}`),
+        type: 'popup',
+        width: PROMPT_WIDTH,
+        height: PROMPT_HEIGHT,
+        focused: true,
+      })
+      .then((window) => {
+        const prompt = this.prompts.get(promptId);
+        if (prompt) {
+          prompt.windowId = window.id;
+        } else if (window.id !== undefined) {
+          // Settled before the window finished opening
+          chrome.windows.remove(window.id).catch(() => {});
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to open external access prompt:', error);
+        this.settlePrompt(promptId, false);
+      });
+
+    return decision;
+  }
+
+  private settlePrompt(promptId: string, allowed: boolean): void {
+    const prompt = this.prompts.get(promptId);
+    if (!prompt) return;
+
+    this.prompts.delete(promptId);
+    prompt.resolve(allowed);
+
+    if (prompt.windowId !== undefined) {
+      chrome.windows.remove(prompt.windowId).catch(() => {});
+    }
+  }
+}
+
+// Export singleton instance
+export const externalApi = new ExternalApi();
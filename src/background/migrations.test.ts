@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPendingMigrations, Migration, runMigrations } from './migrations';
+
+type Items = Record<string, any>;
+
+/**
+ * In-memory chrome.storage area (set can be made to fail)
+ */
+function createArea(initial: Items = {}) {
+  let items: Items = structuredClone(initial);
+  let failSet = false;
+
+  return {
+    dump: () => structuredClone(items),
+    failNextSet: () => {
+      failSet = true;
+    },
+    get: vi.fn(async (keys: string | string[] | null) => {
+      if (keys === null) return structuredClone(items);
+      const wanted = Array.isArray(keys) ? keys : [keys];
+      return Object.fromEntries(wanted.filter((key) => key in items).map((key) => [key, structuredClone(items[key])]));
+    }),
+    set: vi.fn(async (values: Items) => {
+      if (failSet) {
+        failSet = false;
+        throw new Error('QUOTA_BYTES quota exceeded');
+      }
+      items = { ...items, ...structuredClone(values) };
+    }),
+    remove: vi.fn(async (keys: string | string[]) => {
+      (Array.isArray(keys) ? keys : [keys]).forEach((key) => delete items[key]);
+    }),
+  };
+}
+
+let local: ReturnType<typeof createArea>;
+let sync: ReturnType<typeof createArea>;
+
+function useStorage(localItems: Items, syncItems: Items = {}) {
+  local = createArea(localItems);
+  sync = createArea(syncItems);
+  vi.stubGlobal('chrome', {
+    runtime: { getManifest: () => ({ update_url: 'https://clients2.google.com/service/update2/crx' }) },
+    storage: { local, sync },
+  });
+}
+
+const step = (id: string, from: string, to: string, migrate: Migration['migrate'] = () => {}): Migration => ({
+  id,
+  from,
+  to,
+  description: id,
+  migrate,
+});
+
+describe('getPendingMigrations', () => {
+  const registry = [
+    step('c', '1.1.0', '1.2.0'),
+    step('a', '0.0.0', '1.0.0'),
+    step('b2', '1.0.5', '1.1.0'),
+    step('b1', '1.0.0', '1.1.0'),
+  ];
+
+  it('orders steps by the version they upgrade to, then the one they start from', () => {
+    expect(getPendingMigrations('0.0.0', '1.2.0', registry).map((m) => m.id)).toEqual(['a', 'b1', 'b2', 'c']);
+  });
+
+  it('only includes steps between the stored schema and the target', () => {
+    expect(getPendingMigrations('1.0.0', '1.1.0', registry).map((m) => m.id)).toEqual(['b1', 'b2']);
+    expect(getPendingMigrations('1.2.0', '1.2.0', registry)).toEqual([]);
+  });
+
+  it('rejects duplicate ids and empty ranges', () => {
+    expect(() => getPendingMigrations('0.0.0', '2.0.0', [step('a', '0.0.0', '1.0.0'), step('a', '1.0.0', '1.1.0')])).toThrow(
+      /Duplicate migration id/
+    );
+    expect(() => getPendingMigrations('0.0.0', '2.0.0', [step('x', '1.0.0', '1.0.0')])).toThrow(/later version/);
+  });
+});
+
+describe('runMigrations', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the settings the user chose in sync over install-time local defaults', async () => {
+    useStorage(
+      { settings: { defaultComplexity: 'normal', autoOpenSidePanel: true, theme: 'light' } },
+      { settings: { defaultComplexity: 'advanced', autoOpenPanel: false } }
+    );
+
+    await runMigrations('1.0.0');
+
+    const { settings } = local.dump();
+    expect(settings.defaultComplexity).toBe('advanced');
+    expect(settings.autoOpenPanel).toBe(false);
+    expect(settings.theme).toBe('light');
+    expect(settings).not.toHaveProperty('autoOpenSidePanel');
+    expect(sync.dump().settings.defaultComplexity).toBe('advanced');
+    expect(local.dump().schemaVersion).toBe('1.0.0');
+  });
+
+  it('keeps passive selection tracking for existing installs unless they chose a mode', async () => {
+    useStorage({ settings: { defaultComplexity: 'normal' } });
+    await runMigrations('1.0.0');
+    expect(local.dump().settings.selectionTracking).toBe('passive');
+
+    useStorage({ settings: { selectionTracking: 'on_demand' } });
+    await runMigrations('1.0.0');
+    expect(local.dump().settings.selectionTracking).toBe('on_demand');
+  });
+
+  it('plans changes without writing in a dry run', async () => {
+    useStorage({ dailyUsage: 'garbage' }, { auth_token: 'token' });
+
+    const result = await runMigrations('1.0.0', { dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.changes).toEqual(
+      expect.arrayContaining([
+        { area: 'local', key: 'dailyUsage', action: 'remove' },
+        { area: 'local', key: 'auth', action: 'set' },
+        { area: 'sync', key: 'auth_token', action: 'remove' },
+      ])
+    );
+    expect(local.set).not.toHaveBeenCalled();
+    expect(local.remove).not.toHaveBeenCalled();
+    expect(sync.remove).not.toHaveBeenCalled();
+  });
+
+  it('rolls every touched key back when the commit fails', async () => {
+    const localBefore = { settings: { defaultComplexity: '5yo' }, dailyUsage: 'garbage', keep: 1 };
+    const syncBefore = { auth_token: 'token', settings: { defaultComplexity: '5yo' } };
+    useStorage(localBefore, syncBefore);
+
+    // local is written first; the sync write fails after it
+    sync.failNextSet();
+
+    await expect(runMigrations('1.0.0')).rejects.toThrow(/quota/);
+
+    expect(local.dump()).toEqual(localBefore);
+    expect(sync.dump()).toEqual(syncBefore);
+  });
+
+  it('writes nothing when a step throws', async () => {
+    useStorage({ keep: 1 });
+
+    const failing = [
+      step('ok', '0.0.0', '1.0.0', ({ local: items }) => {
+        items.touched = true;
+      }),
+      step('broken', '1.0.0', '1.1.0', () => {
+        throw new Error('bad data');
+      }),
+    ];
+
+    await expect(runMigrations('1.1.0', { migrations: failing })).rejects.toThrow('bad data');
+
+    expect(local.set).not.toHaveBeenCalled();
+    expect(local.dump()).toEqual({ keep: 1 });
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Storage Migrations
+ *
+ * Ordered registry of schema migrations for chrome.storage
+ * - Each step has a unique id and the schema range it upgrades (from → to)
+ * - Steps run in order of the version they upgrade to
+ * - Each step transforms an in-memory snapshot (idempotent)
+ * - Dry-run support (plan changes without writing)
+ * - Rollback to the original snapshot if the commit fails
+ * - Records the last applied schema version
+ */
+
+import { DEFAULT_SETTINGS } from '@/shared/constants';
+import { compareVersions, logger } from '@/shared/utils';
+
+// Storage key holding the last applied schema version
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Installs that predate the registry never recorded a schema version
+const INITIAL_SCHEMA_VERSION = '0.0.0';
+
+// Maximum number of analytics events kept in the local queue
+const MAX_EVENT_QUEUE_SIZE = 100;
+
+type StorageAreaName = 'local' | 'sync';
+
+type StorageSnapshot = Record<StorageAreaName, Record<string, any>>;
+
+export interface MigrationContext {
+  local: Record<string, any>;
+  sync: Record<string, any>;
+}
+
+export interface Migration {
+  id: string;
+  // Schema range the step upgrades: stored data at `from` or later, below `to`
+  from: string;
+  to: string;
+  description: string;
+  migrate: (context: MigrationContext) => void;
+}
+
+export interface MigrationChange {
+  area: StorageAreaName;
+  key: string;
+  action: 'set' | 'remove';
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+  // Registry to run (defaults to MIGRATIONS)
+  migrations?: Migration[];
+}
+
+export interface MigrationResult {
+  fromSchema: string;
+  toSchema: string;
+  applied: string[];
+  changes: MigrationChange[];
+  dryRun: boolean;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Migration registry (run order comes from the ranges, see getPendingMigrations)
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    id: 'unify-settings',
+    from: INITIAL_SCHEMA_VERSION,
+    to: '1.0.0',
+    description: 'Unify settings shape across local and sync storage',
+    migrate: ({ local, sync }) => {
+      const legacyLocal = isObject(local.settings) ? { ...local.settings } : {};
+      const syncSettings = isObject(sync.settings) ? sync.settings : {};
+
+      // Service worker wrote autoOpenSidePanel on first install
+      if ('autoOpenSidePanel' in legacyLocal) {
+        if (!('autoOpenPanel' in legacyLocal)) {
+          legacyLocal.autoOpenPanel = legacyLocal.autoOpenSidePanel;
+        }
+        delete legacyLocal.autoOpenSidePanel;
+      }
+      delete legacyLocal.keyboardShortcutEnabled;
+
+      // Local settings may only hold the defaults written at install time;
+      // what the user chose lives in sync storage
+      const merged = {
+        ...DEFAULT_SETTINGS,
+        ...legacyLocal,
+        ...syncSettings,
+      };
+
+      local.settings = merged;
+      sync.settings = {
+        defaultComplexity: merged.defaultComplexity,
+        autoOpenPanel: merged.autoOpenPanel,
+        showBadgeCounter: merged.showBadgeCounter,
+        keyboardShortcut: merged.keyboardShortcut,
+      };
+    },
+  },
+  {
+    id: 'keep-passive-tracking',
+    from: INITIAL_SCHEMA_VERSION,
+    to: '1.0.0',
+    description: 'Keep selection tracking on every page for installs from before on-demand injection',
+    migrate: ({ local }) => {
+      // These installs had the content script on every page; new installs start on demand
+      const settings = isObject(local.settings) ? local.settings : {};
+      if (settings.selectionTracking === undefined) {
+        local.settings = { ...settings, selectionTracking: 'passive' };
+      }
+    },
+  },
+  {
+    id: 'nest-auth',
+    from: INITIAL_SCHEMA_VERSION,
+    to: '1.0.0',
+    description: 'Fold legacy sync auth keys into nested local auth object',
+    migrate: ({ local, sync }) => {
+      if (!isObject(local.auth) && typeof sync.auth_token === 'string') {
+        local.auth = {
+          accessToken: sync.auth_token,
+          refreshToken: null,
+          user: isObject(sync.user_data) ? sync.user_data : null,
+        };
+      }
+
+      if (isObject(local.auth) && !local.auth.accessToken) {
+        delete local.auth;
+      }
+
+      delete sync.auth_token;
+      delete sync.user_data;
+    },
+  },
+  {
+    id: 'normalize-usage-and-event-queue',
+    from: INITIAL_SCHEMA_VERSION,
+    to: '1.0.0',
+    description: 'Normalize daily usage and analytics event queue',
+    migrate: ({ local }) => {
+      const usage = local.dailyUsage;
+      if (usage !== undefined) {
+        if (isObject(usage) && typeof usage.date === 'string') {
+          local.dailyUsage = {
+            date: usage.date,
+            used: Number(usage.used) || 0,
+            limit: Number(usage.limit) || 0,
+          };
+        } else {
+          delete local.dailyUsage;
+        }
+      }
+
+      if (local.eventQueue !== undefined) {
+        const queue = Array.isArray(local.eventQueue) ? local.eventQueue : [];
+        local.eventQueue = queue
+          .filter((entry: unknown) => isObject(entry) && typeof entry.event === 'string')
+          .slice(-MAX_EVENT_QUEUE_SIZE);
+      }
+    },
+  },
+];
+
+/**
+ * Steps that take a schema from one version up to another, in run order
+ * (by the version they upgrade to, then by the version they start from)
+ */
+export function getPendingMigrations(
+  fromSchema: string,
+  toVersion: string,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  const ids = new Set<string>();
+
+  migrations.forEach((migration) => {
+    if (ids.has(migration.id)) {
+      throw new Error(`Duplicate migration id: ${migration.id}`);
+    }
+    if (compareVersions(migration.from, migration.to) >= 0) {
+      throw new Error(`Migration ${migration.id} must upgrade to a later version than it starts from`);
+    }
+    ids.add(migration.id);
+  });
+
+  return migrations
+    .filter(
+      (migration) =>
+        compareVersions(migration.to, fromSchema) > 0 &&
+        compareVersions(migration.to, toVersion) <= 0
+    )
+    .sort((a, b) => compareVersions(a.to, b.to) || compareVersions(a.from, b.from));
+}
+
+/**
+ * Read every key from local and sync storage
+ */
+async function takeSnapshot(): Promise<StorageSnapshot> {
+  const [local, sync] = await Promise.all([
+    chrome.storage.local.get(null),
+    chrome.storage.sync.get(null),
+  ]);
+
+  return { local, sync };
+}
+
+/**
+ * Compute the keys that differ between two snapshots
+ */
+function diffSnapshots(before: StorageSnapshot, after: StorageSnapshot): MigrationChange[] {
+  const changes: MigrationChange[] = [];
+
+  (['local', 'sync'] as StorageAreaName[]).forEach((area) => {
+    const keys = new Set([...Object.keys(before[area]), ...Object.keys(after[area])]);
+
+    keys.forEach((key) => {
+      if (!(key in after[area])) {
+        changes.push({ area, key, action: 'remove' });
+      } else if (JSON.stringify(before[area][key]) !== JSON.stringify(after[area][key])) {
+        changes.push({ area, key, action: 'set' });
+      }
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Write a set of changes from a snapshot to storage
+ */
+async function applyChanges(snapshot: StorageSnapshot, changes: MigrationChange[]): Promise<void> {
+  for (const area of ['local', 'sync'] as StorageAreaName[]) {
+    const storage = chrome.storage[area];
+    const areaChanges = changes.filter((change) => change.area === area);
+
+    const toRemove = areaChanges
+      .filter((change) => change.action === 'remove')
+      .map((change) => change.key);
+    const toSet = areaChanges
+      .filter((change) => change.action === 'set')
+      .reduce<Record<string, any>>((items, change) => {
+        items[change.key] = snapshot[area][change.key];
+        return items;
+      }, {});
+
+    if (toRemove.length > 0) {
+      await storage.remove(toRemove);
+    }
+    if (Object.keys(toSet).length > 0) {
+      await storage.set(toSet);
+    }
+  }
+}
+
+/**
+ * Restore every key touched by a failed commit
+ */
+async function rollback(original: StorageSnapshot, changes: MigrationChange[]): Promise<void> {
+  const inverse: MigrationChange[] = changes.map((change) => ({
+    area: change.area,
+    key: change.key,
+    action: change.key in original[change.area] ? 'set' : 'remove',
+  }));
+
+  await applyChanges(original, inverse);
+}
+
+/**
+ * Get the last applied schema version
+ */
+export async function getSchemaVersion(): Promise<string> {
+  const result = await chrome.storage.local.get(SCHEMA_VERSION_KEY);
+  return result[SCHEMA_VERSION_KEY] || INITIAL_SCHEMA_VERSION;
+}
+
+/**
+ * Record the schema version without running migrations (fresh installs)
+ */
+export async function setSchemaVersion(version: string): Promise<void> {
+  await chrome.storage.local.set({ [SCHEMA_VERSION_KEY]: version });
+}
+
+/**
+ * Run all pending migrations up to the target version
+ */
+export async function runMigrations(
+  toVersion: string,
+  options: MigrationOptions = {}
+): Promise<MigrationResult> {
+  const { dryRun = false, migrations = MIGRATIONS } = options;
+  const fromSchema = await getSchemaVersion();
+
+  const pending = getPendingMigrations(fromSchema, toVersion, migrations);
+
+  const result: MigrationResult = {
+    fromSchema,
+    toSchema: fromSchema,
+    applied: [],
+    changes: [],
+    dryRun,
+  };
+
+  if (pending.length === 0) {
+    if (!dryRun && compareVersions(toVersion, fromSchema) > 0) {
+      await setSchemaVersion(toVersion);
+    }
+    result.toSchema = toVersion;
+    return result;
+  }
+
+  const original = await takeSnapshot();
+  const working: StorageSnapshot = JSON.parse(JSON.stringify(original));
+
+  for (const migration of pending) {
+    try {
+      migration.migrate(working);
+      result.applied.push(migration.id);
+    } catch (error) {
+      logger.error('Migration step failed, nothing was written:', migration.id, error);
+      throw error;
+    }
+  }
+
+  working.local[SCHEMA_VERSION_KEY] = toVersion;
+  result.changes = diffSnapshots(original, working);
+  result.toSchema = toVersion;
+
+  if (dryRun) {
+    logger.info('Migration dry run:', result);
+    return result;
+  }
+
+  try {
+    await applyChanges(working, result.changes);
+    logger.info('Migrations applied:', result.applied);
+  } catch (error) {
+    logger.error('Failed to commit migrations, rolling back:', error);
+    await rollback(original, result.changes);
+    throw error;
+  }
+
+  return result;
+}
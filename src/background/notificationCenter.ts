@@ -0,0 +1,336 @@
+/**
+ * Notification Center
+ *
+ * Handles every SHOW_NOTIFICATION request in one place
+ * - In-page toast when a web page has focus, chrome.notifications otherwise
+ * - Dedupe and rate limiting per notification kind
+ * - Quiet hours and on/off preference from settings
+ * - Serializable action IDs dispatched to registered handlers
+ */
+
+import type {
+  NotificationActionId,
+  NotificationDelivery,
+  NotificationKind,
+  ShowNotificationMessage,
+  ShowToastMessage,
+} from '@/shared/types';
+import { generateId, logger } from '@/shared/utils';
+
+type NotificationRequest = ShowNotificationMessage['payload'];
+
+type ActionHandler = (context: { tabId?: number }) => Promise<void> | void;
+
+interface NotificationPreferences {
+  notificationsEnabled: boolean;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string; // "HH:MM"
+  quietHoursEnd: string; // "HH:MM"
+}
+
+interface NotificationHistoryEntry {
+  message: string;
+  shownAt: number;
+}
+
+// Minimum time between two notifications of the same kind
+const KIND_COOLDOWNS: Record<NotificationKind, number> = {
+  low_usage: 60 * 60 * 1000, // 1 hour
+  limit_reached: 60 * 60 * 1000, // 1 hour
+  offline: 10 * 60 * 1000, // 10 minutes
+  sync_failed: 30 * 60 * 1000, // 30 minutes
+  general: 0,
+};
+
+// Identical messages inside this window are dropped regardless of kind
+const DEDUPE_WINDOW = 60 * 1000; // 1 minute
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  notificationsEnabled: true,
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+};
+
+// chrome.storage.session keys (survive worker restarts)
+const HISTORY_KEY = 'notificationHistory';
+const PENDING_ACTIONS_KEY = 'notificationActions';
+
+const NOTIFICATION_ICON = 'icons/icon-128.png';
+
+/**
+ * Check a value is a known notification kind
+ */
+export function isNotificationKind(value: unknown): value is NotificationKind {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(KIND_COOLDOWNS, value);
+}
+
+/**
+ * Notification Center
+ */
+class NotificationCenter {
+  private handlers: Map<NotificationActionId, ActionHandler> = new Map();
+  private initialized = false;
+
+  /**
+   * Listen for clicks on system notifications
+   */
+  init(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    chrome.notifications.onClicked.addListener((notificationId) => {
+      this.handleSystemClick(notificationId);
+    });
+
+    chrome.notifications.onButtonClicked.addListener((notificationId) => {
+      this.handleSystemClick(notificationId);
+    });
+
+    chrome.notifications.onClosed.addListener((notificationId) => {
+      this.takePendingAction(notificationId).catch(() => {});
+    });
+  }
+
+  /**
+   * Register the handler for an action ID
+   */
+  registerAction(actionId: NotificationActionId, handler: ActionHandler): void {
+    this.handlers.set(actionId, handler);
+  }
+
+  /**
+   * Check an action ID has a handler
+   */
+  hasAction(actionId: unknown): actionId is NotificationActionId {
+    return typeof actionId === 'string' && this.handlers.has(actionId as NotificationActionId);
+  }
+
+  /**
+   * Show a notification, picking toast or system delivery
+   */
+  async show(request: NotificationRequest): Promise<NotificationDelivery> {
+    const preferences = await this.getPreferences();
+
+    if (!preferences.notificationsEnabled) {
+      logger.debug('Notifications disabled, suppressed:', request.kind);
+      return 'suppressed';
+    }
+
+    if (!(await this.shouldShow(request))) {
+      logger.debug('Notification rate limited:', request.kind);
+      return 'suppressed';
+    }
+
+    const tabId = await this.getFocusedPageTabId();
+
+    if (tabId !== null && (await this.showToast(tabId, request))) {
+      await this.recordShown(request);
+      return 'toast';
+    }
+
+    // Quiet hours only hold back system notifications
+    if (this.isQuietTime(preferences)) {
+      logger.debug('Quiet hours, suppressed:', request.kind);
+      return 'suppressed';
+    }
+
+    await this.showSystem(request);
+    await this.recordShown(request);
+    return 'system';
+  }
+
+  /**
+   * Run the handler for an action ID
+   */
+  async dispatch(actionId: NotificationActionId, tabId?: number): Promise<void> {
+    const handler = this.handlers.get(actionId);
+
+    if (!handler) {
+      logger.warn('No handler for notification action:', actionId);
+      return;
+    }
+
+    logger.info('Notification action:', actionId);
+    await handler({ tabId });
+  }
+
+  /**
+   * Apply dedupe and per-kind cooldown
+   */
+  private async shouldShow(request: NotificationRequest): Promise<boolean> {
+    const history = await this.getHistory();
+    const last = history[request.kind];
+
+    if (!last) return true;
+
+    const elapsed = Date.now() - last.shownAt;
+
+    if (last.message === request.message && elapsed < DEDUPE_WINDOW) {
+      return false;
+    }
+
+    return elapsed >= KIND_COOLDOWNS[request.kind];
+  }
+
+  private async recordShown(request: NotificationRequest): Promise<void> {
+    const history = await this.getHistory();
+    history[request.kind] = { message: request.message, shownAt: Date.now() };
+    await chrome.storage.session.set({ [HISTORY_KEY]: history });
+  }
+
+  private async getHistory(): Promise<Partial<Record<NotificationKind, NotificationHistoryEntry>>> {
+    const result = await chrome.storage.session.get(HISTORY_KEY);
+    return result[HISTORY_KEY] || {};
+  }
+
+  /**
+   * Read notification preferences from settings
+   */
+  private async getPreferences(): Promise<NotificationPreferences> {
+    const { settings } = await chrome.storage.local.get('settings');
+
+    return {
+      notificationsEnabled: settings?.notificationsEnabled ?? DEFAULT_PREFERENCES.notificationsEnabled,
+      quietHoursEnabled: settings?.quietHoursEnabled ?? DEFAULT_PREFERENCES.quietHoursEnabled,
+      quietHoursStart: settings?.quietHoursStart || DEFAULT_PREFERENCES.quietHoursStart,
+      quietHoursEnd: settings?.quietHoursEnd || DEFAULT_PREFERENCES.quietHoursEnd,
+    };
+  }
+
+  /**
+   * Check the current time falls inside quiet hours (may wrap midnight)
+   */
+  private isQuietTime(preferences: NotificationPreferences): boolean {
+    if (!preferences.quietHoursEnabled) return false;
+
+    const start = toMinutes(preferences.quietHoursStart);
+    const end = toMinutes(preferences.quietHoursEnd);
+
+    if (start === null || end === null || start === end) return false;
+
+    const now = new Date();
+    const current = now.getHours() * 60 + now.getMinutes();
+
+    return start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  }
+
+  /**
+   * Get the active web page tab if its window has focus
+   */
+  private async getFocusedPageTabId(): Promise<number | null> {
+    try {
+      const focusedWindow = await chrome.windows.getLastFocused({ populate: true });
+      if (!focusedWindow.focused) return null;
+
+      // Pages without our content script fall back to system notifications
+      const tab = focusedWindow.tabs?.find((item) => item.active);
+      return tab?.id ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Ask the content script to show a toast
+   */
+  private async showToast(tabId: number, request: NotificationRequest): Promise<boolean> {
+    const message: ShowToastMessage = {
+      type: 'SHOW_TOAST',
+      payload: {
+        type: request.type,
+        message: request.message,
+        action: request.action,
+      },
+    };
+
+    try {
+      const response = await chrome.tabs.sendMessage(tabId, message);
+      return !!response?.success;
+    } catch {
+      // No content script on this page
+      return false;
+    }
+  }
+
+  /**
+   * Show a chrome.notifications notification
+   */
+  private async showSystem(request: NotificationRequest): Promise<void> {
+    const notificationId = generateId();
+
+    await new Promise<void>((resolve) => {
+      chrome.notifications.create(
+        notificationId,
+        {
+          type: 'basic',
+          iconUrl: chrome.runtime.getURL(NOTIFICATION_ICON),
+          title: request.title || 'Stupify',
+          message: request.message,
+          buttons: request.action ? [{ title: request.action.text }] : undefined,
+          priority: request.type === 'error' ? 2 : 0,
+        },
+        () => resolve()
+      );
+    });
+
+    if (request.action) {
+      const pending = await this.getPendingActions();
+      pending[notificationId] = request.action.id;
+      await chrome.storage.session.set({ [PENDING_ACTIONS_KEY]: pending });
+    }
+  }
+
+  private handleSystemClick(notificationId: string): void {
+    this.takePendingAction(notificationId)
+      .then((actionId) => {
+        chrome.notifications.clear(notificationId);
+        if (actionId) {
+          return this.dispatch(actionId);
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to handle notification click:', error);
+      });
+  }
+
+  /**
+   * Remove and return the action stored for a system notification
+   */
+  private async takePendingAction(notificationId: string): Promise<NotificationActionId | null> {
+    const pending = await this.getPendingActions();
+    const actionId = pending[notificationId] || null;
+
+    if (actionId) {
+      delete pending[notificationId];
+      await chrome.storage.session.set({ [PENDING_ACTIONS_KEY]: pending });
+    }
+
+    return actionId;
+  }
+
+  private async getPendingActions(): Promise<Record<string, NotificationActionId>> {
+    const result = await chrome.storage.session.get(PENDING_ACTIONS_KEY);
+    return result[PENDING_ACTIONS_KEY] || {};
+  }
+}
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+function toMinutes(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+// Export singleton instance
+export const notificationCenter = new NotificationCenter();
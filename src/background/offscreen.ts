@@ -0,0 +1,118 @@
+/**
+ * Offscreen Document Manager
+ *
+ * Runs DOM-dependent jobs in the offscreen document (see src/offscreen)
+ * - Creates the document on first use (one creation in flight at a time)
+ * - Closes it once it has been idle for a while
+ * - Jobs are request/response messages with target: 'offscreen'
+ */
+
+import type {
+  OffscreenJob,
+  OffscreenJobResultMap,
+  OffscreenMessage,
+  RpcResponse,
+} from '@/shared/types';
+import { MessagingError } from '@/shared/messaging';
+import { logger } from '@/shared/utils';
+
+const OFFSCREEN_PATH = 'offscreen.html';
+
+// Alarm that closes the idle document (timers don't survive worker restarts)
+export const OFFSCREEN_IDLE_ALARM = 'close-offscreen-document';
+const IDLE_CLOSE_MINUTES = 2;
+
+/**
+ * Offscreen Manager
+ */
+class OffscreenManager {
+  private creating: Promise<void> | null = null;
+  private activeJobs = 0;
+
+  /**
+   * Run a job in the offscreen document, creating it if needed
+   */
+  async run<T extends OffscreenJob>(job: T): Promise<OffscreenJobResultMap[T['type']]> {
+    this.activeJobs++;
+    await chrome.alarms.clear(OFFSCREEN_IDLE_ALARM);
+
+    try {
+      await this.ensureDocument();
+
+      const message: OffscreenMessage = { target: 'offscreen', job };
+      const response: RpcResponse<OffscreenJobResultMap[T['type']]> | undefined =
+        await chrome.runtime.sendMessage(message);
+
+      if (!response) {
+        throw new MessagingError({
+          code: 'NO_RESPONSE',
+          message: `No response for offscreen job ${job.type}`,
+        });
+      }
+
+      if (!response.success) {
+        throw new MessagingError(response.error);
+      }
+
+      return response.data;
+    } finally {
+      this.activeJobs--;
+
+      if (this.activeJobs === 0) {
+        chrome.alarms.create(OFFSCREEN_IDLE_ALARM, { delayInMinutes: IDLE_CLOSE_MINUTES });
+      }
+    }
+  }
+
+  /**
+   * Close the document unless a job is running
+   */
+  async close(): Promise<void> {
+    if (this.activeJobs > 0 || this.creating) return;
+
+    if (await chrome.offscreen.hasDocument()) {
+      await chrome.offscreen.closeDocument();
+      logger.debug('Offscreen document closed');
+    }
+  }
+
+  /**
+   * Whether a message came from our offscreen document
+   */
+  isOffscreenSender(sender: chrome.runtime.MessageSender): boolean {
+    return sender.id === chrome.runtime.id && sender.url === chrome.runtime.getURL(OFFSCREEN_PATH);
+  }
+
+  private async ensureDocument(): Promise<void> {
+    if (this.creating) {
+      return this.creating;
+    }
+
+    if (await chrome.offscreen.hasDocument()) return;
+
+    // Another job may have started creating it while we checked
+    if (!this.creating) {
+      this.creating = chrome.offscreen
+        .createDocument({
+          url: OFFSCREEN_PATH,
+          reasons: [
+            chrome.offscreen.Reason.DOM_PARSER,
+            chrome.offscreen.Reason.AUDIO_PLAYBACK,
+            chrome.offscreen.Reason.CLIPBOARD,
+          ],
+          justification: 'Parse HTML, play sounds, copy explanations and run offline sync outside the service worker',
+        })
+        .then(() => {
+          logger.debug('Offscreen document created');
+        })
+        .finally(() => {
+          this.creating = null;
+        });
+    }
+
+    return this.creating;
+  }
+}
+
+// Export singleton instance
+export const offscreenManager = new OffscreenManager();
@@ -0,0 +1,102 @@
+/**
+ * Panel Tokens
+ *
+ * sidepanel.html is web accessible so the floating panel can frame it, which
+ * means a page could frame it too. A panel hosted outside the side panel
+ * (floating iframe, popup window) only serves the tab the background bound
+ * to its token:
+ * - Tokens are random, tied to one tab and redeemed once
+ * - Unredeemed tokens expire after a minute
+ * - Kept in chrome.storage.session so a worker restart doesn't drop them
+ */
+
+import type { PanelBinding } from '@/shared/types';
+import { STORAGE_KEYS } from '@/shared/constants';
+import { logger } from '@/shared/utils';
+
+// Time a panel has to load and redeem its token
+const TOKEN_TTL = 60 * 1000; // 1 minute
+
+interface IssuedToken extends PanelBinding {
+  issuedAt: number;
+}
+
+/**
+ * Panel Token Registry
+ */
+class PanelTokenRegistry {
+  private tokens: Map<string, IssuedToken> = new Map();
+  private ready: Promise<void> | null = null;
+
+  /**
+   * Restore tokens issued before the worker restarted
+   */
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = chrome.storage.session
+        .get(STORAGE_KEYS.PANEL_TOKENS)
+        .then((result) => {
+          const stored: Record<string, IssuedToken> = result[STORAGE_KEYS.PANEL_TOKENS] || {};
+          Object.entries(stored).forEach(([token, issued]) => {
+            if (!this.tokens.has(token)) this.tokens.set(token, issued);
+          });
+        })
+        .catch((error) => {
+          logger.debug('Failed to restore panel tokens:', error);
+        });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Token for a panel that will serve this tab (synchronous: callers may
+   * still hold a user gesture)
+   */
+  issue(tabId: number, windowId: number): string {
+    this.prune(Date.now());
+
+    const token = crypto.randomUUID();
+    this.tokens.set(token, { tabId, windowId, issuedAt: Date.now() });
+    this.persist();
+
+    return token;
+  }
+
+  /**
+   * Tab a token was issued for, or null if unknown, used or expired
+   */
+  async redeem(token: string): Promise<PanelBinding | null> {
+    await this.init();
+
+    const issued = this.tokens.get(token);
+    this.tokens.delete(token);
+    this.prune(Date.now());
+    this.persist();
+
+    if (!issued || Date.now() - issued.issuedAt >= TOKEN_TTL) {
+      logger.warn('Rejected an unknown or expired panel token');
+      return null;
+    }
+
+    return { tabId: issued.tabId, windowId: issued.windowId };
+  }
+
+  private prune(now: number): void {
+    this.tokens.forEach((issued, token) => {
+      if (now - issued.issuedAt >= TOKEN_TTL) {
+        this.tokens.delete(token);
+      }
+    });
+  }
+
+  private persist(): void {
+    chrome.storage.session
+      .set({ [STORAGE_KEYS.PANEL_TOKENS]: Object.fromEntries(this.tokens) })
+      .catch((error) => {
+        logger.debug('Failed to save panel tokens:', error);
+      });
+  }
+}
+
+// Export singleton instance
+export const panelTokens = new PanelTokenRegistry();
@@ -0,0 +1,75 @@
+/**
+ * Side Panel Tracker
+ *
+ * Knows which windows have the side panel open so a command can toggle it
+ * - Each open side panel holds a port and says which window it is in
+ * - Closing asks the panel to close itself (there is no close API)
+ */
+
+import {
+  CloseSidePanelRequest,
+  SIDE_PANEL_PORT_NAME,
+  SidePanelHello,
+} from '@/shared/sidepanel';
+import { logger } from '@/shared/utils';
+import { getSenderKind, isPlainObject } from './router';
+
+/**
+ * Side Panel Tracker
+ */
+class PanelTracker {
+  private panels: Map<number, chrome.runtime.Port> = new Map();
+
+  /**
+   * Handle a port from a side panel
+   */
+  handleConnect(port: chrome.runtime.Port): void {
+    if (port.name !== SIDE_PANEL_PORT_NAME) return;
+
+    if (!port.sender || getSenderKind(port.sender) !== 'extension_page') {
+      logger.warn('Rejected side panel port from unknown sender');
+      port.disconnect();
+      return;
+    }
+
+    let windowId: number | null = null;
+
+    port.onMessage.addListener((message: SidePanelHello) => {
+      if (!isPlainObject(message) || message.type !== 'SIDE_PANEL_OPENED') return;
+      if (!isPlainObject(message.payload) || typeof message.payload.windowId !== 'number') return;
+
+      windowId = message.payload.windowId;
+      this.panels.set(windowId, port);
+    });
+
+    port.onDisconnect.addListener(() => {
+      if (windowId !== null && this.panels.get(windowId) === port) {
+        this.panels.delete(windowId);
+      }
+    });
+  }
+
+  isOpen(windowId: number): boolean {
+    return this.panels.has(windowId);
+  }
+
+  /**
+   * Ask the side panel in a window to close
+   */
+  close(windowId: number): boolean {
+    const port = this.panels.get(windowId);
+    if (!port) return false;
+
+    try {
+      const request: CloseSidePanelRequest = { type: 'CLOSE_SIDE_PANEL' };
+      port.postMessage(request);
+      return true;
+    } catch {
+      this.panels.delete(windowId);
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const panelTracker = new PanelTracker();
@@ -0,0 +1,136 @@
+/**
+ * Message Router
+ *
+ * Typed request/response router for chrome.runtime messages
+ * - One route per BackgroundMessage type
+ * - Per-message payload validation
+ * - Sender checks (extension pages vs content scripts)
+ * - Structured error responses
+ */
+
+import type {
+  BackgroundMessage,
+  BackgroundMessageType,
+  BackgroundResponseMap,
+  RpcError,
+  RpcErrorCode,
+  RpcResponse,
+} from '@/shared/types';
+import { logger } from '@/shared/utils';
+
+export type SenderKind = 'extension_page' | 'content_script';
+
+type MessageOfType<T extends BackgroundMessageType> = Extract<BackgroundMessage, { type: T }>;
+
+export interface Route<T extends BackgroundMessageType> {
+  // Contexts allowed to send this message
+  allowFrom: SenderKind[];
+  // Extra sender check (e.g. origin allow-list)
+  authorize?: (sender: chrome.runtime.MessageSender) => boolean;
+  // Returns an error description, or null if the message is valid
+  validate?: (message: MessageOfType<T>) => string | null;
+  handle: (
+    message: MessageOfType<T>,
+    sender: chrome.runtime.MessageSender
+  ) => Promise<BackgroundResponseMap[T]> | BackgroundResponseMap[T];
+}
+
+export type RouteTable = {
+  [T in BackgroundMessageType]: Route<T>;
+};
+
+/**
+ * Classify the sender of a message, or null if it is not ours
+ */
+export function getSenderKind(sender: chrome.runtime.MessageSender): SenderKind | null {
+  if (sender.id !== chrome.runtime.id) {
+    return null;
+  }
+
+  const extensionOrigin = chrome.runtime.getURL('');
+
+  if (sender.url?.startsWith(extensionOrigin)) {
+    return 'extension_page';
+  }
+
+  if (sender.tab) {
+    return 'content_script';
+  }
+
+  return null;
+}
+
+/**
+ * Build an error response
+ */
+function failure(code: RpcErrorCode, message: string): RpcResponse<never> {
+  const error: RpcError = { code, message };
+  return { success: false, error };
+}
+
+/**
+ * Validation helpers
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Create a chrome.runtime.onMessage listener from a route table
+ */
+export function createMessageRouter(routes: RouteTable) {
+  return (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: RpcResponse<unknown>) => void
+  ): boolean => {
+    if (!isPlainObject(message) || typeof message.type !== 'string') {
+      sendResponse(failure('INVALID_PAYLOAD', 'Message must be an object with a type'));
+      return false;
+    }
+
+    const type = message.type as BackgroundMessageType;
+    const route = Object.prototype.hasOwnProperty.call(routes, type)
+      ? (routes[type] as unknown as Route<BackgroundMessageType>)
+      : null;
+
+    if (!route) {
+      logger.warn('Unknown message type:', message.type);
+      sendResponse(failure('UNKNOWN_TYPE', `Unknown message type: ${message.type}`));
+      return false;
+    }
+
+    const senderKind = getSenderKind(sender);
+
+    if (!senderKind || !route.allowFrom.includes(senderKind) || (route.authorize && !route.authorize(sender))) {
+      logger.warn('Rejected message from unauthorized sender:', type, sender.url);
+      sendResponse(failure('FORBIDDEN', `Sender not allowed to send ${type}`));
+      return false;
+    }
+
+    const typedMessage = message as unknown as MessageOfType<BackgroundMessageType>;
+    const validationError = route.validate?.(typedMessage) ?? null;
+
+    if (validationError) {
+      logger.warn('Invalid message payload:', type, validationError);
+      sendResponse(failure('INVALID_PAYLOAD', validationError));
+      return false;
+    }
+
+    logger.debug('Message received:', type);
+
+    Promise.resolve()
+      .then(() => route.handle(typedMessage, sender))
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        logger.error(`Failed to handle ${type}:`, error);
+        sendResponse(failure('HANDLER_FAILED', error?.message || 'Handler failed'));
+      });
+
+    return true;
+  };
+}
@@ -3,19 +3,104 @@
  * 
  * Handles:
  * - Context menu creation
+ * - Omnibox keyword ("stupify <question>")
  * - Message passing between content scripts and UI
  * - Side panel management
  * - Auth state synchronization
  * - Analytics event tracking
+ * - Notifications (toast or system)
+ * - Offscreen document jobs (offline sync, HTML parsing)
+ * - Connectivity state for every view
  * 
  * ✅ FIX: Use chrome.alarms instead of setInterval to prevent memory leaks
  */
 
-import { ChromeMessage } from "@/shared/types";
-import { logger } from "@/shared/utils";
-
-// Context menu ID
+import {
+  ComplexityLevel,
+  CurrentSelection,
+  DefineTermResult,
+  ExplanationSource,
+  ExplanationTrigger,
+  ManagedPolicy,
+  OpenSidePanelMessage,
+  PanelSurface,
+  SelectionContext,
+  SelectionFormat,
+  SelectionMode,
+  StoredAuth,
+  StoredDailyUsage,
+} from "@/shared/types";
+import { COMPLEXITY_LABELS, DEFAULT_SETTINGS, STORAGE_KEYS, URLS } from "@/shared/constants";
+import { getSelectionMode, logger } from "@/shared/utils";
+import { clearPendingExplanations, enqueuePendingExplanation } from "@/shared/pendingExplanations";
+import { clearPanelSession } from "@/shared/panelSessions";
+import { addFavorite } from "@/shared/favorites";
+import { hasNotableChanges } from "@/shared/changelog";
+import { apiClient } from "@/services/api";
+import { definitionService } from "@/services/definitions";
+import { offlineStorage } from "@/services/offlineStorage";
+import { isUrlBlocked, policyService } from "@/services/policy";
+import { connectivity } from "@/services/connectivity";
+import { runMigrations as runStorageMigrations, setSchemaVersion } from "./migrations";
+import { createMessageRouter, getSenderKind, isNonEmptyString, isPlainObject, RouteTable } from "./router";
+import { streamManager } from "./streamManager";
+import { analyticsPipeline, ANALYTICS_FLUSH_ALARM, ANALYTICS_FLUSH_PERIOD_MINUTES } from "./analyticsPipeline";
+import { isNotificationKind, notificationCenter } from "./notificationCenter";
+import { triggerDeduplicator } from "./triggerDedupe";
+import { panelTokens } from "./panelTokens";
+import { offscreenManager, OFFSCREEN_IDLE_ALARM } from "./offscreen";
+import { panelTracker } from "./panelTracker";
+import { ensureContentScript, reinjectContentScripts, syncPassiveContentScript } from "./contentScripts";
+import { recordExplanationCompleted, updateUninstallUrl } from "./uninstallFeedback";
+import { externalApi } from "./externalApi";
+import { connectivityMonitor, CONNECTIVITY_CHECK_ALARM } from "./connectivityMonitor";
+import { DAILY_LIMIT_MESSAGE, usageMonitor, USAGE_SYNC_ALARM } from "./usageMonitor";
+
+// Context menu IDs
 const CONTEXT_MENU_ID = 'stupify-simplify-text';
+const CONTEXT_MENU_LINK_ID = 'stupify-explain-link';
+const CONTEXT_MENU_PAGE_ID = 'stupify-summarize-page';
+const CONTEXT_MENU_IMAGE_ID = 'stupify-explain-image';
+
+// Complexity submenu entries (child IDs are `${CONTEXT_MENU_ID}:${level}`)
+const CONTEXT_MENU_LEVELS: { level: ComplexityLevel; title: string }[] = [
+  { level: '5yo', title: "Explain like I'm 5" },
+  { level: 'normal', title: 'Normal' },
+  { level: 'advanced', title: 'Advanced' },
+];
+
+const MENU_DOCUMENT_PATTERNS = ['http://*/*', 'https://*/*'];
+
+const PANEL_SURFACES: PanelSurface[] = ['side_panel', 'floating', 'popup', 'inline'];
+const SELECTION_FORMATS: SelectionFormat[] = ['text', 'markdown'];
+const SELECTION_MODES: SelectionMode[] = ['define', 'explain'];
+
+// Popup window size for the "popup" surface
+const PANEL_WINDOW_WIDTH = 420;
+const PANEL_WINDOW_HEIGHT = 680;
+
+// Offline sync (runs in the offscreen document)
+const SYNC_ALARM = 'background-sync';
+const SYNC_PERIOD_MINUTES = 1;
+
+// Keyboard commands (see "commands" in manifest.json)
+const COMMAND_SIMPLIFY = 'simplify-selection';
+const COMMAND_NEXT_LEVEL = 'explain-next-level';
+const COMMAND_TOGGLE_PANEL = 'toggle-side-panel';
+const COMMAND_COPY = 'copy-last-explanation';
+const COMMAND_SAVE_FAVORITE = 'save-to-favorites';
+const COMMAND_LEVELS: Record<string, ComplexityLevel> = {
+  'explain-5yo': '5yo',
+  'explain-normal': 'normal',
+  'explain-advanced': 'advanced',
+};
+
+// Last explanation request (session), for "re-explain at next level"
+const LAST_EXPLANATION_KEY = 'lastExplanation';
+
+// Omnibox suggestions
+const MIN_OMNIBOX_QUERY_LENGTH = 2;
+const MAX_OMNIBOX_SUGGESTIONS = 5;
 
 /**
  * Initialize service worker
@@ -34,6 +119,14 @@ chrome.runtime.onInstalled.addListener((details) => {
 
   // ✅ FIX: Set up alarm for periodic tasks
   setupPeriodicTasks();
+
+  // Passive content script for sites the user allowed
+  syncPassiveContentScript().catch((error) => {
+    logger.error('Failed to register content script:', error);
+  });
+
+  // Selections and pending explanations used to live in local storage
+  chrome.storage.local.remove(['currentSelection', 'pendingExplanation']).catch(() => {});
 });
 
 /**
@@ -44,9 +137,7 @@ async function handleFirstInstall(): Promise<void> {
     // Set default settings
     await chrome.storage.local.set({
       settings: {
-        defaultComplexity: 'normal',
-        autoOpenSidePanel: true,
-        keyboardShortcutEnabled: true,
+        ...DEFAULT_SETTINGS,
         theme: 'light',
       },
       stats: {
@@ -60,6 +151,9 @@ async function handleFirstInstall(): Promise<void> {
       },
     });
 
+    // Fresh installs already use the latest storage shape
+    await setSchemaVersion(chrome.runtime.getManifest().version);
+
     // Open welcome page
     chrome.tabs.create({
       url: chrome.runtime.getURL('onboarding.html'),
@@ -70,6 +164,8 @@ async function handleFirstInstall(): Promise<void> {
       version: chrome.runtime.getManifest().version,
     });
 
+    await updateUninstallUrl();
+
     logger.info('First install setup complete');
   } catch (error) {
     logger.error('Failed to handle first install:', error);
@@ -98,35 +194,129 @@ async function handleUpdate(previousVersion?: string): Promise<void> {
     if (previousVersion) {
       await runMigrations(previousVersion, currentVersion);
     }
+
+    // Replace the content scripts orphaned in already-open tabs
+    const injection = await reinjectContentScripts();
+    trackEvent('content_scripts_reinjected', {
+      injected: injection.injected,
+      failed: injection.failed,
+    });
+
+    if (previousVersion) {
+      await openWhatsNew(previousVersion, currentVersion);
+    }
+
+    await updateUninstallUrl();
   } catch (error) {
     logger.error('Failed to handle update:', error);
   }
 }
 
+/**
+ * Show release notes after a notable update (unless the user opted out)
+ */
+async function openWhatsNew(previousVersion: string, currentVersion: string): Promise<void> {
+  if (!hasNotableChanges(previousVersion, currentVersion)) return;
+
+  const { settings } = await chrome.storage.local.get('settings');
+  if (settings?.showWhatsNew === false) return;
+
+  const url = new URL(chrome.runtime.getURL('whats-new.html'));
+  url.searchParams.set('from', previousVersion);
+
+  await chrome.tabs.create({ url: url.toString() });
+
+  trackEvent('whats_new_opened', {
+    from_version: previousVersion,
+    to_version: currentVersion,
+  });
+}
+
 /**
  * Run data migrations between versions
  */
 async function runMigrations(fromVersion: string, toVersion: string): Promise<void> {
   logger.info('Running migrations:', { fromVersion, toVersion });
-  // Add migration logic here when needed
+
+  try {
+    const result = await runStorageMigrations(toVersion);
+
+    trackEvent('storage_migrated', {
+      from_schema: result.fromSchema,
+      to_schema: result.toSchema,
+      steps_applied: result.applied.length,
+    });
+  } catch (error) {
+    logger.error('Migrations failed, storage left unchanged:', error);
+
+    trackEvent('storage_migration_failed', {
+      from_version: fromVersion,
+      to_version: toVersion,
+    });
+  }
 }
 
 /**
- * Create context menu item
+ * Create context menu items
+ * - Selection: parent menu with one child per complexity level
+ * - Link, page and image: explain/summarize at the default level
  */
-function createContextMenu(): void {
+let contextMenuBuild: Promise<void> = Promise.resolve();
+
+function createContextMenu(): Promise<void> {
+  // Serialize rebuilds so removeAll/create calls never interleave
+  contextMenuBuild = contextMenuBuild.then(buildContextMenu);
+  return contextMenuBuild;
+}
+
+async function buildContextMenu(): Promise<void> {
   try {
-    // Remove existing menu (in case of reload)
-    chrome.contextMenus.remove(CONTEXT_MENU_ID, () => {
-      chrome.runtime.lastError; // Ignore error if doesn't exist
+    const defaultComplexity = await policyService.getDefaultComplexity();
+
+    // Remove existing menus (in case of reload or settings change)
+    await new Promise<void>((resolve) => {
+      chrome.contextMenus.removeAll(() => {
+        chrome.runtime.lastError; // Ignore error if nothing to remove
+        resolve();
+      });
     });
 
-    // Create new menu
     chrome.contextMenus.create({
       id: CONTEXT_MENU_ID,
       title: 'Simplify with Stupify',
       contexts: ['selection'],
-      documentUrlPatterns: ['http://*/*', 'https://*/*'],
+      documentUrlPatterns: MENU_DOCUMENT_PATTERNS,
+    });
+
+    CONTEXT_MENU_LEVELS.forEach(({ level, title }) => {
+      chrome.contextMenus.create({
+        id: `${CONTEXT_MENU_ID}:${level}`,
+        parentId: CONTEXT_MENU_ID,
+        title: level === defaultComplexity ? `${title} (default)` : title,
+        contexts: ['selection'],
+        documentUrlPatterns: MENU_DOCUMENT_PATTERNS,
+      });
+    });
+
+    chrome.contextMenus.create({
+      id: CONTEXT_MENU_LINK_ID,
+      title: 'Explain this link with Stupify',
+      contexts: ['link'],
+      documentUrlPatterns: MENU_DOCUMENT_PATTERNS,
+    });
+
+    chrome.contextMenus.create({
+      id: CONTEXT_MENU_PAGE_ID,
+      title: 'Summarize this page with Stupify',
+      contexts: ['page'],
+      documentUrlPatterns: MENU_DOCUMENT_PATTERNS,
+    });
+
+    chrome.contextMenus.create({
+      id: CONTEXT_MENU_IMAGE_ID,
+      title: 'Explain this image with Stupify',
+      contexts: ['image'],
+      documentUrlPatterns: MENU_DOCUMENT_PATTERNS,
     });
 
     logger.info('Context menu created');
@@ -135,21 +325,87 @@ function createContextMenu(): void {
   }
 }
 
+/**
+ * Preferred explanation surface, cached so opening a panel never
+ * waits on storage (that would lose the user gesture)
+ */
+let preferredSurface: PanelSurface = 'side_panel';
+
+chrome.storage.local.get('settings').then(({ settings }) => {
+  preferredSurface = settings?.preferredSurface || 'side_panel';
+}).catch(() => {});
+
+/**
+ * Managed policy, cached for the same reason
+ */
+let managedPolicy: ManagedPolicy = {};
+
+policyService.getPolicy().then((policy) => {
+  managedPolicy = policy;
+}).catch(() => {});
+
+policyService.subscribe((policy) => {
+  managedPolicy = policy;
+
+  // Forced complexity and blocked domains show up in menus and registrations
+  createContextMenu();
+  syncPassiveContentScript().catch((error) => {
+    logger.error('Failed to update content script registration:', error);
+  });
+});
+
+/**
+ * Rebuild context menus and refresh the surface when settings change (settings page or popup)
+ */
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if ((areaName === 'local' || areaName === 'sync') && changes.settings) {
+    createContextMenu();
+  }
+
+  if (areaName === 'local' && changes.settings) {
+    preferredSurface = changes.settings.newValue?.preferredSurface || 'side_panel';
+
+    if (changes.settings.newValue?.selectionTracking !== changes.settings.oldValue?.selectionTracking) {
+      syncPassiveContentScript().catch((error) => {
+        logger.error('Failed to update content script registration:', error);
+      });
+    }
+  }
+});
+
+/**
+ * Follow site access granted or revoked by the user
+ */
+function handlePermissionsChanged(permissions: chrome.permissions.Permissions): void {
+  if (!permissions.origins?.length) return;
+
+  syncPassiveContentScript().catch((error) => {
+    logger.error('Failed to update content script registration:', error);
+  });
+}
+
+chrome.permissions.onAdded.addListener(handlePermissionsChanged);
+chrome.permissions.onRemoved.addListener(handlePermissionsChanged);
+
+
 /**
  * ✅ FIX: Set up periodic tasks using chrome.alarms (not setInterval)
  * This allows the service worker to sleep and wake up, saving battery and memory
  */
 function setupPeriodicTasks(): void {
-  // Flush event queue every 5 minutes
-  chrome.alarms.create('flush-event-queue', {
-    periodInMinutes: 5,
+  // Drain the analytics queue
+  chrome.alarms.create(ANALYTICS_FLUSH_ALARM, {
+    periodInMinutes: ANALYTICS_FLUSH_PERIOD_MINUTES,
   });
 
-  // Clean up old data every hour
-  chrome.alarms.create('cleanup-old-data', {
-    periodInMinutes: 60,
+  // Replay offline queues
+  chrome.alarms.create(SYNC_ALARM, {
+    periodInMinutes: SYNC_PERIOD_MINUTES,
   });
 
+  // Pending explanations now expire on their own in session storage
+  chrome.alarms.clear('cleanup-old-data');
+
   logger.info('Periodic alarms configured');
 }
 
@@ -160,242 +416,1164 @@ chrome.alarms.onAlarm.addListener((alarm) => {
   logger.debug('Alarm triggered:', alarm.name);
 
   switch (alarm.name) {
-    case 'flush-event-queue':
-      flushEventQueue().catch((error) => {
+    case ANALYTICS_FLUSH_ALARM:
+      analyticsPipeline.flush().catch((error) => {
         logger.debug('Failed to flush event queue:', error);
       });
       break;
 
-    case 'cleanup-old-data':
-      cleanupOldData().catch((error) => {
-        logger.debug('Failed to cleanup old data:', error);
+    case SYNC_ALARM:
+      runScheduledSync().catch((error) => {
+        logger.debug('Scheduled sync failed:', error);
+      });
+      break;
+
+    case CONNECTIVITY_CHECK_ALARM:
+      connectivityMonitor.runHealthCheck().catch((error) => {
+        logger.debug('Connectivity check failed:', error);
+      });
+      break;
+
+    case USAGE_SYNC_ALARM:
+      usageMonitor.sync().catch((error) => {
+        logger.debug('Usage sync failed:', error);
+      });
+      break;
+
+    case OFFSCREEN_IDLE_ALARM:
+      offscreenManager.close().catch((error) => {
+        logger.debug('Failed to close offscreen document:', error);
       });
       break;
   }
 });
 
 /**
- * Clean up old data to prevent unbounded growth
+ * Sync offline queues, only starting the offscreen document if there is work
  */
-async function cleanupOldData(): Promise<void> {
-  try {
-    const { currentSelection, pendingExplanation } = await chrome.storage.local.get([
-      'currentSelection',
-      'pendingExplanation',
-    ]);
-
-    const now = Date.now();
-    const ONE_HOUR = 60 * 60 * 1000;
-
-    // Remove old selection (older than 1 hour)
-    if (currentSelection && now - currentSelection.timestamp > ONE_HOUR) {
-      await chrome.storage.local.remove('currentSelection');
-      logger.debug('Cleaned up old selection');
-    }
+async function runScheduledSync(): Promise<void> {
+  if (!navigator.onLine) return;
 
-    // Remove old pending explanation (older than 1 hour)
-    if (pendingExplanation && now - pendingExplanation.timestamp > ONE_HOUR) {
-      await chrome.storage.local.remove('pendingExplanation');
-      logger.debug('Cleaned up old pending explanation');
-    }
+  const stats = await offlineStorage.getStats();
+  if (stats.queue === 0 && stats.analytics === 0) return;
 
-    logger.debug('Old data cleanup complete');
-  } catch (error) {
-    logger.error('Failed to cleanup old data:', error);
-  }
+  await offscreenManager.run({ type: 'RUN_SYNC' });
 }
 
+/**
+ * Drop a closed tab's pending explanations and side panel session
+ */
+chrome.tabs.onRemoved.addListener((tabId, removeInfo) => {
+  clearPendingExplanations(removeInfo.windowId, tabId).catch((error) => {
+    logger.debug('Failed to clear pending explanations:', error);
+  });
+
+  clearPanelSession(tabId).catch((error) => {
+    logger.debug('Failed to clear side panel session:', error);
+  });
+});
+
 /**
  * Handle context menu clicks
  */
 chrome.contextMenus.onClicked.addListener(async (info, tab) => {
-  if (info.menuItemId !== CONTEXT_MENU_ID) return;
+  const menuItemId = String(info.menuItemId);
 
   try {
     if (!tab?.id) {
       throw new Error('No active tab');
     }
 
-    const selectedText = info.selectionText;
-
-    if (!selectedText || selectedText.trim().length < 10) {
-      logger.warn('Selection too short or empty');
+    if (menuItemId.startsWith(`${CONTEXT_MENU_ID}:`)) {
+      const complexity = menuItemId.slice(CONTEXT_MENU_ID.length + 1) as ComplexityLevel;
+      await handleSelectionMenuClick(info, tab, complexity);
       return;
     }
 
-    // Store selection
-    await chrome.storage.local.set({
-      currentSelection: {
-        text: selectedText.trim(),
-        url: tab.url || '',
-        domain: new URL(tab.url || '').hostname,
-        timestamp: Date.now(),
-      },
-    });
+    switch (menuItemId) {
+      case CONTEXT_MENU_LINK_ID:
+        if (!info.linkUrl) return;
+        await openSidePanel(tab, `Explain what this link is about: ${info.linkUrl}`, {
+          trigger: 'context_menu',
+          source: 'link',
+          url: info.linkUrl,
+        });
+        break;
 
-    // Send message to content script
-    await chrome.tabs.sendMessage(tab.id, {
-      type: 'CONTEXT_MENU_CLICKED',
-      payload: {
-        text: selectedText.trim(),
-      },
-    });
+      case CONTEXT_MENU_PAGE_ID: {
+        // Open first: reading the page takes several awaits, and open() needs the gesture
+        const openedSurface = preferredSurface === 'side_panel' ? openSidePanelInCurrentWindow() : undefined;
 
-    // Open side panel
-    await openSidePanel(tab.id, selectedText.trim());
+        await openSidePanel(tab, await getPageSummaryPrompt(tab), {
+          trigger: 'context_menu',
+          source: 'page',
+          url: tab.url,
+          openedSurface,
+        });
+        break;
+      }
+
+      case CONTEXT_MENU_IMAGE_ID:
+        if (!info.srcUrl) return;
+        await openSidePanel(tab, `Explain what this image shows: ${info.srcUrl}`, {
+          trigger: 'context_menu',
+          source: 'image',
+          url: info.srcUrl,
+        });
+        break;
+
+      default:
+        return;
+    }
 
-    // Track event
     trackEvent('context_menu_clicked', {
-      text_length: selectedText.length,
-      domain: new URL(tab.url || '').hostname,
+      source: menuItemId,
+      domain: getHostname(tab.url),
     });
-
-    logger.info('Context menu handled');
   } catch (error) {
     logger.error('Failed to handle context menu click:', error);
   }
 });
 
 /**
- * Handle keyboard command
+ * Handle a click on one of the selection complexity items
  */
-chrome.commands.onCommand.addListener(async (command) => {
-  if (command === 'simplify-selection') {
-    try {
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      
-      if (!tab?.id) {
-        throw new Error('No active tab');
-      }
+async function handleSelectionMenuClick(
+  info: chrome.contextMenus.OnClickData,
+  tab: chrome.tabs.Tab,
+  complexity: ComplexityLevel
+): Promise<void> {
+  const selectedText = info.selectionText;
+  const mode = selectedText ? getSelectionMode(selectedText) : null;
+
+  if (!selectedText || !mode) {
+    logger.warn('Selection too short or empty');
+    return;
+  }
 
-      // Get current selection from content script
-      const response = await chrome.tabs.sendMessage(tab.id, {
-        type: 'GET_CURRENT_SELECTION',
-      });
+  // Open side panel (the Markdown selection and page context follow if the
+  // content script is there; Chrome's plain selectionText otherwise)
+  await openSidePanel(tab, selectedText.trim(), {
+    trigger: 'context_menu',
+    mode,
+    complexity,
+    url: tab.url,
+    selection: tab.id ? requestCurrentSelection(tab.id, info.frameId) : undefined,
+  });
 
-      const selectedText = response?.text;
+  // Track event
+  trackEvent('context_menu_clicked', {
+    text_length: selectedText.length,
+    complexity,
+    domain: getHostname(tab.url),
+  });
 
-      if (!selectedText || selectedText.length < 10) {
-        logger.warn('No valid selection for keyboard shortcut');
-        return;
+  logger.info('Context menu handled');
+}
+
+/**
+ * Selection (Markdown when structured) and the page context around it from an
+ * already running content script (never injects: the context menu must not
+ * wait on that)
+ */
+async function requestCurrentSelection(tabId: number, frameId = 0): Promise<CurrentSelection | null> {
+  try {
+    const response: CurrentSelection | undefined = await chrome.tabs.sendMessage(
+      tabId,
+      { type: 'GET_CURRENT_SELECTION' },
+      { frameId }
+    );
+    return response?.text ? response : null;
+  } catch {
+    // No content script on this page
+    return null;
+  }
+}
+
+/**
+ * Build a "summarize this page" question from the page content
+ */
+async function getPageSummaryPrompt(tab: chrome.tabs.Tab): Promise<string> {
+  try {
+    await ensureContentScript(tab.id!);
+    const response = await chrome.tabs.sendMessage(tab.id!, { type: 'GET_PAGE_CONTENT' });
+
+    if (response?.text) {
+      return `Summarize this page "${response.title || tab.title || ''}":\n\n${response.text}`;
+    }
+  } catch (error) {
+    logger.debug('Content script unavailable for page summary:', error);
+  }
+
+  // No content script (e.g. tab opened before install): parse the page's HTML offscreen
+  try {
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id! },
+      func: () => document.documentElement.outerHTML,
+    });
+
+    if (typeof injection?.result === 'string') {
+      const page = await offscreenManager.run({ type: 'PARSE_HTML', html: injection.result });
+
+      if (page.text) {
+        return `Summarize this page "${page.title || tab.title || ''}":\n\n${page.text}`;
       }
+    }
+  } catch (error) {
+    logger.debug('Failed to read page HTML for summary:', error);
+  }
 
-      // Open side panel
-      await openSidePanel(tab.id, selectedText);
+  return `Summarize this page: ${tab.title || ''} (${tab.url || ''})`;
+}
 
-      // Track event
-      trackEvent('keyboard_shortcut_used', {
-        text_length: selectedText.length,
-      });
+/**
+ * Get a hostname without throwing on missing or invalid URLs
+ */
+function getHostname(url?: string): string {
+  try {
+    return new URL(url || '').hostname;
+  } catch {
+    return '';
+  }
+}
 
-      logger.info('Keyboard shortcut handled');
-    } catch (error) {
-      logger.error('Failed to handle keyboard command:', error);
+/**
+ * Handle keyboard commands
+ */
+chrome.commands.onCommand.addListener(async (command, tab) => {
+  try {
+    // Toggle first: sidePanel.open() must run before any await
+    if (command === COMMAND_TOGGLE_PANEL) {
+      toggleSidePanel(tab);
+    } else if (command === COMMAND_SIMPLIFY || command in COMMAND_LEVELS) {
+      await explainSelection(tab, COMMAND_LEVELS[command]);
+    } else if (command === COMMAND_NEXT_LEVEL) {
+      await explainAtNextLevel(tab);
+    } else if (command === COMMAND_COPY) {
+      await copyLastExplanation();
+    } else if (command === COMMAND_SAVE_FAVORITE) {
+      await saveLastExplanation();
+    } else {
+      logger.warn('Unknown command:', command);
+      return;
     }
+
+    trackEvent('keyboard_command_used', { command });
+
+    logger.info('Keyboard command handled:', command);
+  } catch (error) {
+    logger.error('Failed to handle keyboard command:', error);
   }
 });
 
+/**
+ * Explain the current selection (at the default level unless given)
+ */
+async function explainSelection(tab: chrome.tabs.Tab | undefined, complexity?: ComplexityLevel): Promise<void> {
+  if (!tab?.id) {
+    throw new Error('No active tab');
+  }
+
+  // Get current selection from content script (injected now if needed)
+  if (!(await ensureContentScript(tab.id))) {
+    logger.warn('Cannot read the selection on this page');
+    return;
+  }
+
+  const response: CurrentSelection | undefined = await chrome.tabs.sendMessage(tab.id, {
+    type: 'GET_CURRENT_SELECTION',
+  });
+
+  const selectedText = response?.text;
+  const mode = selectedText ? getSelectionMode(selectedText) : null;
+
+  if (!selectedText || !mode) {
+    logger.warn('No valid selection for keyboard shortcut');
+    return;
+  }
+
+  await openSidePanel(tab, selectedText, {
+    trigger: 'keyboard_shortcut',
+    mode,
+    complexity,
+    url: tab.url,
+    format: response?.format,
+    context: response?.context || undefined,
+  });
+}
+
+/**
+ * Re-explain the last request at the next complexity level
+ */
+async function explainAtNextLevel(tab: chrome.tabs.Tab | undefined): Promise<void> {
+  // Open before the first await: sidePanel.open() needs the user gesture
+  const openedSurface =
+    tab?.id && preferredSurface === 'side_panel' ? openSidePanelInCurrentWindow() : undefined;
+
+  const { [LAST_EXPLANATION_KEY]: last } = await chrome.storage.session.get(LAST_EXPLANATION_KEY);
+
+  if (!last?.text) {
+    logger.warn('No previous explanation to re-explain');
+    return;
+  }
+
+  const current: ComplexityLevel = last.complexity || (await policyService.getDefaultComplexity());
+  const index = CONTEXT_MENU_LEVELS.findIndex(({ level }) => level === current);
+  const next = CONTEXT_MENU_LEVELS[(index + 1) % CONTEXT_MENU_LEVELS.length].level;
+
+  const target = tab?.id === last.tabId ? tab : await chrome.tabs.get(last.tabId).catch(() => tab);
+
+  if (!target?.id) {
+    throw new Error('No tab to explain in');
+  }
+
+  await openSidePanel(target, last.text, {
+    trigger: 'keyboard_shortcut',
+    source: last.source,
+    mode: last.mode,
+    complexity: next,
+    url: last.url,
+    // The panel opened above only serves a target in the same window
+    openedSurface: target.windowId === tab?.windowId ? openedSurface : undefined,
+  });
+}
+
+/**
+ * Open the side panel, or close it if it is already showing in this window
+ */
+function toggleSidePanel(tab: chrome.tabs.Tab | undefined): void {
+  if (!tab?.id) {
+    throw new Error('No active tab');
+  }
+
+  if (panelTracker.isOpen(tab.windowId) && panelTracker.close(tab.windowId)) {
+    return;
+  }
+
+  bindSidePanelToTab(tab as chrome.tabs.Tab & { id: number });
+  chrome.sidePanel.open({ tabId: tab.id }).catch((error) => {
+    logger.warn('Failed to open side panel from command:', error);
+  });
+}
+
+/**
+ * Copy the most recent finished explanation
+ */
+async function copyLastExplanation(): Promise<void> {
+  const last = await streamManager.getLastCompleted();
+
+  if (!last?.text) {
+    await notificationCenter.show({ kind: 'general', type: 'info', message: 'No explanation to copy yet.' });
+    return;
+  }
+
+  await offscreenManager.run({ type: 'COPY_TEXT', text: last.text });
+  await notificationCenter.show({ kind: 'general', type: 'success', message: 'Explanation copied.' });
+}
+
+/**
+ * Save the most recent finished explanation to favorites
+ */
+async function saveLastExplanation(): Promise<void> {
+  const last = await streamManager.getLastCompleted();
+
+  if (!last?.text) {
+    await notificationCenter.show({ kind: 'general', type: 'info', message: 'No explanation to save yet.' });
+    return;
+  }
+
+  const { [LAST_EXPLANATION_KEY]: request } = await chrome.storage.session.get(LAST_EXPLANATION_KEY);
+
+  await addFavorite({
+    question: last.question,
+    answer: last.text,
+    complexity: last.complexity,
+    url: request?.text === last.question ? request.url : undefined,
+  });
+
+  await notificationCenter.show({ kind: 'general', type: 'success', message: 'Saved to favorites.' });
+}
+
+/**
+ * Omnibox: "stupify <question>" in the address bar
+ */
+chrome.omnibox.setDefaultSuggestion({
+  description: 'Ask Stupify: <match>%s</match>',
+});
+
+/**
+ * Suggest previously explained questions as the user types
+ */
+chrome.omnibox.onInputChanged.addListener((text, suggest) => {
+  const query = text.trim().toLowerCase();
+
+  if (query.length < MIN_OMNIBOX_QUERY_LENGTH) {
+    suggest([]);
+    return;
+  }
+
+  offlineStorage
+    .getAllExplanations()
+    .then((explanations) => {
+      const suggestions = explanations
+        .filter((item) => item.question.toLowerCase().includes(query))
+        .sort((a, b) => b.cached_at - a.cached_at)
+        .slice(0, MAX_OMNIBOX_SUGGESTIONS)
+        .map((item) => ({
+          content: item.question,
+          description: `${escapeOmniboxText(item.question)} <dim>- ${COMPLEXITY_LABELS[item.complexity_level]}</dim>`,
+        }));
+
+      suggest(suggestions);
+    })
+    .catch((error) => {
+      logger.debug('Failed to load omnibox suggestions:', error);
+      suggest([]);
+    });
+});
+
+/**
+ * Answer the typed question where the disposition says: the side panel of
+ * this window, or a panel page in a new tab (alt+enter / middle click)
+ */
+chrome.omnibox.onInputEntered.addListener((text, disposition) => {
+  const question = text.trim();
+  if (!question) return;
+
+  // Open before the first await: sidePanel.open() needs the user gesture
+  const openedSurface =
+    disposition === 'currentTab' && preferredSurface === 'side_panel'
+      ? openSidePanelInCurrentWindow()
+      : undefined;
+
+  handleOmniboxQuestion(question, disposition, openedSurface)
+    .then(() => {
+      trackEvent('omnibox_used', {
+        text_length: question.length,
+        disposition,
+      });
+
+      logger.info('Omnibox question handled');
+    })
+    .catch((error) => {
+      logger.error('Failed to handle omnibox input:', error);
+    });
+});
+
+async function handleOmniboxQuestion(
+  question: string,
+  disposition: chrome.omnibox.OnInputEnteredDisposition,
+  openedSurface?: Promise<PanelSurface | null>
+): Promise<void> {
+  // The panel resolves the default level itself
+  const options = { trigger: 'omnibox', source: 'omnibox' } as const;
+
+  if (disposition === 'currentTab') {
+    await openSidePanel(await getActiveTab(), question, { ...options, openedSurface });
+    return;
+  }
+
+  const tab = await chrome.tabs.create({
+    url: chrome.runtime.getURL('sidepanel.html?surface=tab'),
+    active: disposition === 'newForegroundTab',
+  });
+
+  if (!tab.id) {
+    throw new Error('Failed to open a tab for the answer');
+  }
+
+  await openSidePanel(tab, question, {
+    ...options,
+    surface: 'tab',
+    openedSurface: Promise.resolve('tab'),
+  });
+}
+
+/**
+ * Open the side panel of the focused window without waiting on anything
+ * (resolves to null if Chrome refused)
+ */
+function openSidePanelInCurrentWindow(): Promise<PanelSurface | null> {
+  return chrome.sidePanel
+    .open({ windowId: chrome.windows.WINDOW_ID_CURRENT })
+    .then(() => 'side_panel' as const)
+    .catch((error) => {
+      logger.warn('Failed to open side panel, falling back:', error);
+      return null;
+    });
+}
+
+/**
+ * Escape text for omnibox descriptions (XML)
+ */
+function escapeOmniboxText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
 /**
  * Open side panel with selected text
  */
-async function openSidePanel(tabId: number, selectedText: string): Promise<void> {
-  logger.info('Opening side panel for tab:', tabId);
+async function openSidePanel(
+  tab: chrome.tabs.Tab,
+  selectedText: string,
+  options: {
+    trigger: ExplanationTrigger;
+    source?: ExplanationSource;
+    // Definition card or full explanation (unset: explain); only selections are defined
+    mode?: SelectionMode;
+    complexity?: ComplexityLevel;
+    url?: string;
+    surface?: PanelSurface;
+    // 'markdown' when the page kept the selection's tables, lists and code
+    format?: SelectionFormat;
+    // Page context around the selection (may still be on its way from the page)
+    context?: SelectionContext | Promise<SelectionContext | null>;
+    // The page's own capture of the selection; its text, format and context
+    // replace the ones above once it arrives (null: keep them)
+    selection?: Promise<CurrentSelection | null>;
+    // Surface the caller already opened before its first await (null if that failed)
+    openedSurface?: Promise<PanelSurface | null>;
+  }
+): Promise<void> {
+  if (!tab.id) {
+    logger.error('❌ Cannot open side panel without a tab');
+    return;
+  }
+
+  const requestedSurface = options.surface || preferredSurface;
+  const mode: SelectionMode = options.mode || 'explain';
+
+  if (isUrlBlocked(tab.url, managedPolicy.blockedDomains)) {
+    logger.warn('Stupify is blocked on this site by your organization');
+    notificationCenter.show({
+      kind: 'general',
+      type: 'warning',
+      message: 'Stupify is turned off on this site by your organization.',
+    }).catch(() => {});
+    return;
+  }
+
+  logger.info('Opening side panel for tab:', tab.id);
+
+  // Collapse the same action arriving through several paths
+  const claim = triggerDeduplicator.claim(tab.id, selectedText, options.trigger, {
+    complexity: options.complexity,
+    source: options.source,
+  });
+
+  if (!claim.accepted) {
+    logger.debug('Duplicate trigger ignored:', options.trigger, 'won by', claim.winner);
+
+    trackEvent('explanation_trigger_deduped', {
+      winner: claim.winner,
+      duplicate: options.trigger,
+      elapsed_ms: claim.elapsedMs,
+    });
+
+    // Still open the panel: the duplicate may be the path that holds the user gesture
+    if (requestedSurface === 'side_panel') {
+      bindSidePanelToTab(tab as chrome.tabs.Tab & { id: number });
+      chrome.sidePanel.open({ tabId: tab.id }).catch(() => {});
+    }
+    return;
+  }
 
   try {
-    // Store data first
-    chrome.storage.local.set({
-      pendingExplanation: {
+    // Remember for "re-explain at next level" (don't await: keep the user gesture)
+    chrome.storage.session.set({
+      [LAST_EXPLANATION_KEY]: {
         text: selectedText,
-        timestamp: Date.now(),
+        source: options.source,
+        mode,
+        complexity: options.complexity,
+        url: options.url,
+        tabId: tab.id,
       },
     }).catch((error) => {
+      logger.debug('Failed to remember last explanation:', error);
+    });
+
+    // Inline card streams on the page itself (no gesture needed, nothing to queue)
+    if (requestedSurface === 'inline') {
+      const complexity = options.complexity || (await policyService.getDefaultComplexity());
+      const selection = await options.selection;
+      const text = selection?.text || selectedText;
+      const format = selection ? selection.format : options.format;
+
+      if (await showInlineCard(tab as chrome.tabs.Tab & { id: number }, text, complexity, mode, format)) {
+        trackEvent('side_panel_opened', {
+          text_length: selectedText.length,
+          trigger: options.trigger,
+          surface: 'inline',
+          preferred_surface: preferredSurface,
+        });
+        return;
+      }
+    }
+
+    // Queue for this tab's panel (don't await: keep the user gesture for open())
+    const { id: tabId, windowId } = tab;
+    Promise.all([options.context, options.selection]).then(([context, selection]) =>
+      enqueuePendingExplanation({
+        text: selection?.text || selectedText,
+        trigger: options.trigger,
+        source: options.source || 'selection',
+        mode,
+        complexity: options.complexity,
+        url: options.url,
+        format: selection ? selection.format : options.format,
+        context: selection?.context || context || undefined,
+        tabId,
+        windowId,
+      })
+    ).catch((error) => {
       logger.error('Failed to store pending explanation:', error);
     });
 
-    // Open side panel
-    await chrome.sidePanel.open({ tabId });
+    // Open side panel (or a fallback surface)
+    const surface =
+      (await options.openedSurface) ||
+      (await showPanel(tab as chrome.tabs.Tab & { id: number }, requestedSurface));
     
-    logger.info('✅ Side panel opened successfully');
+    logger.info('✅ Panel opened successfully:', surface);
     
     trackEvent('side_panel_opened', {
       text_length: selectedText.length,
+      trigger: options.trigger,
+      surface,
+      preferred_surface: preferredSurface,
     });
   } catch (error) {
     logger.error('❌ Failed to open side panel:', error);
-    logger.warn('User gesture may have been lost. User should try again.');
   }
 }
 
 /**
- * Handle messages from content scripts and UI
+ * Show the explanation surface, falling back side panel → floating panel → popup window
+ * (the inline card needs text, so without it "inline" opens the side panel)
  */
-chrome.runtime.onMessage.addListener((message: ChromeMessage, sender, sendResponse) => {
-  logger.debug('Message received:', message.type);
+async function showPanel(
+  tab: chrome.tabs.Tab & { id: number },
+  surface: PanelSurface
+): Promise<PanelSurface> {
+  if (surface === 'side_panel' || surface === 'inline') {
+    try {
+      bindSidePanelToTab(tab);
+      await chrome.sidePanel.open({ tabId: tab.id });
+      return 'side_panel';
+    } catch (error) {
+      logger.warn('Side panel failed to open (user gesture may have been lost), falling back:', error);
+    }
+  }
 
-  switch (message.type) {
-    case 'OPEN_SIDE_PANEL':
-      handleOpenSidePanel(message.payload, sender.tab?.id)
-        .then(() => sendResponse({ success: true }))
-        .catch((error) => {
-          logger.error('Failed to open side panel:', error);
-          sendResponse({ success: false, error: error.message });
-        });
-      return true;
+  if (surface !== 'popup' && (await showFloatingPanel(tab))) {
+    return 'floating';
+  }
 
-    case 'TRACK_EVENT':
-      trackEvent(message.payload.event, message.payload.properties);
-      sendResponse({ success: true });
+  await chrome.windows.create({
+    url: getPanelUrl(tab, 'popup'),
+    type: 'popup',
+    width: PANEL_WINDOW_WIDTH,
+    height: PANEL_WINDOW_HEIGHT,
+    focused: true,
+  });
+  return 'popup';
+}
+
+/**
+ * Ask the content script to show the in-page floating panel
+ */
+async function showFloatingPanel(tab: chrome.tabs.Tab & { id: number }): Promise<boolean> {
+  try {
+    if (!(await ensureContentScript(tab.id))) {
       return false;
+    }
 
-    case 'GET_AUTH_STATE':
-      getAuthState()
-        .then((auth) => sendResponse({ auth }))
-        .catch((error) => {
-          logger.error('Failed to get auth state:', error);
-          sendResponse({ auth: null });
-        });
-      return true;
-
-    case 'SET_AUTH_STATE':
-      setAuthState(message.payload)
-        .then(() => sendResponse({ success: true }))
-        .catch((error) => {
-          logger.error('Failed to set auth state:', error);
-          sendResponse({ success: false, error: error.message });
-        });
-      return true;
-
-    case 'CLEAR_AUTH_STATE':
-      clearAuthState()
-        .then(() => sendResponse({ success: true }))
-        .catch((error) => {
-          logger.error('Failed to clear auth state:', error);
-          sendResponse({ success: false, error: error.message });
-        });
-      return true;
+    // The panel asks for its own token (ISSUE_PANEL_TOKEN)
+    const response = await chrome.tabs.sendMessage(tab.id, { type: 'SHOW_FLOATING_PANEL' });
+    return !!response?.success;
+  } catch {
+    // No content script on this page
+    return false;
+  }
+}
 
-    default:
-      logger.warn('Unknown message type:', message.type);
-      sendResponse({ success: false, error: 'Unknown message type' });
+/**
+ * Ask the content script to show the inline explanation card
+ */
+async function showInlineCard(
+  tab: chrome.tabs.Tab & { id: number },
+  text: string,
+  complexity: ComplexityLevel,
+  mode: SelectionMode,
+  format?: SelectionFormat
+): Promise<boolean> {
+  try {
+    if (!(await ensureContentScript(tab.id))) {
       return false;
+    }
+
+    const response = await chrome.tabs.sendMessage(
+      tab.id,
+      { type: 'SHOW_INLINE_CARD', payload: { text, complexity, mode, format } },
+      { frameId: 0 }
+    );
+    return !!response?.success;
+  } catch {
+    // No content script on this page
+    return false;
+  }
+}
+
+/**
+ * Give a tab its own side panel document (its own session)
+ * Not awaited by callers: sidePanel.open() must follow in the same gesture
+ */
+function bindSidePanelToTab(tab: chrome.tabs.Tab & { id: number }): void {
+  chrome.sidePanel
+    .setOptions({
+      tabId: tab.id,
+      path: getPanelPath(tab, 'side_panel'),
+      enabled: true,
+    })
+    .catch((error) => {
+      logger.debug('Failed to bind side panel to tab:', error);
+    });
+}
+
+/**
+ * Side panel page bound to a tab
+ * (a tab's own side panel knows its tab; a popup window gets a token for it)
+ */
+function getPanelPath(tab: chrome.tabs.Tab & { id: number }, surface: PanelSurface): string {
+  const params = new URLSearchParams({ surface });
+  if (surface !== 'side_panel') {
+    params.set('token', panelTokens.issue(tab.id, tab.windowId));
+  }
+  return `sidepanel.html?${params.toString()}`;
+}
+
+function getPanelUrl(tab: chrome.tabs.Tab & { id: number }, surface: PanelSurface): string {
+  return chrome.runtime.getURL(getPanelPath(tab, surface));
+}
+
+/**
+ * Message routes for content scripts and UI
+ */
+const messageRoutes: RouteTable = {
+  OPEN_SIDE_PANEL: {
+    allowFrom: ['content_script', 'extension_page'],
+    validate: (message) => {
+      if (!isPlainObject(message.payload) || !isNonEmptyString(message.payload.text)) {
+        return 'OPEN_SIDE_PANEL requires payload.text';
+      }
+      const { complexity, surface } = message.payload;
+      if (complexity !== undefined && !CONTEXT_MENU_LEVELS.some(({ level }) => level === complexity)) {
+        return `Unknown complexity: ${complexity}`;
+      }
+      if (surface !== undefined && !PANEL_SURFACES.includes(surface)) {
+        return `Unknown surface: ${surface}`;
+      }
+      if (message.payload.mode !== undefined && !SELECTION_MODES.includes(message.payload.mode)) {
+        return `Unknown mode: ${message.payload.mode}`;
+      }
+      if (message.payload.format !== undefined && !SELECTION_FORMATS.includes(message.payload.format)) {
+        return `Unknown format: ${message.payload.format}`;
+      }
+      if (message.payload.context !== undefined && !isPlainObject(message.payload.context)) {
+        return 'OPEN_SIDE_PANEL context must be an object';
+      }
+      return null;
+    },
+    handle: (message, sender) => handleOpenSidePanel(message.payload, sender.tab),
+  },
+
+  TRACK_EVENT: {
+    allowFrom: ['content_script', 'extension_page'],
+    validate: (message) => validateEventPayload(message.payload),
+    handle: (message, sender) =>
+      analyticsPipeline.track(message.payload.event, message.payload.properties, {
+        source: getSenderKind(sender) || undefined,
+        timestamp: message.payload.timestamp,
+      }),
+  },
+
+  SEND_ANALYTICS: {
+    allowFrom: ['extension_page'],
+    validate: (message) => validateEventPayload(message.payload),
+    handle: (message) =>
+      analyticsPipeline.track(message.payload.event, message.payload.properties, {
+        source: 'extension_page',
+      }),
+  },
+
+  GET_AUTH_STATE: {
+    allowFrom: ['extension_page'],
+    handle: () => getAuthState(),
+  },
+
+  GET_AUTH: {
+    allowFrom: ['extension_page'],
+    handle: () => getAuthState(),
+  },
+
+  SET_AUTH_STATE: {
+    allowFrom: ['extension_page'],
+    validate: (message) =>
+      isPlainObject(message.payload) && isNonEmptyString(message.payload.accessToken)
+        ? null
+        : 'SET_AUTH_STATE requires payload.accessToken',
+    handle: (message) => setAuthState(message.payload),
+  },
+
+  CLEAR_AUTH_STATE: {
+    allowFrom: ['extension_page'],
+    handle: () => clearAuthState(),
+  },
+
+  CHECK_USAGE: {
+    allowFrom: ['content_script', 'extension_page'],
+    handle: () => getDailyUsage(),
+  },
+
+  REFRESH_TOKEN: {
+    allowFrom: ['extension_page'],
+    handle: () => apiClient.refreshSession(),
+  },
+
+  AUTH_STATE_CHANGED: {
+    allowFrom: ['extension_page'],
+    handle: (message) => {
+      logger.info('Auth state changed:', {
+        isAuthenticated: message.payload?.isAuthenticated ?? null,
+      });
+    },
+  },
+
+  AUTH_ERROR: {
+    allowFrom: ['extension_page'],
+    handle: () => {
+      logger.warn('Auth error reported by UI');
+    },
+  },
+
+  SHOW_NOTIFICATION: {
+    allowFrom: ['content_script', 'extension_page'],
+    validate: (message) => {
+      if (!isPlainObject(message.payload) || !isNonEmptyString(message.payload.message)) {
+        return 'SHOW_NOTIFICATION requires payload.message';
+      }
+      if (!isNotificationKind(message.payload.kind)) {
+        return `Unknown notification kind: ${message.payload.kind}`;
+      }
+      const { action } = message.payload;
+      if (action !== undefined && (!isPlainObject(action) || !notificationCenter.hasAction(action.id))) {
+        return 'SHOW_NOTIFICATION action must have a known id';
+      }
+      return null;
+    },
+    handle: (message) => notificationCenter.show(message.payload),
+  },
+
+  NOTIFICATION_ACTION: {
+    allowFrom: ['content_script', 'extension_page'],
+    validate: (message) =>
+      isPlainObject(message.payload) && notificationCenter.hasAction(message.payload.actionId)
+        ? null
+        : 'NOTIFICATION_ACTION requires a known payload.actionId',
+    handle: (message, sender) => notificationCenter.dispatch(message.payload.actionId, sender.tab?.id),
+  },
+
+  RUN_SYNC: {
+    allowFrom: ['extension_page'],
+    handle: () => offscreenManager.run({ type: 'RUN_SYNC' }),
+  },
+
+  SYNC_STATUS_CHANGED: {
+    allowFrom: ['extension_page'],
+    authorize: (sender) => offscreenManager.isOffscreenSender(sender),
+    validate: (message) =>
+      isPlainObject(message.payload) && isNonEmptyString(message.payload.status)
+        ? null
+        : 'SYNC_STATUS_CHANGED requires payload.status',
+    handle: (message) => chrome.storage.session.set({ [STORAGE_KEYS.SYNC_STATUS]: message.payload }),
+  },
+
+  WEB_AUTH_COMPLETE: {
+    allowFrom: ['content_script', 'extension_page'],
+    // Only the web app itself may report a completed web login
+    authorize: (sender) =>
+      getSenderKind(sender) === 'extension_page' || sender.origin === URLS.WEB_APP,
+    handle: () => {
+      logger.info('Web auth completed');
+    },
+  },
+
+  EXTERNAL_API_REQUEST: {
+    allowFrom: ['content_script'],
+    validate: (message) => (isPlainObject(message.payload) ? null : 'EXTERNAL_API_REQUEST requires a payload'),
+    handle: (message, sender) => {
+      const caller = externalApi.getCaller(sender);
+      if (!caller) {
+        return { success: false, error: { code: 'FORBIDDEN', message: 'Unknown caller' } };
+      }
+      return externalApi.handle(message.payload, caller, sender.tab);
+    },
+  },
+
+  ISSUE_PANEL_TOKEN: {
+    allowFrom: ['content_script'],
+    handle: (_message, sender) => {
+      if (!sender.tab?.id) {
+        throw new Error('Panel tokens are only issued to tabs');
+      }
+      return panelTokens.issue(sender.tab.id, sender.tab.windowId);
+    },
+  },
+
+  REDEEM_PANEL_TOKEN: {
+    allowFrom: ['extension_page'],
+    validate: (message) =>
+      isPlainObject(message.payload) && isNonEmptyString(message.payload.token)
+        ? null
+        : 'REDEEM_PANEL_TOKEN requires payload.token',
+    handle: (message) => panelTokens.redeem(message.payload.token),
+  },
+
+  GET_USAGE: {
+    allowFrom: ['content_script', 'extension_page'],
+    handle: () => usageMonitor.getState(),
+  },
+
+  GET_CONNECTIVITY: {
+    allowFrom: ['extension_page'],
+    handle: () => connectivityMonitor.getStatus(),
+  },
+
+  REPORT_REQUEST_OUTCOME: {
+    allowFrom: ['extension_page'],
+    validate: (message) =>
+      isPlainObject(message.payload) && typeof message.payload.ok === 'boolean'
+        ? null
+        : 'REPORT_REQUEST_OUTCOME requires payload.ok',
+    handle: (message) => connectivityMonitor.recordOutcome(message.payload),
+  },
+
+  DEFINE_TERM: {
+    allowFrom: ['content_script', 'extension_page'],
+    validate: (message) => {
+      if (!isPlainObject(message.payload) || !isNonEmptyString(message.payload.term)) {
+        return 'DEFINE_TERM requires payload.term';
+      }
+      const { complexity } = message.payload;
+      if (!CONTEXT_MENU_LEVELS.some(({ level }) => level === complexity)) {
+        return `Unknown complexity: ${complexity}`;
+      }
+      return null;
+    },
+    handle: (message) => defineTerm(message.payload.term, message.payload.complexity),
+  },
+
+  EXTERNAL_ACCESS_DECISION: {
+    allowFrom: ['extension_page'],
+    authorize: (sender) => externalApi.isPromptSender(sender),
+    validate: (message) => {
+      if (
+        !isPlainObject(message.payload) ||
+        !isNonEmptyString(message.payload.promptId) ||
+        !isNonEmptyString(message.payload.caller) ||
+        typeof message.payload.allowed !== 'boolean'
+      ) {
+        return 'EXTERNAL_ACCESS_DECISION requires promptId, caller and allowed';
+      }
+      return null;
+    },
+    handle: (message) =>
+      externalApi.resolveDecision(message.payload.promptId, message.payload.caller, message.payload.allowed),
+  },
+};
+
+/**
+ * Validate TRACK_EVENT / SEND_ANALYTICS payloads
+ */
+function validateEventPayload(payload: unknown): string | null {
+  if (!isPlainObject(payload) || !isNonEmptyString(payload.event)) {
+    return 'Event payload requires an event name';
   }
+
+  if (payload.properties !== undefined && !isPlainObject(payload.properties)) {
+    return 'Event properties must be an object';
+  }
+
+  if (payload.timestamp !== undefined && typeof payload.timestamp !== 'number') {
+    return 'Event timestamp must be a number';
+  }
+
+  return null;
+}
+
+/**
+ * Handle messages from content scripts and UI
+ */
+chrome.runtime.onMessage.addListener(createMessageRouter(messageRoutes));
+
+/**
+ * Notification actions
+ */
+notificationCenter.init();
+
+notificationCenter.registerAction('open_pricing', async () => {
+  await chrome.tabs.create({ url: `${URLS.UPGRADE}?ref=extension` });
+});
+
+notificationCenter.registerAction('retry_sync', async () => {
+  await offscreenManager.run({ type: 'RUN_SYNC' });
+});
+
+notificationCenter.registerAction('open_panel', async ({ tabId }) => {
+  const tab = tabId !== undefined
+    ? await chrome.tabs.get(tabId)
+    : (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+
+  if (!tab?.id) {
+    throw new Error('No active tab');
+  }
+
+  bindSidePanelToTab(tab as chrome.tabs.Tab & { id: number });
+  await chrome.sidePanel.open({ tabId: tab.id });
+});
+
+/**
+ * External API for partner pages and other extensions
+ * (no user gesture, so the side panel usually falls back to another surface)
+ */
+externalApi.init({
+  explain: async (tab, text, level) => {
+    const target = tab?.id ? tab : await getActiveTab();
+
+    await openSidePanel(target, text, {
+      trigger: 'external_api',
+      source: 'external',
+      complexity: level || (await policyService.getDefaultComplexity()),
+      url: target.url,
+    });
+
+    trackEvent('external_api_explain', {
+      text_length: text.length,
+      caller_kind: tab ? 'page' : 'extension',
+    });
+  },
+  openPanel: async (tab) => {
+    const target = tab?.id ? tab : await getActiveTab();
+    await showPanel(target as chrome.tabs.Tab & { id: number }, preferredSurface);
+  },
+});
+
+chrome.runtime.onMessageExternal.addListener(externalApi.handleExternalMessage);
+
+async function getActiveTab(): Promise<chrome.tabs.Tab> {
+  const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+
+  if (!tab?.id) {
+    throw new Error('No active tab');
+  }
+  return tab;
+}
+
+/**
+ * Tokens handed to framed and popup panels before the worker restarted
+ */
+panelTokens.init();
+
+/**
+ * Daily usage (answers and definitions are counted here when they finish)
+ */
+usageMonitor.init();
+
+/**
+ * Connectivity monitor (the worker's own API calls report to it directly)
+ */
+connectivityMonitor.init();
+connectivity.setLocalReporter((outcome) => connectivityMonitor.recordOutcome(outcome));
+
+connectivityMonitor.subscribe((status, previous) => {
+  const wasOffline = previous === 'offline' || previous === 'api_down';
+
+  if (status.state === 'online' && wasOffline) {
+    // Replay whatever queued up while we were away
+    runScheduledSync().catch((error) => {
+      logger.debug('Sync after reconnect failed:', error);
+    });
+  } else if (status.state === 'offline' && !wasOffline) {
+    notificationCenter.show({
+      kind: 'offline',
+      type: 'info',
+      message: "You're offline. Showing cached results.",
+    }).catch(() => {});
+  }
+});
+
+/**
+ * Handle explanation stream and side panel ports from views
+ */
+chrome.runtime.onConnect.addListener((port) => {
+  streamManager.handleConnect(port);
+  panelTracker.handleConnect(port);
+});
+
+/**
+ * Count finished explanations for the local stats
+ */
+streamManager.onComplete(() => {
+  recordExplanationCompleted();
 });
 
 /**
  * Handle open side panel request
  */
-async function handleOpenSidePanel(payload: { text: string; trigger: string }, tabId?: number): Promise<void> {
-  if (!tabId) {
+async function handleOpenSidePanel(payload: OpenSidePanelMessage['payload'], tab?: chrome.tabs.Tab): Promise<void> {
+  if (!tab?.id) {
     throw new Error('No tab ID provided');
   }
 
-  await openSidePanel(tabId, payload.text);
+  await openSidePanel(tab, payload.text, {
+    trigger: payload.trigger,
+    // Content scripts send page selections
+    mode: payload.mode || getSelectionMode(payload.text) || 'explain',
+    complexity: payload.complexity,
+    url: tab.url,
+    surface: payload.surface,
+    format: payload.format,
+    context: payload.context,
+  });
+}
+
+/**
+ * Definition card for a short selection; new lookups count against the limit
+ */
+async function defineTerm(term: string, complexity: ComplexityLevel): Promise<DefineTermResult> {
+  if (!(await usageMonitor.canAsk())) {
+    throw new Error(DAILY_LIMIT_MESSAGE);
+  }
+
+  const result = await definitionService.define(term, complexity);
+
+  if (!result.cached) {
+    await usageMonitor.recordQuestion(result.quotaCost);
+  }
+
+  return result;
 }
 
 /**
  * Get authentication state
  */
-async function getAuthState(): Promise<any> {
+async function getAuthState(): Promise<StoredAuth | null> {
   const { auth } = await chrome.storage.local.get('auth');
   return auth || null;
 }
@@ -403,7 +1581,7 @@ async function getAuthState(): Promise<any> {
 /**
  * Set authentication state
  */
-async function setAuthState(auth: any): Promise<void> {
+async function setAuthState(auth: StoredAuth): Promise<void> {
   await chrome.storage.local.set({ auth });
   logger.info('Auth state updated');
 }
@@ -417,76 +1595,21 @@ async function clearAuthState(): Promise<void> {
 }
 
 /**
- * Track analytics event
+ * Get today's cached usage
  */
-async function trackEvent(event: string, properties?: Record<string, any>): Promise<void> {
-  try {
-    // Get or create anonymous user ID
-    let { analyticsId } = await chrome.storage.local.get('analyticsId');
-    
-    if (!analyticsId) {
-      analyticsId = `ext_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-      await chrome.storage.local.set({ analyticsId });
-    }
-
-    // Add event to queue
-    const { eventQueue = [] } = await chrome.storage.local.get('eventQueue');
-    
-    eventQueue.push({
-      event,
-      properties: {
-        ...properties,
-        timestamp: Date.now(),
-        user_id: analyticsId,
-        extension_version: chrome.runtime.getManifest().version,
-      },
-    });
-
-    // Keep queue size reasonable (max 100 events)
-    if (eventQueue.length > 100) {
-      eventQueue.shift();
-    }
-
-    await chrome.storage.local.set({ eventQueue });
-
-    logger.debug('Event tracked:', event);
-
-    // Try to flush queue (non-blocking)
-    flushEventQueue().catch((error) => {
-      logger.debug('Failed to flush event queue:', error);
-    });
-  } catch (error) {
-    logger.error('Failed to track event:', error);
-  }
+async function getDailyUsage(): Promise<StoredDailyUsage | null> {
+  const { dailyUsage } = await chrome.storage.local.get('dailyUsage');
+  return dailyUsage || null;
 }
 
 /**
- * Flush event queue to analytics API
+ * Track analytics event
  */
-async function flushEventQueue(): Promise<void> {
+async function trackEvent(event: string, properties?: Record<string, any>): Promise<void> {
   try {
-    const { eventQueue = [], auth } = await chrome.storage.local.get(['eventQueue', 'auth']);
-
-    if (eventQueue.length === 0) return;
-
-    // Send events to API
-    const response = await fetch('https://stupify.app/api/analytics/events', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(auth?.accessToken && { Authorization: `Bearer ${auth.accessToken}` }),
-      },
-      body: JSON.stringify({ events: eventQueue }),
-    });
-
-    if (response.ok) {
-      // Clear queue on success
-      await chrome.storage.local.set({ eventQueue: [] });
-      logger.debug('Event queue flushed');
-    }
+    await analyticsPipeline.track(event, properties);
   } catch (error) {
-    // Silently fail - events will be retried later
-    logger.debug('Failed to flush event queue:', error);
+    logger.error('Failed to track event:', error);
   }
 }
 
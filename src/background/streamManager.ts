@@ -0,0 +1,489 @@
+/**
+ * Explanation Stream Manager
+ *
+ * Owns /api/chat streams in the background so closing a view does not
+ * kill a request that already spent quota
+ * - Fans tokens out to every attached port (side panel, popup)
+ * - Buffers finished answers so reconnecting views replay the full text
+ * - Any attached view can cancel a stream
+ * - Serves cached answers, and caches and counts new ones when they finish
+ *   (even if every view closed in the meantime)
+ */
+
+import {
+  EXPLANATION_PORT_NAME,
+  ExplanationPortRequest,
+  SidePanelMessage,
+  StartExplanationRequest,
+} from '@/shared/sidepanel';
+import { generateId, hashString, logger } from '@/shared/utils';
+import type { SelectionContext } from '@/shared/types';
+import { streamWithRetry, createStreamCanceller } from '@/services/streaming';
+import { cacheService } from '@/services/cache';
+import { lifecycle } from '@/services/memoryCleanup';
+import { getSenderKind, isNonEmptyString, isPlainObject } from './router';
+import { DAILY_LIMIT_MESSAGE, usageMonitor } from './usageMonitor';
+
+const OWNER = 'streamManager';
+
+// Finished streams kept for replay
+const MAX_FINISHED_STREAMS = 5;
+const FINISHED_STREAM_TTL = 30 * 60 * 1000; // 30 minutes
+
+// chrome.storage.session key for finished streams (survives worker restarts)
+const FINISHED_STREAMS_KEY = 'finishedStreams';
+
+// The worker sleeps after 30s without events; an open port counts as one,
+// so streams nobody is watching ping an extension API more often than that
+const KEEP_ALIVE_INTERVAL = 20 * 1000; // 20 seconds
+
+type StreamStatus = 'streaming' | 'done' | 'error' | 'cancelled';
+
+interface StreamRecord {
+  id: string;
+  question: string;
+  complexity: StartExplanationRequest['payload']['complexity'];
+  text: string;
+  status: StreamStatus;
+  // Answered from the cache (no quota used)
+  cached?: boolean;
+  // Hash of the page context sent with the question (cache scope)
+  contextKey?: string;
+  error?: string;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+interface ActiveStream extends StreamRecord {
+  ports: Set<chrome.runtime.Port>;
+  cancel: () => void;
+}
+
+type StreamListener = (record: StreamRecord) => void;
+
+/**
+ * Explanation Stream Manager
+ */
+class StreamManager {
+  private streams: Map<string, ActiveStream> = new Map();
+  private latestStreamId: string | null = null;
+  private completionListeners: Set<StreamListener> = new Set();
+  private keepAliveTimer: (() => void) | null = null;
+
+  constructor() {
+    // The keep-alive timer went with the canceled suspend; streams may still run
+    lifecycle.onRestart(OWNER, () => {
+      this.keepAliveTimer = null;
+      this.scheduleKeepAlive();
+    });
+  }
+
+  /**
+   * Handle a new port connection from a view
+   */
+  handleConnect(port: chrome.runtime.Port): void {
+    if (port.name !== EXPLANATION_PORT_NAME) return;
+
+    if (!port.sender || !getSenderKind(port.sender)) {
+      logger.warn('Rejected explanation port from unknown sender');
+      port.disconnect();
+      return;
+    }
+
+    port.onMessage.addListener((message: unknown) => {
+      this.handlePortMessage(port, message).catch((error) => {
+        logger.error('Failed to handle explanation port message:', error);
+      });
+    });
+
+    port.onDisconnect.addListener(() => {
+      this.streams.forEach((stream) => stream.ports.delete(port));
+      this.scheduleKeepAlive();
+    });
+  }
+
+  /**
+   * Subscribe to finished streams
+   */
+  onComplete(listener: StreamListener): () => void {
+    this.completionListeners.add(listener);
+    return () => {
+      this.completionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Most recent successfully finished stream (for copy/save commands)
+   */
+  async getLastCompleted(): Promise<StreamRecord | null> {
+    const result = await chrome.storage.session.get(FINISHED_STREAMS_KEY);
+    const finished: StreamRecord[] = result[FINISHED_STREAMS_KEY] || [];
+
+    return (
+      finished.find(
+        (item) => item.status === 'done' && Date.now() - (item.finishedAt || 0) <= FINISHED_STREAM_TTL
+      ) || null
+    );
+  }
+
+  /**
+   * Route a request received on a port
+   */
+  private async handlePortMessage(port: chrome.runtime.Port, message: unknown): Promise<void> {
+    if (!isPlainObject(message) || !isPlainObject(message.payload)) {
+      logger.warn('Invalid explanation port message');
+      return;
+    }
+
+    const request = message as unknown as ExplanationPortRequest;
+
+    switch (request.type) {
+      case 'START_EXPLANATION':
+        if (!isNonEmptyString(request.payload.question)) {
+          logger.warn('START_EXPLANATION requires a question');
+          return;
+        }
+        this.start(request.payload, port);
+        break;
+
+      case 'ATTACH_EXPLANATION':
+        await this.attach(port, request.payload.streamId);
+        break;
+
+      case 'CANCEL_EXPLANATION':
+        this.cancel(request.payload.streamId);
+        break;
+
+      default:
+        logger.warn('Unknown explanation port message:', message.type);
+    }
+  }
+
+  /**
+   * Start a new stream and attach the requesting port
+   */
+  start(payload: StartExplanationRequest['payload'], port?: chrome.runtime.Port): string {
+    const canceller = createStreamCanceller();
+
+    const stream: ActiveStream = {
+      id: generateId(),
+      question: payload.question,
+      complexity: payload.complexity,
+      contextKey: getContextKey(payload.context),
+      text: '',
+      status: 'streaming',
+      createdAt: Date.now(),
+      ports: new Set(port ? [port] : []),
+      cancel: canceller.cancel,
+    };
+
+    this.streams.set(stream.id, stream);
+    this.latestStreamId = stream.id;
+    this.scheduleKeepAlive();
+
+    this.broadcast(stream, {
+      type: 'EXPLANATION_STARTED',
+      payload: { streamId: stream.id, question: stream.question, complexity: stream.complexity },
+    });
+
+    this.run(stream, payload, canceller.signal).catch((error) => {
+      if (stream.status === 'streaming') {
+        this.fail(stream, error);
+      }
+    });
+
+    logger.info('Explanation stream started:', stream.id);
+    return stream.id;
+  }
+
+  /**
+   * Answer from the cache, or stream from /api/chat while under the daily limit
+   */
+  private async run(
+    stream: ActiveStream,
+    payload: StartExplanationRequest['payload'],
+    signal: AbortSignal
+  ): Promise<void> {
+    const cached = await cacheService.get(payload.question, payload.complexity, stream.contextKey);
+
+    // Cancelled while the cache was read
+    if (stream.status !== 'streaming') return;
+
+    if (cached) {
+      logger.debug('Explanation served from cache:', stream.id);
+      stream.cached = true;
+      this.complete(stream, cached.answer);
+      return;
+    }
+
+    // Checked here for every view (the inline card can't count usage itself)
+    const allowed = await usageMonitor.canAsk();
+    if (stream.status !== 'streaming') return;
+
+    if (!allowed) {
+      this.fail(stream, new Error(DAILY_LIMIT_MESSAGE));
+      return;
+    }
+
+    await streamWithRetry(payload.question, payload.complexity, payload.history || [], {
+      signal,
+      context: isPlainObject(payload.context) ? payload.context : undefined,
+      format: payload.format === 'markdown' ? 'markdown' : 'text',
+      onToken: (token) => {
+        stream.text += token;
+        this.broadcast(stream, {
+          type: 'EXPLANATION_STREAM',
+          payload: { streamId: stream.id, chunk: token, done: false },
+        });
+      },
+      onComplete: (fullText) => this.complete(stream, fullText),
+      onError: (error) => this.fail(stream, error),
+    });
+  }
+
+  /**
+   * Send whatever views haven't seen yet, then mark the stream done
+   */
+  private complete(stream: ActiveStream, fullText: string): void {
+    if (stream.status !== 'streaming') return;
+
+    const unsent = fullText.startsWith(stream.text) ? fullText.slice(stream.text.length) : '';
+    if (unsent) {
+      this.broadcast(stream, {
+        type: 'EXPLANATION_STREAM',
+        payload: { streamId: stream.id, chunk: unsent, done: false },
+      });
+    }
+
+    stream.text = fullText;
+    this.finish(stream, 'done');
+    this.broadcast(stream, {
+      type: 'EXPLANATION_STREAM',
+      payload: { streamId: stream.id, chunk: '', done: true },
+    });
+  }
+
+  /**
+   * Attach a port to a stream and replay what has been buffered
+   */
+  async attach(port: chrome.runtime.Port, streamId?: string): Promise<void> {
+    const id = streamId || this.latestStreamId;
+    const active = id ? this.streams.get(id) : undefined;
+    const record: StreamRecord | null = active || (await this.findFinished(streamId));
+
+    if (!record) {
+      logger.debug('No explanation stream to attach to');
+      port.disconnect();
+      return;
+    }
+
+    active?.ports.add(port);
+    this.scheduleKeepAlive();
+
+    const post = (message: SidePanelMessage) => this.post(port, message);
+
+    post({
+      type: 'EXPLANATION_STARTED',
+      payload: { streamId: record.id, question: record.question, complexity: record.complexity },
+    });
+
+    if (record.text) {
+      post({
+        type: 'EXPLANATION_STREAM',
+        payload: { streamId: record.id, chunk: record.text, done: false, replayed: true },
+      });
+    }
+
+    if (record.status === 'done') {
+      post({
+        type: 'EXPLANATION_STREAM',
+        payload: { streamId: record.id, chunk: '', done: true, replayed: true },
+      });
+    } else if (record.status === 'error') {
+      post({
+        type: 'EXPLANATION_ERROR',
+        payload: { streamId: record.id, error: record.error || 'Failed to get explanation' },
+      });
+    } else if (record.status === 'cancelled') {
+      post({ type: 'EXPLANATION_CANCELLED', payload: { streamId: record.id } });
+    }
+  }
+
+  /**
+   * Cancel a running stream
+   */
+  cancel(streamId: string): void {
+    const stream = this.streams.get(streamId);
+    if (!stream || stream.status !== 'streaming') return;
+
+    stream.cancel();
+    this.finish(stream, 'cancelled');
+    this.broadcast(stream, { type: 'EXPLANATION_CANCELLED', payload: { streamId } });
+
+    logger.info('Explanation stream cancelled:', streamId);
+  }
+
+  /**
+   * Mark a stream failed and notify attached views
+   */
+  private fail(stream: ActiveStream, error: Error | undefined): void {
+    const message = error?.message || 'Failed to get explanation';
+
+    stream.error = message;
+    this.finish(stream, 'error');
+    this.broadcast(stream, {
+      type: 'EXPLANATION_ERROR',
+      payload: { streamId: stream.id, error: message },
+    });
+  }
+
+  /**
+   * Mark a stream finished and buffer it for replay
+   */
+  private finish(stream: ActiveStream, status: StreamStatus): void {
+    stream.status = status;
+    stream.finishedAt = Date.now();
+
+    const record = this.toRecord(stream);
+
+    this.saveFinished(record).catch((error) => {
+      logger.debug('Failed to buffer finished stream:', error);
+    });
+
+    if (status === 'done' && !record.cached) {
+      this.recordAnswer(record).catch((error) => {
+        logger.error('Failed to record finished explanation:', error);
+      });
+    }
+
+    if (status === 'done') {
+      this.completionListeners.forEach((listener) => {
+        try {
+          listener(record);
+        } catch (error) {
+          logger.error('Stream completion listener error:', error);
+        }
+      });
+    }
+
+    this.pruneStreams();
+  }
+
+  /**
+   * Cache a new answer and count it against the daily limit
+   */
+  private async recordAnswer(record: StreamRecord): Promise<void> {
+    await cacheService.add(record.question, record.text, record.complexity, record.contextKey);
+    await usageMonitor.recordQuestion();
+  }
+
+  /**
+   * Keep the worker awake while a stream runs with no view attached
+   */
+  private scheduleKeepAlive(): void {
+    if (this.keepAliveTimer || !this.hasDetachedStream()) return;
+
+    this.keepAliveTimer = lifecycle.setTimeout(OWNER, () => {
+      this.keepAliveTimer = null;
+      if (!this.hasDetachedStream()) return;
+
+      // Any extension API call resets the idle timer
+      chrome.runtime.getPlatformInfo().catch(() => {});
+      this.scheduleKeepAlive();
+    }, KEEP_ALIVE_INTERVAL);
+  }
+
+  private hasDetachedStream(): boolean {
+    return Array.from(this.streams.values()).some(
+      (stream) => stream.status === 'streaming' && stream.ports.size === 0
+    );
+  }
+
+  /**
+   * Drop finished streams past their replay window
+   */
+  private pruneStreams(): void {
+    const now = Date.now();
+    this.streams.forEach((stream, id) => {
+      if (stream.finishedAt && now - stream.finishedAt > FINISHED_STREAM_TTL) {
+        this.streams.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Persist a finished stream to session storage
+   */
+  private async saveFinished(record: StreamRecord): Promise<void> {
+    const result = await chrome.storage.session.get(FINISHED_STREAMS_KEY);
+    const finished: StreamRecord[] = result[FINISHED_STREAMS_KEY] || [];
+
+    const updated = [record, ...finished.filter((item) => item.id !== record.id)]
+      .filter((item) => Date.now() - (item.finishedAt || 0) <= FINISHED_STREAM_TTL)
+      .slice(0, MAX_FINISHED_STREAMS);
+
+    await chrome.storage.session.set({ [FINISHED_STREAMS_KEY]: updated });
+  }
+
+  /**
+   * Look up a buffered stream (most recent if no ID given)
+   */
+  private async findFinished(streamId?: string): Promise<StreamRecord | null> {
+    const result = await chrome.storage.session.get(FINISHED_STREAMS_KEY);
+    const finished: StreamRecord[] = result[FINISHED_STREAMS_KEY] || [];
+
+    const record = streamId ? finished.find((item) => item.id === streamId) : finished[0];
+
+    if (!record || Date.now() - (record.finishedAt || 0) > FINISHED_STREAM_TTL) {
+      return null;
+    }
+
+    return record;
+  }
+
+  /**
+   * Send a message to all ports attached to a stream
+   */
+  private broadcast(stream: ActiveStream, message: SidePanelMessage): void {
+    stream.ports.forEach((port) => {
+      if (!this.post(port, message)) {
+        stream.ports.delete(port);
+        this.scheduleKeepAlive();
+      }
+    });
+  }
+
+  /**
+   * Post to a port, returning false if it has gone away
+   */
+  private post(port: chrome.runtime.Port, message: SidePanelMessage): boolean {
+    try {
+      port.postMessage(message);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private toRecord(stream: ActiveStream): StreamRecord {
+    const { ports: _ports, cancel: _cancel, ...record } = stream;
+    return record;
+  }
+}
+
+/**
+ * Cache scope for an answer grounded in page context (the same words mean
+ * different things on different pages)
+ */
+function getContextKey(context: unknown): string | undefined {
+  if (!isPlainObject(context)) return undefined;
+
+  const { paragraph, headings, title, description, language } = context as Partial<SelectionContext>;
+  return hashString(JSON.stringify([paragraph, headings, title, description, language]));
+}
+
+// Export singleton instance
+export const streamManager = new StreamManager();
+
+// Export types
+export type { StreamRecord };
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TriggerDeduplicator } from './triggerDedupe';
+
+describe('TriggerDeduplicator', () => {
+  let deduplicator: TriggerDeduplicator;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    deduplicator = new TriggerDeduplicator();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('collapses the same selection arriving through several paths', () => {
+    expect(deduplicator.claim(1, 'Photosynthesis', 'keyboard_shortcut').accepted).toBe(true);
+
+    vi.advanceTimersByTime(150);
+    const duplicate = deduplicator.claim(1, '  photosynthesis ', 'context_menu');
+
+    expect(duplicate).toEqual({ accepted: false, winner: 'keyboard_shortcut', elapsedMs: 150 });
+  });
+
+  it('accepts the same text again once the window has passed', () => {
+    deduplicator.claim(1, 'Photosynthesis', 'keyboard_shortcut');
+
+    vi.advanceTimersByTime(2000);
+
+    expect(deduplicator.claim(1, 'Photosynthesis', 'context_menu').accepted).toBe(true);
+  });
+
+  it('keeps tabs apart', () => {
+    deduplicator.claim(1, 'Photosynthesis', 'keyboard_shortcut');
+
+    expect(deduplicator.claim(2, 'Photosynthesis', 'keyboard_shortcut').accepted).toBe(true);
+  });
+
+  it('treats another level for the same text as a new request', () => {
+    deduplicator.claim(1, 'Photosynthesis', 'keyboard_shortcut', { complexity: '5yo' });
+
+    expect(deduplicator.claim(1, 'Photosynthesis', 'keyboard_shortcut', { complexity: 'normal' }).accepted).toBe(true);
+    expect(deduplicator.claim(1, 'Photosynthesis', 'keyboard_shortcut').accepted).toBe(true);
+    expect(deduplicator.claim(1, 'Photosynthesis', 'context_menu', { complexity: '5yo' }).accepted).toBe(false);
+  });
+
+  it('treats link, page and image requests apart from a selection of the same text', () => {
+    const prompt = 'Explain what this link is about: https://example.com';
+    deduplicator.claim(1, prompt, 'context_menu');
+
+    expect(deduplicator.claim(1, prompt, 'context_menu', { source: 'link' }).accepted).toBe(true);
+    expect(deduplicator.claim(1, prompt, 'context_menu', { source: 'page' }).accepted).toBe(true);
+    expect(deduplicator.claim(1, prompt, 'context_menu', { source: 'image' }).accepted).toBe(true);
+    expect(deduplicator.claim(1, prompt, 'selection_bubble', { source: 'selection' }).accepted).toBe(false);
+  });
+});
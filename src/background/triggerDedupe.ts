@@ -0,0 +1,85 @@
+/**
+ * Trigger Deduplication
+ *
+ * One user action can reach the background through several paths
+ * (manifest command, content script keydown, context menu). Requests for
+ * the same tab, text, level and source inside a short window collapse into
+ * the first one.
+ */
+
+import type { ComplexityLevel, ExplanationSource, ExplanationTrigger } from '@/shared/types';
+import { hashString } from '@/shared/utils';
+
+// Requests for the same tab + text + level + source within this window are duplicates
+const DEDUPE_WINDOW = 2000; // 2 seconds
+
+interface TriggerClaim {
+  trigger: ExplanationTrigger;
+  claimedAt: number;
+}
+
+interface ClaimResult {
+  accepted: boolean;
+  // Trigger that opened the explanation (this one if accepted)
+  winner: ExplanationTrigger;
+  // Time since the winning trigger (0 if accepted)
+  elapsedMs: number;
+}
+
+// What else tells two requests for the same text apart
+interface ClaimScope {
+  // Requested level (unset: the default level)
+  complexity?: ComplexityLevel;
+  // Unset: a text selection
+  source?: ExplanationSource;
+}
+
+/**
+ * Hash normalized text
+ */
+function hashText(text: string): string {
+  return hashString(text.trim().replace(/\s+/g, ' ').toLowerCase());
+}
+
+/**
+ * Trigger Deduplicator
+ *
+ * Claims are synchronous and in memory so racing messages can't both win
+ */
+export class TriggerDeduplicator {
+  private claims: Map<string, TriggerClaim> = new Map();
+
+  /**
+   * Claim a request; returns accepted=false for duplicates
+   */
+  claim(tabId: number, text: string, trigger: ExplanationTrigger, scope: ClaimScope = {}): ClaimResult {
+    const now = Date.now();
+    this.prune(now);
+
+    // "Re-explain at next level" and link / page / image prompts are new requests
+    const key = [tabId, scope.source || 'selection', scope.complexity || 'default', hashText(text)].join(':');
+    const existing = this.claims.get(key);
+
+    if (existing) {
+      return {
+        accepted: false,
+        winner: existing.trigger,
+        elapsedMs: now - existing.claimedAt,
+      };
+    }
+
+    this.claims.set(key, { trigger, claimedAt: now });
+    return { accepted: true, winner: trigger, elapsedMs: 0 };
+  }
+
+  private prune(now: number): void {
+    this.claims.forEach((claim, key) => {
+      if (now - claim.claimedAt >= DEDUPE_WINDOW) {
+        this.claims.delete(key);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const triggerDeduplicator = new TriggerDeduplicator();
@@ -0,0 +1,72 @@
+/**
+ * Uninstall Feedback
+ *
+ * Keeps chrome.runtime.setUninstallURL pointing at the feedback form with an
+ * anonymized usage summary, so we can learn why people leave
+ * - Install age in days and explanation count from `stats`
+ * - No user id, email or page data
+ * - Refreshed on install/update and as explanations complete
+ */
+
+import { URLS } from '@/shared/constants';
+import { logger } from '@/shared/utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Serializes read-modify-write of stats when streams finish together
+let statsQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Build the feedback URL from local stats
+ */
+async function buildUninstallUrl(): Promise<string> {
+  const { stats } = await chrome.storage.local.get('stats');
+
+  const url = new URL(URLS.UNINSTALL_FEEDBACK);
+  url.searchParams.set('v', chrome.runtime.getManifest().version);
+
+  if (typeof stats?.installDate === 'number') {
+    const installAgeDays = Math.max(0, Math.floor((Date.now() - stats.installDate) / DAY_MS));
+    url.searchParams.set('install_age_days', String(installAgeDays));
+  }
+
+  url.searchParams.set('explanations', String(stats?.totalExplanations || 0));
+
+  return url.toString();
+}
+
+/**
+ * Point the uninstall URL at the current summary
+ */
+export async function updateUninstallUrl(): Promise<void> {
+  try {
+    await chrome.runtime.setUninstallURL(await buildUninstallUrl());
+  } catch (error) {
+    logger.error('Failed to set uninstall URL:', error);
+  }
+}
+
+/**
+ * Count a completed explanation and refresh the summary
+ */
+export function recordExplanationCompleted(): Promise<void> {
+  statsQueue = statsQueue
+    .then(async () => {
+      const { stats } = await chrome.storage.local.get('stats');
+
+      await chrome.storage.local.set({
+        stats: {
+          ...stats,
+          totalExplanations: (stats?.totalExplanations || 0) + 1,
+          lastUsed: Date.now(),
+        },
+      });
+
+      await updateUninstallUrl();
+    })
+    .catch((error) => {
+      logger.error('Failed to record explanation:', error);
+    });
+
+  return statsQueue;
+}
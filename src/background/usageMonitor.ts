@@ -0,0 +1,287 @@
+/**
+ * Usage Monitor
+ *
+ * The one place that counts questions against the daily limit (views used
+ * to run their own rate limiter, each counting in memory and syncing with
+ * the server every 5 minutes)
+ * - Usage kept under `dailyUsage` and synced on a chrome.alarms schedule
+ * - The background records answers and definitions when they finish
+ * - Low usage / limit notifications and the toolbar badge
+ * - State broadcast as USAGE_CHANGED; views start from GET_USAGE
+ */
+
+import type { StoredDailyUsage, UsageChangedMessage, UsageState } from '@/shared/types';
+import { logger } from '@/shared/utils';
+import { apiClient } from '@/services/api';
+import { authService } from '@/services/auth';
+import { lifecycle } from '@/services/memoryCleanup';
+import { notificationCenter } from './notificationCenter';
+
+export const USAGE_SYNC_ALARM = 'usage-sync';
+export const DAILY_LIMIT_MESSAGE = 'Daily limit reached! Upgrade for unlimited questions.';
+
+const OWNER = 'usageMonitor';
+const USAGE_SYNC_MINUTES = 5;
+// Sync shortly after a question so the server count catches up
+const SYNC_AFTER_QUESTION_DELAY = 1000; // 1 second
+
+const FREE_DAILY_LIMIT = 10;
+const PREMIUM_DAILY_LIMIT = 1000; // Effectively unlimited
+const LOW_USAGE_THRESHOLD = 3;
+
+/**
+ * Usage Monitor
+ */
+class UsageMonitor {
+  private state: UsageState = {
+    remaining: FREE_DAILY_LIMIT,
+    limit: FREE_DAILY_LIMIT,
+    used: 0,
+    resetAt: getNextResetTime(),
+    isPremium: false,
+    isLoading: true,
+  };
+  private date = getCurrentDate();
+  private ready: Promise<void> | null = null;
+
+  /**
+   * Restore today's usage and start syncing
+   */
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.restore();
+      this.listen();
+
+      // Subscribing again also syncs (covers a post-question sync that was disposed)
+      lifecycle.onRestart(OWNER, () => this.listen());
+
+      // Keep a pending sync (the worker starts far more often than it syncs)
+      chrome.alarms.get(USAGE_SYNC_ALARM).then((alarm) => {
+        if (!alarm) {
+          chrome.alarms.create(USAGE_SYNC_ALARM, { periodInMinutes: USAGE_SYNC_MINUTES });
+        }
+      }).catch(() => {});
+    }
+    return this.ready;
+  }
+
+  private listen(): void {
+    lifecycle.addSubscription(OWNER, authService.subscribe((authState) => {
+      const isPremium = authState.user?.subscription_tier === 'premium';
+      if (isPremium !== this.state.isPremium) {
+        this.update({ ...this.state, isPremium });
+      }
+      this.sync().catch(() => {});
+    }), 'authService');
+  }
+
+  async getState(): Promise<UsageState> {
+    await this.init();
+    this.rollOver();
+    return { ...this.state };
+  }
+
+  /**
+   * Check if the user can ask another question
+   */
+  async canAsk(): Promise<boolean> {
+    const state = await this.getState();
+    return state.isPremium || state.remaining > 0;
+  }
+
+  /**
+   * Count a question (definitions can cost less than a full question)
+   */
+  async recordQuestion(cost: number = 1): Promise<void> {
+    await this.init();
+    this.rollOver();
+
+    if (this.state.isPremium || cost <= 0) {
+      return;
+    }
+
+    // A partly used question still counts as remaining
+    const previousRemaining = this.state.remaining;
+    const used = this.state.used + cost;
+    const remaining = Math.max(0, Math.ceil(this.state.limit - used));
+
+    this.update({ ...this.state, used, remaining });
+    await this.persist();
+
+    // Warn once (cheap lookups can leave the count unchanged)
+    if (remaining !== previousRemaining) {
+      if (remaining === LOW_USAGE_THRESHOLD) {
+        this.showLowUsageWarning();
+      } else if (remaining === 0) {
+        this.showLimitReached();
+      }
+    }
+
+    lifecycle.setTimeout(OWNER, () => {
+      this.sync().catch(() => {});
+    }, SYNC_AFTER_QUESTION_DELAY);
+  }
+
+  /**
+   * Take the server's count when signed in
+   */
+  async sync(): Promise<void> {
+    await this.init();
+
+    try {
+      if (!(await apiClient.isAuthenticated())) {
+        this.update({ ...this.state, isLoading: false });
+        return;
+      }
+
+      const usage = await apiClient.checkUsage();
+      const isPremium = authService.isPremium();
+      const limit = isPremium ? PREMIUM_DAILY_LIMIT : FREE_DAILY_LIMIT;
+
+      this.date = getCurrentDate();
+      this.update({
+        remaining: usage.remaining,
+        limit,
+        used: limit - usage.remaining,
+        resetAt: usage.resetAt,
+        isPremium,
+        isLoading: false,
+      });
+
+      await this.persist();
+    } catch (error) {
+      logger.warn('Usage sync failed:', error);
+      this.update({ ...this.state, isLoading: false });
+    }
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const { dailyUsage } = await chrome.storage.local.get('dailyUsage');
+      const stored: StoredDailyUsage | undefined = dailyUsage;
+      const isPremium = authService.isPremium();
+
+      if (stored && stored.date === this.date) {
+        this.update({
+          ...this.state,
+          used: stored.used || 0,
+          remaining: Math.max(0, Math.ceil(this.state.limit - (stored.used || 0))),
+          isPremium,
+          isLoading: false,
+        });
+      } else {
+        this.update({ ...this.state, isPremium });
+      }
+    } catch (error) {
+      logger.error('Failed to load daily usage:', error);
+    }
+
+    this.sync().catch(() => {});
+  }
+
+  /**
+   * Start a new day's count after midnight UTC
+   */
+  private rollOver(): void {
+    const today = getCurrentDate();
+    if (today === this.date) return;
+
+    this.date = today;
+    this.update({
+      ...this.state,
+      used: 0,
+      remaining: this.state.limit,
+      resetAt: getNextResetTime(),
+    });
+  }
+
+  private async persist(): Promise<void> {
+    const dailyUsage: StoredDailyUsage = {
+      date: this.date,
+      used: this.state.used,
+      limit: this.state.limit,
+    };
+
+    try {
+      await chrome.storage.local.set({ dailyUsage });
+    } catch (error) {
+      logger.error('Failed to save daily usage:', error);
+    }
+  }
+
+  private update(state: UsageState): void {
+    this.state = state;
+    this.updateBadge();
+    this.broadcast();
+  }
+
+  private broadcast(): void {
+    const message: UsageChangedMessage = {
+      type: 'USAGE_CHANGED',
+      payload: { ...this.state },
+    };
+
+    // Rejects when no view is open
+    chrome.runtime.sendMessage(message).catch(() => {});
+  }
+
+  private updateBadge(): void {
+    const { isPremium, remaining } = this.state;
+
+    if (isPremium) {
+      this.setBadge('∞', '#10b981'); // Green
+    } else if (remaining === 0) {
+      this.setBadge('0', '#ef4444'); // Red
+    } else if (remaining <= LOW_USAGE_THRESHOLD) {
+      this.setBadge(String(remaining), '#f59e0b'); // Orange
+    } else {
+      this.setBadge(String(remaining), '#8b5cf6'); // Purple
+    }
+  }
+
+  private setBadge(text: string, color: string): void {
+    chrome.action.setBadgeText({ text }).catch(() => {});
+    chrome.action.setBadgeBackgroundColor({ color }).catch(() => {});
+  }
+
+  private showLowUsageWarning(): void {
+    notificationCenter.show({
+      kind: 'low_usage',
+      type: 'warning',
+      message: `Only ${this.state.remaining} questions left today!`,
+      action: { id: 'open_pricing', text: 'Upgrade' },
+    }).catch((error) => {
+      logger.debug('Failed to show low usage warning:', error);
+    });
+  }
+
+  private showLimitReached(): void {
+    notificationCenter.show({
+      kind: 'limit_reached',
+      type: 'error',
+      message: DAILY_LIMIT_MESSAGE,
+      action: { id: 'open_pricing', text: 'Upgrade Now' },
+    }).catch((error) => {
+      logger.debug('Failed to show limit reached notification:', error);
+    });
+  }
+}
+
+/**
+ * Current date in YYYY-MM-DD format (UTC)
+ */
+function getCurrentDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Next reset time (midnight UTC)
+ */
+function getNextResetTime(): string {
+  const tomorrow = new Date();
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return tomorrow.toISOString();
+}
+
+// Export singleton instance
+export const usageMonitor = new UsageMonitor();
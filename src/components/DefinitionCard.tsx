@@ -0,0 +1,35 @@
+/**
+ * Definition Card Component
+ * Compact definition of a word or short phrase (part of speech, meaning, example)
+ */
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import type { Definition } from '@/shared/types';
+
+interface DefinitionCardProps {
+  definition: Definition;
+}
+
+export const DefinitionCard: React.FC<DefinitionCardProps> = ({ definition }) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline gap-2 flex-wrap">
+        <BookOpen className="w-4 h-4 text-primary-600 self-center" />
+        <h3 className="text-lg font-semibold text-gray-900">{definition.term}</h3>
+        {definition.partOfSpeech && (
+          <span className="text-sm italic text-gray-500">{definition.partOfSpeech}</span>
+        )}
+      </div>
+
+      <p className="text-gray-800 leading-relaxed">{definition.definition}</p>
+
+      {definition.example && (
+        <p className="text-sm text-gray-600 border-l-2 border-primary-200 pl-3 italic">
+          {definition.example}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DefinitionCard;
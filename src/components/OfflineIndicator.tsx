@@ -9,7 +9,8 @@
  */
 
 import React, { useEffect, useState } from 'react';
-import { offlineDetector } from '../services/cache';
+import { connectivity } from '../services/connectivity';
+import type { ConnectivityState } from '../shared/types';
 import { backgroundSync, SyncStatus } from '../services/backgroundSync';
 import { offlineStorage } from '../services/offlineStorage';
 
@@ -22,7 +23,10 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
   className = '',
   showDetails = false,
 }) => {
-  const [isOffline, setIsOffline] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectivityState>(
+    connectivity.getStatus().state
+  );
+  const isOffline = connectionState === 'offline' || connectionState === 'api_down';
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({ status: 'idle' });
   const [queueStats, setQueueStats] = useState({
     total: 0,
@@ -39,8 +43,8 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
 
   useEffect(() => {
     // Subscribe to offline status
-    const unsubscribeOffline = offlineDetector.subscribe(setIsOffline);
-    setIsOffline(offlineDetector.isCurrentlyOffline());
+    const unsubscribeOffline = connectivity.subscribe((status) => setConnectionState(status.state));
+    setConnectionState(connectivity.getStatus().state);
 
     // Subscribe to sync status
     const unsubscribeSync = backgroundSync.subscribe(setSyncStatus);
@@ -137,7 +141,10 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
             <div className="stat-row">
               <span className="label">Connection:</span>
               <span className={`value ${isOffline ? 'offline' : 'online'}`}>
-                {isOffline ? '📡 Offline' : '🌐 Online'}
+                {connectionState === 'online' && '🌐 Online'}
+                {connectionState === 'degraded' && '🐢 Slow connection'}
+                {connectionState === 'api_down' && '⚠️ Stupify is unreachable'}
+                {connectionState === 'offline' && '📡 Offline'}
               </span>
             </div>
 
@@ -447,8 +454,8 @@ export const CompactOfflineIndicator: React.FC = () => {
   const [queueCount, setQueueCount] = useState(0);
 
   useEffect(() => {
-    const unsubscribe = offlineDetector.subscribe(setIsOffline);
-    setIsOffline(offlineDetector.isCurrentlyOffline());
+    const unsubscribe = connectivity.subscribe(() => setIsOffline(connectivity.isOffline()));
+    setIsOffline(connectivity.isOffline());
 
     const loadQueue = async () => {
       const stats = await backgroundSync.getQueueStats();
@@ -12,6 +12,7 @@
 import { useState, useEffect } from 'react';
 import { Flame, Brain, TrendingUp, Sparkles, Crown, ChevronRight } from 'lucide-react';
 import { logger } from '../shared/utils';
+import { sendToBackground } from '../shared/messaging';
 
 interface StatsData {
   today: {
@@ -89,13 +90,13 @@ export default function StatsWidget() {
   };
 
   const handleUpgradeClick = () => {
-    chrome.runtime.sendMessage({
+    sendToBackground({
       type: 'TRACK_EVENT',
       payload: {
         event: 'upgrade_cta_clicked',
         properties: { source: 'stats_widget' },
       },
-    });
+    }).catch(() => {});
     
     chrome.tabs.create({
       url: 'https://stupify.ai/pricing',
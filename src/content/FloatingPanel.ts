@@ -0,0 +1,157 @@
+/**
+ * FloatingPanel - In-page fallback for the side panel
+ *
+ * Features:
+ * - Shadow DOM container (page styles can't leak in or out)
+ * - Hosts sidepanel.html in an iframe (same React tree as the side panel)
+ * - The frame carries a one-time token from the background, never a tab id
+ * - Close button and Escape to dismiss
+ */
+
+import { logger } from "@/shared/utils";
+import { sendToBackground } from "@/shared/messaging";
+
+const HOST_ID = 'stupify-floating-panel';
+
+const PANEL_STYLES = `
+  :host {
+    all: initial;
+  }
+
+  .panel {
+    position: fixed;
+    top: 16px;
+    right: 16px;
+    width: 380px;
+    height: min(640px, calc(100vh - 32px));
+    display: flex;
+    flex-direction: column;
+    background: white;
+    border-radius: 12px;
+    box-shadow: 0 12px 32px rgba(0, 0, 0, 0.2), 0 2px 6px rgba(0, 0, 0, 0.1);
+    overflow: hidden;
+    z-index: 2147483647;
+    animation: slide-in 0.25s cubic-bezier(0.4, 0, 0.2, 1);
+  }
+
+  .header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 8px 12px;
+    background: linear-gradient(135deg, #8b5cf6 0%, #6366f1 100%);
+    color: white;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+    font-size: 13px;
+    font-weight: 600;
+  }
+
+  .close {
+    border: none;
+    background: transparent;
+    color: white;
+    font-size: 18px;
+    line-height: 1;
+    cursor: pointer;
+    padding: 2px 6px;
+    border-radius: 4px;
+  }
+
+  .close:hover {
+    background: rgba(255, 255, 255, 0.2);
+  }
+
+  iframe {
+    flex: 1;
+    width: 100%;
+    border: none;
+  }
+
+  @keyframes slide-in {
+    from {
+      transform: translateX(420px);
+      opacity: 0;
+    }
+    to {
+      transform: translateX(0);
+      opacity: 1;
+    }
+  }
+`;
+
+export class FloatingPanel {
+  private host: HTMLElement | null = null;
+
+  /**
+   * Show the panel (reuses the existing one if already open)
+   */
+  async show(): Promise<void> {
+    // An open panel picks up new requests for this tab itself
+    if (this.host) return;
+
+    // Binds the framed panel to this tab
+    const token = await sendToBackground({ type: 'ISSUE_PANEL_TOKEN' });
+    if (this.host) return;
+
+    const params = new URLSearchParams({ surface: 'floating', token });
+    const url = chrome.runtime.getURL(`sidepanel.html?${params.toString()}`);
+
+    const host = document.createElement('div');
+    host.id = HOST_ID;
+    const shadow = host.attachShadow({ mode: 'closed' });
+
+    const style = document.createElement('style');
+    style.textContent = PANEL_STYLES;
+
+    const panel = document.createElement('div');
+    panel.className = 'panel';
+
+    const header = document.createElement('div');
+    header.className = 'header';
+    header.textContent = 'Stupify';
+
+    const close = document.createElement('button');
+    close.className = 'close';
+    close.setAttribute('aria-label', 'Close Stupify panel');
+    close.textContent = '×';
+    close.addEventListener('click', () => this.hide());
+    header.appendChild(close);
+
+    const iframe = document.createElement('iframe');
+    iframe.src = url;
+    iframe.title = 'Stupify';
+    iframe.allow = 'clipboard-write';
+
+    panel.append(header, iframe);
+    shadow.append(style, panel);
+    document.documentElement.appendChild(host);
+
+    document.addEventListener('keydown', this.handleKeyDown);
+
+    this.host = host;
+
+    logger.debug('Floating panel shown');
+  }
+
+  /**
+   * Remove the panel from the page
+   */
+  hide(): void {
+    document.removeEventListener('keydown', this.handleKeyDown);
+
+    this.host?.remove();
+    this.host = null;
+
+    logger.debug('Floating panel hidden');
+  }
+
+  isOpen(): boolean {
+    return this.host !== null;
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      this.hide();
+    }
+  };
+}
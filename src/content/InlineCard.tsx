@@ -0,0 +1,384 @@
+/**
+ * InlineCard - Explanation card anchored to the selection
+ *
+ * Features:
+ * - Shadow DOM container (page styles can't leak in or out)
+ * - Only renders: the background checks the quota, answers from its cache
+ *   and counts usage, as it does for the side panel
+ * - Definition card for words and short phrases
+ * - Copy, "Open in side panel" and level switching
+ * - Follows the selection on scroll and resize
+ * - Escape or a click outside to close
+ *
+ * Loaded on first use (content.ts imports it dynamically) so pages don't
+ * pay for React until someone asks for an inline explanation.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { Check, Copy, PanelRight, X } from 'lucide-react';
+import { StreamingResponse } from '@/components/StreamingResponse';
+import { DefinitionCard } from '@/components/DefinitionCard';
+import {
+  streamViaBackground,
+  BackgroundStreamHandle,
+  ExplanationRequestOptions,
+} from '@/services/explanationStream';
+import { sendToBackground } from '@/shared/messaging';
+import { formatDefinition, logger } from '@/shared/utils';
+import type { ComplexityLevel, Definition, SelectionMode } from '@/shared/types';
+import tailwindStyles from '@/styles/globals.css?inline';
+
+const HOST_ID = 'stupify-inline-card';
+
+// Space between the selection and the card, and around the viewport edge
+const SELECTION_GAP = 8;
+const VIEWPORT_MARGIN = 12;
+
+const LEVEL_BUTTONS: { level: ComplexityLevel; label: string }[] = [
+  { level: '5yo', label: 'ELI5' },
+  { level: 'normal', label: 'Normal' },
+  { level: 'advanced', label: 'Advanced' },
+];
+
+const CARD_STYLES = `
+  :host {
+    all: initial;
+  }
+
+  .anchor {
+    position: fixed;
+    top: ${VIEWPORT_MARGIN}px;
+    right: ${VIEWPORT_MARGIN}px;
+    width: 360px;
+    max-width: calc(100vw - ${VIEWPORT_MARGIN * 2}px);
+    z-index: 2147483646;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  }
+`;
+
+interface InlineExplanationCardProps {
+  question: string;
+  initialComplexity: ComplexityLevel;
+  // Decided by the background ('define' only for page selections)
+  mode: SelectionMode;
+  // Page context and Markdown flag captured with the selection
+  request: ExplanationRequestOptions;
+  onClose: () => void;
+  onOpenInSidePanel: (complexity: ComplexityLevel) => void;
+}
+
+/**
+ * Card contents (streams again whenever the level changes)
+ */
+function InlineExplanationCard({
+  question,
+  initialComplexity,
+  mode,
+  request,
+  onClose,
+  onOpenInSidePanel,
+}: InlineExplanationCardProps) {
+  const [complexity, setComplexity] = useState(initialComplexity);
+  const [text, setText] = useState('');
+  const [definition, setDefinition] = useState<Definition | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const streamRef = useRef<BackgroundStreamHandle | null>(null);
+
+  useEffect(() => {
+    let active = true;
+
+    setText('');
+    setDefinition(null);
+    setError(null);
+    setIsLoading(true);
+    setIsStreaming(false);
+
+    const finish = () => {
+      streamRef.current = null;
+      setIsLoading(false);
+      setIsStreaming(false);
+    };
+
+    const run = async () => {
+      // Words and short phrases get a definition card (cached by the background)
+      if (mode === 'define') {
+        const result = await sendToBackground({
+          type: 'DEFINE_TERM',
+          payload: { term: question, complexity },
+        });
+        if (!active) return;
+
+        setDefinition(result.definition);
+        setText(formatDefinition(result.definition));
+        finish();
+        return;
+      }
+
+      streamRef.current = streamViaBackground(question, complexity, [], {
+        onToken: (token) => {
+          setIsStreaming(true);
+          setText((previous) => previous + token);
+        },
+        onComplete: (final) => {
+          setText(final);
+          finish();
+        },
+        onError: (streamError) => {
+          setError(streamError.message || 'Failed to get explanation');
+          finish();
+        },
+        onCancel: finish,
+      }, request);
+    };
+
+    run().catch((runError) => {
+      logger.error('Inline explanation failed:', runError);
+      setError(runError?.message || 'Failed to get explanation');
+      finish();
+    });
+
+    // Closing the card or switching levels stops the request
+    return () => {
+      active = false;
+      streamRef.current?.cancel();
+      streamRef.current?.disconnect();
+      streamRef.current = null;
+    };
+  }, [question, complexity, mode, request]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (copyError) {
+      logger.error('Failed to copy explanation:', copyError);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-2xl border border-gray-200 overflow-hidden text-left">
+      <div className="flex items-center justify-between px-3 py-2 bg-gradient-to-r from-primary-500 to-indigo-500 text-white">
+        <span className="text-sm font-semibold">Stupify</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-white/20"
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-1 px-3 pt-3">
+        {LEVEL_BUTTONS.map(({ level, label }) => (
+          <button
+            key={level}
+            onClick={() => setComplexity(level)}
+            className={`px-2 py-1 rounded-md text-xs font-medium ${
+              complexity === level
+                ? 'bg-primary-100 text-primary-700'
+                : 'text-gray-500 hover:bg-gray-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="px-3 py-3 max-h-72 overflow-y-auto text-sm">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : definition ? (
+          <DefinitionCard definition={definition} />
+        ) : (
+          <StreamingResponse text={text} isStreaming={isStreaming} isLoading={isLoading} />
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-1 px-3 py-2 border-t border-gray-100">
+        <button
+          onClick={copy}
+          disabled={!text || isStreaming}
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+        >
+          {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          onClick={() => onOpenInSidePanel(complexity)}
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-gray-600 hover:bg-gray-100"
+        >
+          <PanelRight className="w-3.5 h-3.5" />
+          Open in side panel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export interface InlineCardOptions {
+  // Gets the context and format the card was shown with, so the panel asks the same question
+  onOpenInSidePanel: (
+    text: string,
+    complexity: ComplexityLevel,
+    mode: SelectionMode,
+    request: ExplanationRequestOptions
+  ) => void;
+}
+
+export class InlineCard {
+  private host: HTMLElement | null = null;
+  private anchor: HTMLElement | null = null;
+  private root: Root | null = null;
+  private range: Range | null = null;
+  private frameRequest: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+
+  constructor(private options: InlineCardOptions) {}
+
+  /**
+   * Show the card for a text (replaces an open one); without a range it
+   * sits in the top-right corner
+   */
+  show(
+    text: string,
+    complexity: ComplexityLevel,
+    mode: SelectionMode,
+    range: Range | null,
+    request: ExplanationRequestOptions = {}
+  ): void {
+    this.hide();
+
+    const host = document.createElement('div');
+    host.id = HOST_ID;
+    const shadow = host.attachShadow({ mode: 'closed' });
+
+    const style = document.createElement('style');
+    style.textContent = tailwindStyles + CARD_STYLES;
+
+    const anchor = document.createElement('div');
+    anchor.className = 'anchor';
+
+    shadow.append(style, anchor);
+    document.documentElement.appendChild(host);
+
+    this.host = host;
+    this.anchor = anchor;
+    this.range = range ? range.cloneRange() : null;
+
+    this.root = createRoot(anchor);
+    this.root.render(
+      <InlineExplanationCard
+        question={text}
+        initialComplexity={complexity}
+        mode={mode}
+        request={request}
+        onClose={() => this.hide()}
+        onOpenInSidePanel={(level) => {
+          this.hide();
+          this.options.onOpenInSidePanel(text, level, mode, request);
+        }}
+      />
+    );
+
+    // Capture catches scrolling inside page containers too
+    window.addEventListener('scroll', this.schedulePosition, { capture: true, passive: true });
+    window.addEventListener('resize', this.schedulePosition, { passive: true });
+    document.addEventListener('keydown', this.handleKeyDown);
+    document.addEventListener('mousedown', this.handleOutsideClick, true);
+
+    // Position once React has laid the card out, and again as the text grows
+    this.resizeObserver = new ResizeObserver(this.schedulePosition);
+    this.resizeObserver.observe(anchor);
+
+    logger.debug('Inline card shown');
+  }
+
+  /**
+   * Remove the card (stops its stream)
+   */
+  hide(): void {
+    if (!this.host) return;
+
+    window.removeEventListener('scroll', this.schedulePosition, true);
+    window.removeEventListener('resize', this.schedulePosition);
+    document.removeEventListener('keydown', this.handleKeyDown);
+    document.removeEventListener('mousedown', this.handleOutsideClick, true);
+
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+
+    if (this.frameRequest !== null) {
+      cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+
+    this.root?.unmount();
+    this.host.remove();
+
+    this.root = null;
+    this.host = null;
+    this.anchor = null;
+    this.range = null;
+
+    logger.debug('Inline card hidden');
+  }
+
+  isOpen(): boolean {
+    return this.host !== null;
+  }
+
+  /**
+   * Below the selection, or above it when there's no room
+   */
+  private position(): void {
+    if (!this.anchor || !this.range) return;
+
+    const rect = this.range.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0) return;
+
+    const { offsetWidth: width, offsetHeight: height } = this.anchor;
+
+    let top = rect.bottom + SELECTION_GAP;
+    if (top + height > window.innerHeight - VIEWPORT_MARGIN) {
+      top = Math.max(rect.top - SELECTION_GAP - height, VIEWPORT_MARGIN);
+    }
+
+    const left = Math.min(
+      Math.max(rect.left, VIEWPORT_MARGIN),
+      window.innerWidth - width - VIEWPORT_MARGIN
+    );
+
+    this.anchor.style.top = `${top}px`;
+    this.anchor.style.left = `${left}px`;
+    this.anchor.style.right = 'auto';
+  }
+
+  /**
+   * Reposition at most once per frame
+   */
+  private schedulePosition = (): void => {
+    if (this.frameRequest !== null) return;
+
+    this.frameRequest = requestAnimationFrame(() => {
+      this.frameRequest = null;
+      this.position();
+    });
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      this.hide();
+    }
+  };
+
+  private handleOutsideClick = (event: MouseEvent): void => {
+    if (this.host && !event.composedPath().includes(this.host)) {
+      this.hide();
+    }
+  };
+}
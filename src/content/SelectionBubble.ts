@@ -0,0 +1,298 @@
+/**
+ * SelectionBubble - "Explain" button next to the current selection
+ *
+ * Features:
+ * - Shadow DOM container (page styles can't leak in or out)
+ * - One button per complexity level ("Define" for words, "Explain" otherwise)
+ * - Dismiss, "Don't show on this site" and snooze
+ * - Follows the selection on scroll and resize
+ * - Escape to dismiss
+ */
+
+import { logger } from "@/shared/utils";
+import type { ComplexityLevel } from "@/shared/types";
+
+const HOST_ID = 'stupify-selection-bubble';
+
+// Space between the selection and the bubble, and around the viewport edge
+const SELECTION_GAP = 8;
+const VIEWPORT_MARGIN = 8;
+
+const LEVEL_BUTTONS: { level: ComplexityLevel; label: string }[] = [
+  { level: '5yo', label: 'ELI5' },
+  { level: 'normal', label: 'Normal' },
+  { level: 'advanced', label: 'Advanced' },
+];
+
+const BUBBLE_STYLES = `
+  :host {
+    all: initial;
+  }
+
+  .bubble {
+    position: fixed;
+    top: 0;
+    left: 0;
+    display: flex;
+    align-items: center;
+    gap: 2px;
+    padding: 4px;
+    background: white;
+    border-radius: 10px;
+    box-shadow: 0 6px 20px rgba(0, 0, 0, 0.18), 0 1px 3px rgba(0, 0, 0, 0.1);
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+    font-size: 12px;
+    z-index: 2147483646;
+    animation: pop-in 0.15s ease-out;
+  }
+
+  .label {
+    padding: 0 6px;
+    font-weight: 600;
+    color: #7c3aed;
+  }
+
+  button {
+    border: none;
+    background: transparent;
+    color: #374151;
+    font: inherit;
+    padding: 4px 8px;
+    border-radius: 6px;
+    cursor: pointer;
+  }
+
+  button:hover {
+    background: #f3f0ff;
+    color: #6d28d9;
+  }
+
+  .icon {
+    color: #9ca3af;
+    padding: 4px 6px;
+  }
+
+  .menu {
+    position: absolute;
+    top: calc(100% + 4px);
+    right: 0;
+    display: none;
+    flex-direction: column;
+    min-width: 180px;
+    padding: 4px;
+    background: white;
+    border-radius: 8px;
+    box-shadow: 0 6px 20px rgba(0, 0, 0, 0.18);
+  }
+
+  .menu.open {
+    display: flex;
+  }
+
+  .menu button {
+    text-align: left;
+  }
+
+  @keyframes pop-in {
+    from {
+      transform: scale(0.9);
+      opacity: 0;
+    }
+    to {
+      transform: scale(1);
+      opacity: 1;
+    }
+  }
+`;
+
+export interface SelectionBubbleOptions {
+  onExplain: (level: ComplexityLevel) => void;
+  onHideOnSite: () => void;
+  onSnooze: () => void;
+  // Shown on the snooze menu item ("Snooze for 1 hour")
+  snoozeLabel: string;
+}
+
+export class SelectionBubble {
+  private host: HTMLElement | null = null;
+  private bubble: HTMLElement | null = null;
+  private menu: HTMLElement | null = null;
+  private label: HTMLElement | null = null;
+  private range: Range | null = null;
+  private frameRequest: number | null = null;
+
+  constructor(private options: SelectionBubbleOptions) {}
+
+  /**
+   * Show the bubble next to a selection (moves it if already open)
+   */
+  show(range: Range, label: string = 'Explain'): void {
+    this.range = range.cloneRange();
+
+    if (!this.host) {
+      this.render();
+    }
+
+    if (this.label) {
+      this.label.textContent = label;
+    }
+
+    this.menu?.classList.remove('open');
+    this.position();
+  }
+
+  /**
+   * Remove the bubble from the page
+   */
+  hide(): void {
+    if (!this.host) return;
+
+    window.removeEventListener('scroll', this.schedulePosition, true);
+    window.removeEventListener('resize', this.schedulePosition);
+    document.removeEventListener('keydown', this.handleKeyDown);
+
+    if (this.frameRequest !== null) {
+      cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+
+    this.host.remove();
+    this.host = null;
+    this.bubble = null;
+    this.menu = null;
+    this.label = null;
+    this.range = null;
+
+    logger.debug('Selection bubble hidden');
+  }
+
+  isOpen(): boolean {
+    return this.host !== null;
+  }
+
+  private render(): void {
+    const host = document.createElement('div');
+    host.id = HOST_ID;
+    const shadow = host.attachShadow({ mode: 'closed' });
+
+    const style = document.createElement('style');
+    style.textContent = BUBBLE_STYLES;
+
+    const bubble = document.createElement('div');
+    bubble.className = 'bubble';
+    bubble.setAttribute('role', 'toolbar');
+    bubble.setAttribute('aria-label', 'Explain with Stupify');
+
+    const label = document.createElement('span');
+    label.className = 'label';
+    label.textContent = 'Explain';
+    bubble.appendChild(label);
+
+    LEVEL_BUTTONS.forEach(({ level, label: text }) => {
+      const button = document.createElement('button');
+      button.textContent = text;
+      button.addEventListener('click', () => {
+        this.hide();
+        this.options.onExplain(level);
+      });
+      bubble.appendChild(button);
+    });
+
+    const menu = document.createElement('div');
+    menu.className = 'menu';
+    menu.append(
+      this.createMenuItem("Don't show on this site", this.options.onHideOnSite),
+      this.createMenuItem(this.options.snoozeLabel, this.options.onSnooze)
+    );
+
+    const more = document.createElement('button');
+    more.className = 'icon';
+    more.setAttribute('aria-label', 'More options');
+    more.textContent = '⋯';
+    more.addEventListener('click', () => menu.classList.toggle('open'));
+
+    const close = document.createElement('button');
+    close.className = 'icon';
+    close.setAttribute('aria-label', 'Dismiss');
+    close.textContent = '×';
+    close.addEventListener('click', () => this.hide());
+
+    bubble.append(more, close, menu);
+    shadow.append(style, bubble);
+
+    // Clicking the bubble must not clear the page selection
+    host.addEventListener('mousedown', (event) => event.preventDefault());
+
+    document.documentElement.appendChild(host);
+
+    // Capture catches scrolling inside page containers too
+    window.addEventListener('scroll', this.schedulePosition, { capture: true, passive: true });
+    window.addEventListener('resize', this.schedulePosition, { passive: true });
+    document.addEventListener('keydown', this.handleKeyDown);
+
+    this.host = host;
+    this.bubble = bubble;
+    this.menu = menu;
+    this.label = label;
+
+    logger.debug('Selection bubble shown');
+  }
+
+  private createMenuItem(text: string, onClick: () => void): HTMLButtonElement {
+    const item = document.createElement('button');
+    item.textContent = text;
+    item.addEventListener('click', () => {
+      this.hide();
+      onClick();
+    });
+    return item;
+  }
+
+  /**
+   * Below the selection, or above it when there's no room; hidden while
+   * the selection is scrolled out of view
+   */
+  private position(): void {
+    if (!this.bubble || !this.range) return;
+
+    const rect = this.range.getBoundingClientRect();
+    const offscreen =
+      (rect.width === 0 && rect.height === 0) || rect.bottom < 0 || rect.top > window.innerHeight;
+
+    this.bubble.style.visibility = offscreen ? 'hidden' : 'visible';
+    if (offscreen) return;
+
+    const { offsetWidth: width, offsetHeight: height } = this.bubble;
+
+    let top = rect.bottom + SELECTION_GAP;
+    if (top + height > window.innerHeight - VIEWPORT_MARGIN) {
+      top = rect.top - SELECTION_GAP - height;
+    }
+
+    const left = rect.left + rect.width / 2 - width / 2;
+
+    this.bubble.style.top = `${Math.max(top, VIEWPORT_MARGIN)}px`;
+    this.bubble.style.left = `${Math.min(
+      Math.max(left, VIEWPORT_MARGIN),
+      window.innerWidth - width - VIEWPORT_MARGIN
+    )}px`;
+  }
+
+  /**
+   * Reposition at most once per frame
+   */
+  private schedulePosition = (): void => {
+    if (this.frameRequest !== null) return;
+
+    this.frameRequest = requestAnimationFrame(() => {
+      this.frameRequest = null;
+      this.position();
+    });
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      this.hide();
+    }
+  };
+}
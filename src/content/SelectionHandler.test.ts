@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getSelectionMode } from '@/shared/utils';
+import { expandToWordBoundaries } from './SelectionHandler';
+
+/**
+ * Range over part of a paragraph's text
+ */
+function selectText(text: string, start: number, end: number): Range {
+  document.body.innerHTML = `<p>${text}</p>`;
+  const node = document.querySelector('p')!.firstChild!;
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  return range;
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+  vi.unstubAllGlobals();
+});
+
+describe('expandToWordBoundaries', () => {
+  it('completes a partial word', () => {
+    const text = 'Plants use photosynthesis daily';
+
+    expect(expandToWordBoundaries(selectText(text, 13, 20)).toString()).toBe('photosynthesis');
+  });
+
+  it('leaves a selection on word boundaries alone', () => {
+    const text = 'Plants use photosynthesis daily';
+
+    expect(expandToWordBoundaries(selectText(text, 11, 25)).toString()).toBe('photosynthesis');
+  });
+
+  it('grows Chinese text to the dictionary word, not the whole clause', () => {
+    const text = '我们研究量子力学的基本原理';
+
+    const expanded = expandToWordBoundaries(selectText(text, 4, 6)).toString();
+
+    expect(expanded).toBe('量子力学');
+    expect(getSelectionMode(expanded)).toBe('define');
+  });
+
+  it('grows Thai text to a single word', () => {
+    const text = 'ภาษาไทยง่ายนิดเดียว';
+
+    expect(expandToWordBoundaries(selectText(text, 5, 6)).toString()).toBe('ไทย');
+  });
+
+  it('falls back to letter runs where Intl.Segmenter is missing', () => {
+    vi.stubGlobal('Intl', {});
+    const text = 'Plants use photosynthesis daily';
+
+    expect(expandToWordBoundaries(selectText(text, 13, 20)).toString()).toBe('photosynthesis');
+  });
+});
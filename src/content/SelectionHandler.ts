@@ -4,26 +4,40 @@
  * Features:
  * - Debounced selection tracking
  * - Selection validation (min/max length)
+ * - Short selections completed to whole words (for definitions)
+ * - Structured selections (tables, lists, code, links) captured as Markdown
  * - Selection caching
  * - Pause/resume functionality
  * - Cross-browser compatibility
+ * - Passive (listeners) or on-demand (read when asked) tracking
  */
 
-import { logger } from "@/shared/utils";
+import { getSelectionMode, getWordSegmenter, logger } from "@/shared/utils";
+import type { SelectionFormat, SelectionTracking } from "@/shared/types";
+import { rangeToMarkdown } from "./selectionMarkdown";
 
+// Characters that continue a word when completing a partial selection
+// (fallback where Intl.Segmenter is missing)
+const WORD_CHAR = /[\p{L}\p{N}_'’-]/u;
 
 export interface SelectionHandlerOptions {
   minLength: number;
   maxLength: number;
   debounceMs?: number;
+  // 'on_demand' installs no page listeners (default 'passive')
+  tracking?: SelectionTracking;
   onSelectionChange?: (text: string) => void;
+  // Fired once when a valid selection goes away
+  onSelectionClear?: () => void;
 }
 
 export class SelectionHandler {
   private minLength: number;
   private maxLength: number;
   private debounceMs: number;
+  private tracking: SelectionTracking;
   private onSelectionChange?: (text: string) => void;
+  private onSelectionClear?: () => void;
   
   private debounceTimer: number | null = null;
   private lastSelection: string = '';
@@ -34,7 +48,9 @@ export class SelectionHandler {
     this.minLength = options.minLength;
     this.maxLength = options.maxLength;
     this.debounceMs = options.debounceMs || 300;
+    this.tracking = options.tracking || 'passive';
     this.onSelectionChange = options.onSelectionChange;
+    this.onSelectionClear = options.onSelectionClear;
 
     this.init();
   }
@@ -43,6 +59,12 @@ export class SelectionHandler {
    * Initialize selection tracking
    */
   private init(): void {
+    // Injected for a single request: selection is read when asked
+    if (this.tracking === 'on_demand') {
+      logger.debug('SelectionHandler initialized (on demand)');
+      return;
+    }
+
     // Listen for mouseup events (text selection)
     document.addEventListener('mouseup', this.handleMouseUp);
     
@@ -127,6 +149,9 @@ export class SelectionHandler {
           length: selectedText.length,
           preview: selectedText.substring(0, 50) + '...',
         });
+      } else if (selectedText.length < this.minLength && this.lastSelection) {
+        this.lastSelection = '';
+        this.onSelectionClear?.();
       }
     } catch (error) {
       logger.error('Failed to check selection:', error);
@@ -143,6 +168,11 @@ export class SelectionHandler {
 
       let text = selection.toString().trim();
 
+      // Complete partly selected words for definitions ("dempot" → "idempotent")
+      if (selection.rangeCount > 0 && getSelectionMode(text) === 'define') {
+        text = expandToWordBoundaries(selection.getRangeAt(0)).toString().trim();
+      }
+
       // Truncate if too long
       if (text.length > this.maxLength) {
         text = text.substring(0, this.maxLength);
@@ -155,6 +185,32 @@ export class SelectionHandler {
     }
   }
 
+  /**
+   * Get the selection to send: Markdown when it has tables, lists, code or
+   * links (explanations can then point at rows, items and lines), plain text
+   * otherwise and for words being defined
+   */
+  public getSelectedContent(): { text: string; format: SelectionFormat } {
+    const text = this.getSelectedText();
+
+    try {
+      const selection = window.getSelection();
+      if (!text || !selection || selection.rangeCount === 0 || getSelectionMode(text) !== 'explain') {
+        return { text, format: 'text' };
+      }
+
+      const markdown = rangeToMarkdown(selection.getRangeAt(0));
+      if (!markdown) {
+        return { text, format: 'text' };
+      }
+
+      return { text: markdown.substring(0, this.maxLength), format: 'markdown' };
+    } catch (error) {
+      logger.error('Failed to convert selection to Markdown:', error);
+      return { text, format: 'text' };
+    }
+  }
+
   /**
    * Get selection details (text + position)
    */
@@ -170,7 +226,12 @@ export class SelectionHandler {
       }
 
       const text = this.getSelectedText();
-      const range = selection.getRangeAt(0);
+      let range = selection.getRangeAt(0);
+
+      if (getSelectionMode(selection.toString()) === 'define') {
+        range = expandToWordBoundaries(range);
+      }
+
       const boundingRect = range.getBoundingClientRect();
 
       return { text, boundingRect, range };
@@ -220,6 +281,13 @@ export class SelectionHandler {
     logger.debug('Selection tracking resumed');
   }
 
+  /**
+   * How selections are tracked
+   */
+  public getTracking(): SelectionTracking {
+    return this.tracking;
+  }
+
   /**
    * Check if currently paused
    */
@@ -268,6 +336,64 @@ export function isEditableElement(element: Element | null): boolean {
   );
 }
 
+/**
+ * Utility: Grow a range that starts or ends mid-word to the whole word
+ * (only looks inside the boundary text nodes; the page selection is untouched)
+ *
+ * Word boundaries come from the same segmenter that counts words, so text
+ * without spaces (Chinese, Thai) grows to one word rather than the whole run.
+ */
+export function expandToWordBoundaries(range: Range): Range {
+  const expanded = range.cloneRange();
+  const { startContainer, endContainer } = expanded;
+
+  if (startContainer.nodeType === Node.TEXT_NODE) {
+    const start = findWordStart(startContainer.textContent || '', expanded.startOffset);
+    expanded.setStart(startContainer, start);
+  }
+
+  if (endContainer.nodeType === Node.TEXT_NODE) {
+    const end = findWordEnd(endContainer.textContent || '', expanded.endOffset);
+    expanded.setEnd(endContainer, end);
+  }
+
+  return expanded;
+}
+
+/**
+ * Start of the word an offset falls inside (the offset itself if none)
+ */
+function findWordStart(text: string, offset: number): number {
+  const segmenter = getWordSegmenter();
+  if (segmenter) {
+    const word = offset < text.length ? segmenter.segment(text).containing(offset) : undefined;
+    return word?.isWordLike ? word.index : offset;
+  }
+
+  let start = offset;
+  if (WORD_CHAR.test(text.charAt(start))) {
+    while (start > 0 && WORD_CHAR.test(text.charAt(start - 1))) start--;
+  }
+  return start;
+}
+
+/**
+ * End of the word the character before an offset belongs to (the offset itself if none)
+ */
+function findWordEnd(text: string, offset: number): number {
+  const segmenter = getWordSegmenter();
+  if (segmenter) {
+    const word = offset > 0 ? segmenter.segment(text).containing(offset - 1) : undefined;
+    return word?.isWordLike ? word.index + word.segment.length : offset;
+  }
+
+  let end = offset;
+  if (end > 0 && WORD_CHAR.test(text.charAt(end - 1))) {
+    while (end < text.length && WORD_CHAR.test(text.charAt(end))) end++;
+  }
+  return end;
+}
+
 /**
  * Utility: Get text from selection with smart cleanup
  */
@@ -1,34 +1,91 @@
 /**
  * Content Script - Main Entry Point (FIXED - Memory Leak Prevention)
  * 
- * This script runs on every webpage and:
- * - Detects text selection
+ * Runs on sites the user allowed (passive) or is injected when the user
+ * invokes Stupify (on demand, see background/contentScripts.ts), and:
+ * - Detects text selection (and captures the page context around it)
+ * - Shows the "Explain" bubble next to selections (passive sites)
  * - Handles keyboard shortcuts (Cmd+Shift+S)
- * - Manages context menu integration
+ * - Answers background requests (selection, page content, toasts)
+ * - Hosts the floating panel fallback and the inline explanation card
+ * - Bridges the external API for the page (window.postMessage)
  * - Communicates with background service worker
+ * - Tears itself down when orphaned by an extension update or reload
  * 
  * ✅ FIX: Proper event listener cleanup to prevent memory leaks
  */
 
-import { logger } from '@/shared/utils';
-import { SelectionHandler } from './SelectionHandler';
-import { ChromeMessage } from '@/shared/types';
-import "./styles.css";
+import { getSelectionMode, logger } from '@/shared/utils';
+import { isEditableElement, SelectionHandler } from './SelectionHandler';
+import { FloatingPanel } from './FloatingPanel';
+import { SelectionBubble } from './SelectionBubble';
+import { captureSelectionContext } from './selectionContext';
+import { setupExternalBridge } from './externalBridge';
+import type { InlineCard } from './InlineCard';
+import {
+  ChromeMessage,
+  ComplexityLevel,
+  CurrentSelection,
+  NotificationAction,
+  NotificationType,
+  SelectionBubblePrefs,
+  SelectionFormat,
+  SelectionMode,
+  SelectionTracking,
+} from '@/shared/types';
+import {
+  CONTENT_SCRIPT_TRACKING_GLOBAL,
+  DEFAULT_CONTEXT_BUDGET,
+  MAX_SELECTION_LENGTH,
+  MIN_SELECTION_LENGTH,
+} from '@/shared/constants';
+import { sendToBackground } from '@/shared/messaging';
+import {
+  getSelectionBubblePrefs,
+  hideSelectionBubbleOnSite,
+  isSelectionBubbleSuppressed,
+  snoozeSelectionBubble,
+} from '@/shared/selectionBubble';
+import { policyService } from '@/services/policy';
 
 // Constants
-const MIN_SELECTION_LENGTH = 10;
-const MAX_SELECTION_LENGTH = 5000;
+const MAX_PAGE_CONTENT_LENGTH = 6000;
 const KEYBOARD_SHORTCUT = { key: 's', ctrlKey: true, shiftKey: true };
 const MAX_NOTIFICATIONS = 3;
+const RECONNECT_NOTICE_DURATION = 15000;
+const SELECTION_BUBBLE_SNOOZE = 60 * 60 * 1000; // 1 hour
+
+// Fired by a newly injected instance so an orphaned one steps aside
+const REPLACED_EVENT = 'stupify:content-script-replaced';
 
 // Initialize selection handler
 let selectionHandler: SelectionHandler | null = null;
 
+// In-page fallback when the side panel can't open
+let floatingPanel: FloatingPanel | null = null;
+
+// Explanation card anchored to the selection (loaded on first use)
+let inlineCard: InlineCard | null = null;
+
+// "Explain" bubble next to selections, and where the user turned it off
+let selectionBubble: SelectionBubble | null = null;
+let selectionBubbleEnabled = false;
+let selectionBubblePrefs: SelectionBubblePrefs = { hiddenSites: [], snoozedUntil: 0 };
+
+// Characters of page context sent with a selection (settings.contextBudget)
+let contextBudget = DEFAULT_CONTEXT_BUDGET;
+
 // ✅ FIX: Store listener references for cleanup
 let keydownHandler: ((event: KeyboardEvent) => void) | null = null;
 let messageListener: ((message: any, sender: any, sendResponse: any) => boolean) | null = null;
 let visibilityHandler: (() => void) | null = null;
 let activeNotifications: HTMLElement[] = [];
+let replacedHandler: (() => void) | null = null;
+let bridgeTeardown: (() => void) | null = null;
+let storageListener: ((changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => void) | null = null;
+
+// Set once the extension context is gone (update, reload or uninstall)
+let isOrphaned = false;
 
 /**
  * Check if chrome.storage is available
@@ -39,33 +96,123 @@ function isChromeStorageAvailable(): boolean {
          chrome.storage.local !== undefined;
 }
 
+/**
+ * Whether this script can still reach the extension
+ * (chrome.runtime.id disappears once the context is invalidated)
+ */
+function isExtensionContextValid(): boolean {
+  try {
+    return typeof chrome !== 'undefined' && !!chrome.runtime?.id;
+  } catch {
+    return false;
+  }
+}
+
+function isContextInvalidatedError(error: unknown): boolean {
+  return String((error as Error)?.message || error).includes('Extension context invalidated');
+}
+
+/**
+ * Check the extension context before talking to it; tears down if it is gone
+ */
+function ensureExtensionContext(): boolean {
+  if (isOrphaned) return false;
+
+  if (!isExtensionContextValid()) {
+    handleContextInvalidated();
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Tear down after an update or reload and offer to reconnect (once)
+ */
+function handleContextInvalidated(): void {
+  if (isOrphaned) return;
+  isOrphaned = true;
+
+  logger.warn('Extension context invalidated, tearing down content script');
+  cleanup();
+
+  const notice = showNotification(
+    'Stupify was updated. Click to reconnect.',
+    'info',
+    undefined,
+    RECONNECT_NOTICE_DURATION
+  );
+  notice.style.cursor = 'pointer';
+  notice.addEventListener('click', () => window.location.reload(), { once: true });
+
+  // The background re-injects after updates; no need to reconnect then
+  document.addEventListener(REPLACED_EVENT, () => notice.remove(), { once: true });
+}
+
+/**
+ * A newer instance was injected into this page: step aside quietly
+ */
+function listenForReplacement(): void {
+  // Tell any orphaned instance before listening ourselves
+  document.dispatchEvent(new CustomEvent(REPLACED_EVENT));
+
+  replacedHandler = () => {
+    logger.info('Content script replaced by a newer instance');
+    isOrphaned = true;
+    cleanup();
+  };
+
+  document.addEventListener(REPLACED_EVENT, replacedHandler);
+}
+
 /**
  * Initialize the content script
  */
-function init(): void {
+async function init(): Promise<void> {
   try {
+    // Managed policy can turn Stupify off on this site
+    if (await policyService.isDomainBlocked(window.location.hostname)) {
+      logger.info('Stupify is blocked on this site by policy');
+      return;
+    }
+
     logger.info('Content script initializing...');
 
+    listenForReplacement();
+
     // Verify chrome.storage is available
     if (!isChromeStorageAvailable()) {
       logger.error('chrome.storage is not available. Extension may not work correctly.');
     }
 
+    contextBudget = await loadContextBudget();
+
+    // Set by the background just before an on-demand injection
+    const tracking: SelectionTracking =
+      globalThis[CONTENT_SCRIPT_TRACKING_GLOBAL] === 'on_demand' ? 'on_demand' : 'passive';
+
     // Create selection handler
     selectionHandler = new SelectionHandler({
       minLength: MIN_SELECTION_LENGTH,
       maxLength: MAX_SELECTION_LENGTH,
+      tracking,
       onSelectionChange: handleSelectionChange,
+      onSelectionClear: () => selectionBubble?.hide(),
     });
 
-    // Set up keyboard shortcut listener
-    setupKeyboardShortcut();
-
-    // Set up context menu message listener
+    // Set up background message listener
     setupMessageListener();
 
-    // Set up page visibility listener
-    setupVisibilityListener();
+    // External API for the page itself
+    bridgeTeardown = setupExternalBridge(ensureExtensionContext);
+
+    // Page hooks only where the user allowed passive tracking
+    // (the manifest command covers the shortcut everywhere)
+    if (tracking === 'passive') {
+      setupKeyboardShortcut();
+      setupVisibilityListener();
+      await setupSelectionBubble();
+    }
 
     logger.info('Content script initialized successfully');
   } catch (error) {
@@ -73,11 +220,49 @@ function init(): void {
   }
 }
 
+/**
+ * Page context budget from settings
+ */
+async function loadContextBudget(): Promise<number> {
+  try {
+    const { settings } = await chrome.storage.local.get('settings');
+    return getContextBudget(settings);
+  } catch {
+    return DEFAULT_CONTEXT_BUDGET;
+  }
+}
+
+function getContextBudget(settings: { contextBudget?: unknown } | undefined): number {
+  return typeof settings?.contextBudget === 'number' ? settings.contextBudget : DEFAULT_CONTEXT_BUDGET;
+}
+
+/**
+ * Current selection (Markdown when structured) with the page context around it
+ */
+function getCurrentSelection(): CurrentSelection {
+  const { range = null } = selectionHandler?.getSelectionDetails() || {};
+  const { text = '', format = 'text' } = selectionHandler?.getSelectedContent() || {};
+
+  if (!text || !range) {
+    return { text, format, context: null };
+  }
+
+  try {
+    return { text, format, context: captureSelectionContext(range, contextBudget) };
+  } catch (error) {
+    logger.error('Failed to capture selection context:', error);
+    return { text, format, context: null };
+  }
+}
+
 /**
  * Handle text selection changes
  */
 function handleSelectionChange(selectedText: string): void {
   try {
+    // A selection is the first thing users do after an update
+    if (!ensureExtensionContext()) return;
+
     // Validate selection length
     if (selectedText.length < MIN_SELECTION_LENGTH) {
       logger.debug('Selection too short, ignoring');
@@ -89,31 +274,109 @@ function handleSelectionChange(selectedText: string): void {
       selectedText = selectedText.substring(0, MAX_SELECTION_LENGTH);
     }
 
-    // Store current selection
-    if (isChromeStorageAvailable()) {
-      chrome.storage.local.set({
-        currentSelection: {
-          text: selectedText,
-          url: window.location.href,
-          domain: window.location.hostname,
-          timestamp: Date.now(),
-        },
-      }).catch((error) => {
-        logger.error('Failed to store selection:', error);
-      });
+    // Kept in memory only; the background reads it on demand
+    logger.debug('Selection changed:', {
+      length: selectedText.length,
+      domain: window.location.hostname,
+    });
 
-      logger.debug('Selection stored:', {
-        length: selectedText.length,
-        domain: window.location.hostname,
-      });
-    } else {
-      logger.warn('chrome.storage not available');
-    }
+    showSelectionBubble();
   } catch (error) {
     logger.error('Failed to handle selection change:', error);
   }
 }
 
+/**
+ * Load the bubble setting and the user's hidden sites / snooze, and keep them current
+ */
+async function setupSelectionBubble(): Promise<void> {
+  const [{ settings }, prefs] = await Promise.all([
+    chrome.storage.local.get('settings'),
+    getSelectionBubblePrefs(),
+  ]);
+
+  selectionBubbleEnabled = settings?.showSelectionBubble !== false;
+  selectionBubblePrefs = prefs;
+
+  storageListener = (changes, areaName) => {
+    if (areaName !== 'local') return;
+
+    if (changes.settings) {
+      selectionBubbleEnabled = changes.settings.newValue?.showSelectionBubble !== false;
+      contextBudget = getContextBudget(changes.settings.newValue);
+    }
+    if (changes.selectionBubble) {
+      selectionBubblePrefs = { hiddenSites: [], snoozedUntil: 0, ...changes.selectionBubble.newValue };
+    }
+    if (!selectionBubbleEnabled || isSelectionBubbleSuppressed(selectionBubblePrefs, window.location.hostname)) {
+      selectionBubble?.hide();
+    }
+  };
+
+  chrome.storage.onChanged.addListener(storageListener);
+}
+
+/**
+ * Offer the bubble for the current selection (not while the user is typing)
+ */
+function showSelectionBubble(): void {
+  if (!selectionBubbleEnabled || isSelectionBubbleSuppressed(selectionBubblePrefs, window.location.hostname)) {
+    return;
+  }
+
+  const details = selectionHandler?.getSelectionDetails();
+  if (!details?.range) return;
+
+  const container = details.range.commonAncestorContainer;
+  const element = container instanceof Element ? container : container.parentElement;
+
+  if (isEditableElement(document.activeElement) || (element instanceof HTMLElement && element.isContentEditable)) {
+    selectionBubble?.hide();
+    return;
+  }
+
+  selectionBubble = selectionBubble || new SelectionBubble({
+    onExplain: handleBubbleExplain,
+    onHideOnSite: () => {
+      hideSelectionBubbleOnSite(window.location.hostname).catch((error) => {
+        logger.error('Failed to hide selection bubble on this site:', error);
+      });
+      showNotification("Stupify won't offer to explain selections on this site.", 'info');
+    },
+    onSnooze: () => {
+      snoozeSelectionBubble(SELECTION_BUBBLE_SNOOZE).catch((error) => {
+        logger.error('Failed to snooze selection bubble:', error);
+      });
+    },
+    snoozeLabel: 'Snooze for 1 hour',
+  });
+
+  // Words and short phrases get a definition card instead of an explanation
+  selectionBubble.show(details.range, getSelectionMode(details.text) === 'define' ? 'Define' : 'Explain');
+}
+
+/**
+ * Explain the selection at the level picked in the bubble
+ */
+function handleBubbleExplain(complexity: ComplexityLevel): void {
+  if (!ensureExtensionContext()) return;
+
+  const { text, format, context } = getCurrentSelection();
+  if (!text) return;
+
+  sendToBackground({
+    type: 'OPEN_SIDE_PANEL',
+    payload: { text, trigger: 'selection_bubble', complexity, format, context: context || undefined },
+  }).catch((error) => {
+    if (isContextInvalidatedError(error)) {
+      handleContextInvalidated();
+      return;
+    }
+    logger.error('Failed to send message:', error);
+    showNotification('Failed to open side panel. Please try again.', 'error');
+  });
+}
+
 /**
  * Set up keyboard shortcut (Cmd+Shift+S / Ctrl+Shift+S)
  * ✅ FIX: Store handler reference for cleanup
@@ -144,45 +407,38 @@ function setupKeyboardShortcut(): void {
  */
 async function handleShortcutTrigger(): Promise<void> {
   try {
-    const selectedText = selectionHandler?.getSelectedText();
+    if (!ensureExtensionContext()) return;
+
+    const { text: selectedText, format, context } = getCurrentSelection();
 
-    if (!selectedText || selectedText.length < MIN_SELECTION_LENGTH) {
-      showNotification('Please select at least 10 characters', 'warning');
+    if (!selectedText || !getSelectionMode(selectedText)) {
+      showNotification('Please select a word or some text', 'warning');
       return;
     }
 
     // Send message to background to open side panel
-    if (typeof chrome !== 'undefined' && chrome.runtime) {
-      chrome.runtime.sendMessage({
-        type: 'OPEN_SIDE_PANEL',
-        payload: {
-          text: selectedText,
-          trigger: 'keyboard_shortcut',
-        },
-      }).catch((error) => {
-        logger.error('Failed to send message:', error);
-        showNotification('Failed to open side panel. Please try again.', 'error');
-      });
+    if (!ensureExtensionContext()) return;
+
+    sendToBackground({
+      type: 'OPEN_SIDE_PANEL',
+      payload: {
+        text: selectedText,
+        trigger: 'keyboard_shortcut',
+        format,
+        context: context || undefined,
+      },
+    }).catch((error) => {
+      if (isContextInvalidatedError(error)) {
+        handleContextInvalidated();
+        return;
+      }
+      logger.error('Failed to send message:', error);
+      showNotification('Failed to open side panel. Please try again.', 'error');
+    });
 
-      // Track analytics
-      chrome.runtime.sendMessage({
-        type: 'TRACK_EVENT',
-        payload: {
-          event: 'keyboard_shortcut_used',
-          properties: {
-            text_length: selectedText.length,
-            domain: window.location.hostname,
-          },
-        },
-      }).catch((error) => {
-        logger.debug('Failed to track event:', error);
-      });
+    // Analytics are tracked by the background once duplicates are collapsed
 
-      logger.info('Keyboard shortcut triggered');
-    } else {
-      logger.error('chrome.runtime not available');
-      showNotification('Extension not available', 'error');
-    }
+    logger.info('Keyboard shortcut triggered');
   } catch (error) {
     logger.error('Failed to handle keyboard shortcut:', error);
     showNotification('Something went wrong. Please try again.', 'error');
@@ -190,21 +446,53 @@ async function handleShortcutTrigger(): Promise<void> {
 }
 
 /**
- * Set up message listener for context menu clicks
+ * Set up message listener for background requests
  * ✅ FIX: Store handler reference for cleanup
  */
 function setupMessageListener(): void {
   if (typeof chrome !== 'undefined' && chrome.runtime) {
     messageListener = (message: ChromeMessage, sender, sendResponse) => {
       try {
-        if (message.type === 'CONTEXT_MENU_CLICKED') {
-          handleContextMenuClick();
+        if (message.type === 'PING_CONTENT_SCRIPT') {
           sendResponse({ success: true });
         }
 
         if (message.type === 'GET_CURRENT_SELECTION') {
-          const selectedText = selectionHandler?.getSelectedText() || '';
-          sendResponse({ text: selectedText });
+          sendResponse(getCurrentSelection());
+        }
+
+        if (message.type === 'GET_PAGE_CONTENT') {
+          sendResponse(getPageContent());
+        }
+
+        if (message.type === 'SHOW_FLOATING_PANEL') {
+          floatingPanel = floatingPanel || new FloatingPanel();
+          floatingPanel
+            .show()
+            .then(() => sendResponse({ success: true }))
+            .catch((error) => {
+              logger.error('Failed to show floating panel:', error);
+              sendResponse({ success: false });
+            });
+        }
+
+        if (message.type === 'SHOW_INLINE_CARD') {
+          showInlineCard(message.payload.text, message.payload.complexity, message.payload.mode, message.payload.format)
+            .then(() => sendResponse({ success: true }))
+            .catch((error) => {
+              logger.error('Failed to show inline card:', error);
+              sendResponse({ success: false });
+            });
+        }
+
+        if (message.type === 'SHOW_TOAST') {
+          // Only the visible page should show toasts
+          if (document.visibilityState !== 'visible') {
+            sendResponse({ success: false });
+          } else {
+            showNotification(message.payload.message, message.payload.type, message.payload.action);
+            sendResponse({ success: true });
+          }
         }
 
         return true;
@@ -223,60 +511,56 @@ function setupMessageListener(): void {
 }
 
 /**
- * Handle context menu click
+ * Show the inline card next to the current selection
  */
-async function handleContextMenuClick(): Promise<void> {
-  try {
-    if (!isChromeStorageAvailable()) {
-      logger.error('chrome.storage not available');
-      showNotification('Extension storage not available', 'error');
-      return;
-    }
-
-    const result = await chrome.storage.local.get('currentSelection');
-    const selection = result.currentSelection;
-
-    if (!selection || !selection.text) {
-      showNotification('No text selected', 'warning');
-      return;
-    }
-
-    // Send message to background
-    if (typeof chrome !== 'undefined' && chrome.runtime) {
-      chrome.runtime.sendMessage({
+async function showInlineCard(
+  text: string,
+  complexity: ComplexityLevel,
+  mode: SelectionMode,
+  format: SelectionFormat = 'text'
+): Promise<void> {
+  const { InlineCard } = await import('./InlineCard');
+
+  inlineCard = inlineCard || new InlineCard({
+    onOpenInSidePanel: (question, level, questionMode, request) => {
+      if (!ensureExtensionContext()) return;
+
+      // Same context and format as the card, so the panel gets its cached answer
+      sendToBackground({
         type: 'OPEN_SIDE_PANEL',
         payload: {
-          text: selection.text,
-          trigger: 'context_menu',
+          text: question,
+          trigger: 'inline_card',
+          complexity: level,
+          mode: questionMode,
+          surface: 'side_panel',
+          format: request.format,
+          context: request.context || undefined,
         },
       }).catch((error) => {
-        logger.error('Failed to send message:', error);
-        showNotification('Failed to open side panel. Please try again.', 'error');
+        logger.error('Failed to open side panel from inline card:', error);
       });
+    },
+  });
 
-      // Track analytics
-      chrome.runtime.sendMessage({
-        type: 'TRACK_EVENT',
-        payload: {
-          event: 'context_menu_clicked',
-          properties: {
-            text_length: selection.text.length,
-            domain: window.location.hostname,
-          },
-        },
-      }).catch((error) => {
-        logger.debug('Failed to track event:', error);
-      });
+  selectionBubble?.hide();
 
-      logger.info('Context menu click handled');
-    } else {
-      logger.error('chrome.runtime not available');
-      showNotification('Extension not available', 'error');
-    }
-  } catch (error) {
-    logger.error('Failed to handle context menu click:', error);
-    showNotification('Something went wrong. Please try again.', 'error');
-  }
+  const { text: selectedText, range } = selectionHandler?.getSelectionDetails() || {};
+  const context = selectedText && range ? getCurrentSelection().context : null;
+  inlineCard.show(text, complexity, mode, selectedText ? range || null : null, { context, format });
+}
+
+/**
+ * Get the readable text of the page (for "Summarize this page")
+ */
+function getPageContent(): { title: string; text: string } {
+  const root = document.querySelector<HTMLElement>('article, main') || document.body;
+  const text = (root?.innerText || '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, MAX_PAGE_CONTENT_LENGTH);
+
+  return { title: document.title, text };
 }
 
 /**
@@ -303,7 +587,12 @@ function setupVisibilityListener(): void {
  * Show in-page notification
  * ✅ FIX: Limit max notifications to prevent accumulation
  */
-function showNotification(message: string, type: 'success' | 'warning' | 'error'): void {
+function showNotification(
+  message: string,
+  type: NotificationType,
+  action?: NotificationAction,
+  duration?: number
+): HTMLElement {
   // Remove oldest if at limit
   if (activeNotifications.length >= MAX_NOTIFICATIONS) {
     const oldest = activeNotifications.shift();
@@ -320,6 +609,26 @@ function showNotification(message: string, type: 'success' | 'warning' | 'error'
   notification.setAttribute('data-type', type);
   notification.textContent = message;
 
+  // Action button (dispatched by the background)
+  if (action) {
+    const button = document.createElement('button');
+    button.className = 'stupify-notification-action';
+    button.textContent = action.text;
+    button.addEventListener('click', () => {
+      if (!ensureExtensionContext()) return;
+
+      sendToBackground({
+        type: 'NOTIFICATION_ACTION',
+        payload: { actionId: action.id },
+      }).catch((error) => {
+        logger.error('Failed to run notification action:', error);
+      });
+      notification.remove();
+      activeNotifications = activeNotifications.filter(n => n !== notification);
+    });
+    notification.appendChild(button);
+  }
+
   // Inject styles if not already present
   if (!document.getElementById('stupify-notification-styles')) {
     const style = document.createElement('style');
@@ -354,6 +663,22 @@ function showNotification(message: string, type: 'success' | 'warning' | 'error'
         color: white;
       }
 
+      .stupify-notification[data-type="info"] {
+        background: #8b5cf6;
+        color: white;
+      }
+
+      .stupify-notification-action {
+        margin-left: 12px;
+        padding: 4px 10px;
+        border: 1px solid rgba(255, 255, 255, 0.6);
+        border-radius: 6px;
+        background: rgba(255, 255, 255, 0.15);
+        color: white;
+        font: inherit;
+        cursor: pointer;
+      }
+
       @keyframes stupify-slide-in {
         from {
           transform: translateX(400px);
@@ -383,7 +708,7 @@ function showNotification(message: string, type: 'success' | 'warning' | 'error'
   document.body.appendChild(notification);
   activeNotifications.push(notification);
 
-  // Remove after 3 seconds
+  // Remove after 3 seconds (longer when there is an action to click)
   const timeoutId = setTimeout(() => {
     notification.style.animation = 'stupify-slide-out 0.3s ease-in';
     setTimeout(() => {
@@ -391,10 +716,12 @@ function showNotification(message: string, type: 'success' | 'warning' | 'error'
       // Remove from tracking
       activeNotifications = activeNotifications.filter(n => n !== notification);
     }, 300);
-  }, 3000);
+  }, duration ?? (action ? 8000 : 3000));
 
   // Store timeout for potential cleanup
   (notification as any).__timeoutId = timeoutId;
+
+  return notification;
 }
 
 /**
@@ -410,16 +737,39 @@ function cleanup(): void {
     keydownHandler = null;
   }
 
-  if (messageListener && chrome?.runtime?.onMessage) {
-    chrome.runtime.onMessage.removeListener(messageListener);
+  if (messageListener) {
+    try {
+      chrome.runtime?.onMessage?.removeListener(messageListener);
+    } catch {
+      // Context already invalidated
+    }
     messageListener = null;
   }
 
+  if (replacedHandler) {
+    document.removeEventListener(REPLACED_EVENT, replacedHandler);
+    replacedHandler = null;
+  }
+
   if (visibilityHandler) {
     document.removeEventListener('visibilitychange', visibilityHandler);
     visibilityHandler = null;
   }
 
+  if (bridgeTeardown) {
+    bridgeTeardown();
+    bridgeTeardown = null;
+  }
+
+  if (storageListener) {
+    try {
+      chrome.storage?.onChanged?.removeListener(storageListener);
+    } catch {
+      // Context already invalidated
+    }
+    storageListener = null;
+  }
+
   // Clear all notifications
   activeNotifications.forEach(notification => {
     const timeoutId = (notification as any).__timeoutId;
@@ -428,6 +778,24 @@ function cleanup(): void {
   });
   activeNotifications = [];
 
+  // Remove selection bubble
+  if (selectionBubble) {
+    selectionBubble.hide();
+    selectionBubble = null;
+  }
+
+  // Remove inline card (stops its stream)
+  if (inlineCard) {
+    inlineCard.hide();
+    inlineCard = null;
+  }
+
+  // Remove floating panel
+  if (floatingPanel) {
+    floatingPanel.hide();
+    floatingPanel = null;
+  }
+
   // Clean up selection handler
   if (selectionHandler) {
     selectionHandler.destroy();
@@ -448,4 +816,4 @@ if (document.readyState === 'loading') {
 window.addEventListener('beforeunload', cleanup);
 
 // Export for testing
-export { init, cleanup, handleSelectionChange, handleContextMenuClick };
\ No newline at end of file
+export { init, cleanup, handleSelectionChange };
\ No newline at end of file
@@ -0,0 +1,67 @@
+/**
+ * External API Bridge
+ *
+ * Relays external API requests from the page to the background
+ *
+ * Page → { source: 'stupify-page', id, request }
+ * Page ← { source: 'stupify-extension', id, response }
+ * The background decides access from this frame's origin, never from the message
+ *
+ * Installed by the content script, and on the partner origins listed in the
+ * manifest by an always-on script (partnerBridge.ts) so partner pages don't
+ * need the user to allow the site first. Both run in the same isolated world;
+ * the latest bridge replaces the one before it so each request is answered once.
+ */
+
+import {
+  EXTERNAL_API_VERSION,
+  EXTERNAL_BRIDGE_EXTENSION_SOURCE,
+  EXTERNAL_BRIDGE_GLOBAL,
+  EXTERNAL_BRIDGE_PAGE_SOURCE,
+} from '@/shared/constants';
+import { sendToBackground } from '@/shared/messaging';
+
+/**
+ * Start answering the page; returns the teardown, or null if this frame
+ * can't be answered (isConnected is checked before each request)
+ */
+export function setupExternalBridge(isConnected: () => boolean): (() => void) | null {
+  const targetOrigin = window.location.origin;
+  // Opaque origins (sandboxed frames, data: URLs) can't be answered safely
+  if (targetOrigin === 'null') return null;
+
+  const handler = (event: MessageEvent) => {
+    if (event.source !== window || event.data?.source !== EXTERNAL_BRIDGE_PAGE_SOURCE) return;
+
+    const { id, request } = event.data;
+    if (!isConnected()) return;
+
+    sendToBackground({ type: 'EXTERNAL_API_REQUEST', payload: request })
+      .catch((error) => ({
+        success: false as const,
+        error: { code: error?.code || 'HANDLER_FAILED', message: error?.message || 'Request failed' },
+      }))
+      .then((response) => {
+        window.postMessage({ source: EXTERNAL_BRIDGE_EXTENSION_SOURCE, id, response }, targetOrigin);
+      });
+  };
+
+  const teardown = () => {
+    window.removeEventListener('message', handler);
+    if (globalThis[EXTERNAL_BRIDGE_GLOBAL] === teardown) {
+      globalThis[EXTERNAL_BRIDGE_GLOBAL] = undefined;
+    }
+  };
+
+  globalThis[EXTERNAL_BRIDGE_GLOBAL]?.();
+  globalThis[EXTERNAL_BRIDGE_GLOBAL] = teardown;
+  window.addEventListener('message', handler);
+
+  // Let pages that loaded first know the bridge is there
+  window.postMessage(
+    { source: EXTERNAL_BRIDGE_EXTENSION_SOURCE, type: 'ready', version: EXTERNAL_API_VERSION },
+    targetOrigin
+  );
+
+  return teardown;
+}
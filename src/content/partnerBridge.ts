@@ -0,0 +1,26 @@
+/**
+ * Partner Bridge - Content Script
+ *
+ * Declared in the manifest for the partner origins we allow-list (the same
+ * ones as externally_connectable), so their "Explain with Stupify" buttons
+ * work without page access. Only the external API bridge runs here; other
+ * sites get the bridge with the full content script once the user allows
+ * them under Settings → Page Access.
+ */
+
+import { logger } from '@/shared/utils';
+import { policyService } from '@/services/policy';
+import { setupExternalBridge } from './externalBridge';
+
+async function init(): Promise<void> {
+  // Managed policy can turn Stupify off on this site
+  if (await policyService.isDomainBlocked(window.location.hostname)) {
+    return;
+  }
+
+  setupExternalBridge(() => !!chrome.runtime?.id);
+}
+
+init().catch((error) => {
+  logger.error('Failed to start the partner bridge:', error);
+});
@@ -0,0 +1,115 @@
+/**
+ * Selection Context - What the page says around a selection
+ *
+ * Captures, within a character budget:
+ * - The enclosing paragraph (or list item, table cell, quote)
+ * - The nearest heading chain ("Guide › Installing › Linux")
+ * - Page title, meta description and language
+ *
+ * Sent with the question so "it" or "this protocol" is explained in terms
+ * of the actual article.
+ */
+
+import type { SelectionContext } from "@/shared/types";
+
+// Closest ancestors that hold a self-contained piece of text
+const BLOCK_SELECTOR = 'p, li, dd, dt, blockquote, td, th, figcaption, pre, article, section';
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+// Share of the budget the paragraph may take (headings and title matter more per character)
+const PARAGRAPH_SHARE = 0.6;
+const MAX_HEADING_LENGTH = 120;
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Capture the context of a selection (null when the budget is 0)
+ */
+export function captureSelectionContext(range: Range, budget: number): SelectionContext | null {
+  if (budget <= 0) return null;
+
+  let remaining = budget;
+  const take = (text: string, max: number = remaining): string => {
+    const clipped = clip(text, Math.min(max, remaining));
+    remaining -= clipped.length;
+    return clipped;
+  };
+
+  const paragraph = take(getEnclosingText(range), Math.floor(budget * PARAGRAPH_SHARE));
+
+  const headings: string[] = [];
+  for (const heading of getHeadingChain(range)) {
+    const text = take(heading, MAX_HEADING_LENGTH);
+    if (!text) break;
+    headings.push(text);
+  }
+
+  const title = take(document.title, MAX_TITLE_LENGTH);
+  const description = take(getMetaDescription());
+
+  return {
+    paragraph,
+    headings,
+    title,
+    description,
+    language: document.documentElement.lang || '',
+  };
+}
+
+/**
+ * Text of the closest block around the selection
+ */
+function getEnclosingText(range: Range): string {
+  const container = range.commonAncestorContainer;
+  const element = container instanceof Element ? container : container.parentElement;
+  const block = element?.closest<HTMLElement>(BLOCK_SELECTOR) || element;
+
+  return normalize(block instanceof HTMLElement ? block.innerText : block?.textContent || '');
+}
+
+/**
+ * Headings above the selection, keeping only each level's nearest one
+ * (outermost first)
+ */
+function getHeadingChain(range: Range): string[] {
+  const chain: { level: number; text: string }[] = [];
+  const start = range.startContainer;
+
+  for (const heading of Array.from(document.querySelectorAll<HTMLElement>(HEADING_SELECTOR))) {
+    // Headings come in document order; stop at the first one after the selection
+    if (!(heading.compareDocumentPosition(start) & Node.DOCUMENT_POSITION_FOLLOWING)) break;
+
+    const text = normalize(heading.innerText);
+    if (!text) continue;
+
+    const level = Number(heading.tagName.charAt(1));
+    while (chain.length > 0 && chain[chain.length - 1].level >= level) {
+      chain.pop();
+    }
+    chain.push({ level, text });
+  }
+
+  return chain.map((heading) => heading.text);
+}
+
+function getMetaDescription(): string {
+  const meta = document.querySelector<HTMLMetaElement>(
+    'meta[name="description"], meta[property="og:description"]'
+  );
+  return normalize(meta?.content || '');
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Cut to a length, on a word boundary when there is one nearby
+ */
+function clip(text: string, max: number): string {
+  if (max <= 0) return '';
+  if (text.length <= max) return text;
+
+  const cut = text.slice(0, max - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > max * 0.8 ? cut.slice(0, lastSpace) : cut}…`;
+}
@@ -0,0 +1,110 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { rangeToMarkdown } from './selectionMarkdown';
+
+/**
+ * Range over everything inside the element matching a selector
+ */
+function selectContents(html: string, selector = 'body'): Range {
+  document.body.innerHTML = html;
+  const range = document.createRange();
+  range.selectNodeContents(document.querySelector(selector)!);
+  return range;
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('rangeToMarkdown', () => {
+  it('returns null for plain prose', () => {
+    const range = selectContents('<p>Just a <strong>plain</strong> sentence.</p>');
+
+    expect(rangeToMarkdown(range)).toBeNull();
+  });
+
+  it('turns a table into a pipe table with a header row', () => {
+    const range = selectContents(`
+      <table>
+        <tr><th>Name</th><th>Value</th></tr>
+        <tr><td>a|b</td><td>1</td></tr>
+        <tr><td>c</td></tr>
+      </table>
+    `);
+
+    expect(rangeToMarkdown(range)).toBe(
+      ['| Name | Value |', '| --- | --- |', '| a\\|b | 1 |', '| c |  |'].join('\n')
+    );
+  });
+
+  it('keeps the table around rows selected on their own', () => {
+    const range = selectContents(
+      '<table><tbody><tr><td>x</td><td>y</td></tr><tr><td>1</td><td>2</td></tr></tbody></table>',
+      'tbody'
+    );
+
+    expect(rangeToMarkdown(range)).toBe(['| x | y |', '| --- | --- |', '| 1 | 2 |'].join('\n'));
+  });
+
+  it('treats a selection inside one cell as plain text', () => {
+    const range = selectContents('<table><tr><td id="cell">only <b>this</b></td></tr></table>', '#cell');
+
+    expect(rangeToMarkdown(range)).toBeNull();
+  });
+
+  it('indents nested lists under their item', () => {
+    const range = selectContents(`
+      <ul>
+        <li>Fruit
+          <ol start="3"><li>Apple</li><li>Pear</li></ol>
+        </li>
+        <li>Bread</li>
+      </ul>
+    `);
+
+    expect(rangeToMarkdown(range)).toBe(['- Fruit', '  3. Apple', '  4. Pear', '- Bread'].join('\n'));
+  });
+
+  it('keeps the list around items selected on their own', () => {
+    const range = selectContents('<ol start="2"><li>Two</li><li>Three</li></ol>', 'ol');
+
+    expect(rangeToMarkdown(range)).toBe(['2. Two', '3. Three'].join('\n'));
+  });
+
+  it('fences code blocks with their language', () => {
+    const range = selectContents(
+      '<pre><code class="language-ts">const a = 1;\n  return a;\n</code></pre>'
+    );
+
+    expect(rangeToMarkdown(range)).toBe(['```ts', 'const a = 1;', '  return a;', '```'].join('\n'));
+  });
+
+  it('uses a longer fence when the code contains backticks', () => {
+    const range = selectContents('<p>Run <code>a `b` c</code> now</p>');
+
+    expect(rangeToMarkdown(range)).toBe('Run ``a `b` c`` now');
+  });
+
+  it('keeps web and mail link targets and drops script links', () => {
+    const range = selectContents(`
+      <p>
+        <a href="https://example.com/docs">the docs</a>,
+        <a href="mailto:help@example.com">mail us</a> or
+        <a href="javascript:void(0)">click</a>
+      </p>
+    `);
+
+    expect(rangeToMarkdown(range)).toBe(
+      '[the docs](https://example.com/docs), [mail us](mailto:help@example.com) or click'
+    );
+  });
+
+  it('writes headings, quotes and emphasis', () => {
+    const range = selectContents(`
+      <h2>Setup</h2>
+      <blockquote><p>Read <em>carefully</em></p></blockquote>
+    `);
+
+    expect(rangeToMarkdown(range)).toBe(['## Setup', '', '> Read _carefully_'].join('\n'));
+  });
+});
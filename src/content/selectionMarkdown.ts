@@ -0,0 +1,252 @@
+/**
+ * Selection Markdown - Structure-preserving capture of a selection
+ *
+ * selection.toString() turns tables into word soup, drops list bullets and
+ * code indentation. This clones the selected DOM and converts it locally:
+ * - Tables → pipe tables
+ * - Lists → Markdown lists (nesting kept)
+ * - pre / code → fenced blocks and inline code
+ * - Links keep their URLs; headings, quotes and emphasis are kept too
+ */
+
+// Selections with none of these are sent as plain text
+const STRUCTURE_SELECTOR = 'table, ul, ol, pre, code, a[href], h1, h2, h3, h4, h5, h6, blockquote';
+
+// Ancestors that give meaning to a partial selection inside them
+// (rows without their table, items without their list, lines without their pre)
+const STRUCTURAL_ROOTS = 'pre, table, ul, ol';
+// A selection within one cell or item is just text
+const TEXT_CONTAINERS = 'td, th, li';
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'MAIN', 'ASIDE', 'NAV',
+  'FIGURE', 'FIGCAPTION', 'DL', 'DT', 'DD', 'DETAILS', 'SUMMARY', 'ADDRESS',
+]);
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA']);
+
+/**
+ * Markdown for a selection, or null when it has no structure worth keeping
+ */
+export function rangeToMarkdown(range: Range): string | null {
+  const root = cloneWithStructure(range);
+  if (!hasStructure(root)) return null;
+
+  // A re-wrapped selection is rendered as its table / list / pre, not just its contents
+  const markdown = (root instanceof Element ? renderNode(root) : renderChildren(root))
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return markdown || null;
+}
+
+/**
+ * Clone the selected nodes, re-wrapped in the nearest table / list / pre they
+ * came from (the cloned fragment alone loses those ancestors)
+ */
+function cloneWithStructure(range: Range): Node {
+  const fragment = range.cloneContents();
+  const container = range.commonAncestorContainer;
+
+  const chain: Element[] = [];
+  let element: Element | null = container instanceof Element ? container : container.parentElement;
+
+  while (element && element !== document.body) {
+    chain.push(element);
+
+    if (element.matches(STRUCTURAL_ROOTS)) {
+      return chain.reduce<Node>((inner, ancestor) => {
+        const shell = ancestor.cloneNode(false);
+        shell.appendChild(inner);
+        return shell;
+      }, fragment);
+    }
+
+    if (element.matches(TEXT_CONTAINERS)) break;
+
+    element = element.parentElement;
+  }
+
+  return fragment;
+}
+
+function hasStructure(root: Node): boolean {
+  if (root instanceof Element && root.matches(STRUCTURE_SELECTOR)) return true;
+  return (root as Element | DocumentFragment).querySelector?.(STRUCTURE_SELECTOR) != null;
+}
+
+function renderChildren(node: Node): string {
+  return Array.from(node.childNodes).map(renderNode).join('');
+}
+
+function renderNode(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+
+  if (!(node instanceof Element)) return '';
+
+  const tag = node.tagName.toUpperCase();
+  if (SKIPPED_TAGS.has(tag)) return '';
+
+  if (/^H[1-6]$/.test(tag)) {
+    return block(`${'#'.repeat(Number(tag.charAt(1)))} ${renderChildren(node).trim()}`);
+  }
+
+  if (BLOCK_TAGS.has(tag)) {
+    return block(renderChildren(node).trim());
+  }
+
+  switch (tag) {
+    case 'BR':
+      return '\n';
+    case 'HR':
+      return block('---');
+    case 'PRE':
+      return renderCodeBlock(node);
+    case 'CODE':
+      return renderInlineCode(node.textContent || '');
+    case 'A':
+      return renderLink(node as HTMLAnchorElement);
+    case 'IMG':
+      return renderImage(node as HTMLImageElement);
+    case 'STRONG':
+    case 'B':
+      return wrapInline(renderChildren(node), '**');
+    case 'EM':
+    case 'I':
+      return wrapInline(renderChildren(node), '_');
+    case 'BLOCKQUOTE':
+      return block(
+        renderChildren(node)
+          .trim()
+          .split('\n')
+          .map((line) => `> ${line}`.trimEnd())
+          .join('\n')
+      );
+    case 'UL':
+    case 'OL':
+      return block(renderList(node));
+    case 'LI':
+      // Item whose list wasn't selected
+      return block(`- ${renderChildren(node).trim()}`);
+    case 'TABLE':
+      return block(renderTable(node));
+    default:
+      return renderChildren(node);
+  }
+}
+
+function block(content: string): string {
+  return content ? `\n\n${content}\n\n` : '';
+}
+
+/**
+ * Items with their markers; continuation lines (and nested lists) are
+ * indented under the marker so nesting survives
+ */
+function renderList(list: Element): string {
+  const ordered = list.tagName.toUpperCase() === 'OL';
+  let number = Number(list.getAttribute('start')) || 1;
+
+  return Array.from(list.children)
+    .filter((child) => child.tagName.toUpperCase() === 'LI')
+    .map((item) => {
+      const marker = ordered ? `${number++}.` : '-';
+      const indent = ' '.repeat(marker.length + 1);
+      const [first = '', ...rest] = renderChildren(item)
+        .trim()
+        .replace(/\n{2,}/g, '\n')
+        .split('\n');
+
+      return [`${marker} ${first}`, ...rest.map((line) => (line ? indent + line : line))].join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Pipe table; the first row is the header
+ */
+function renderTable(table: Element): string {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter((row) => row.closest('table') === table)
+    .map((row) =>
+      Array.from(row.children)
+        .filter((cell) => cell.tagName.toUpperCase() === 'TD' || cell.tagName.toUpperCase() === 'TH')
+        .map((cell) => renderChildren(cell).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|'))
+    )
+    .filter((cells) => cells.length > 0);
+
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map((cells) => cells.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return [line(header), line(Array(columns).fill('---')), ...body.map(line)].join('\n');
+}
+
+/**
+ * Fenced block with the language from class="language-x" (or lang-x) when set
+ */
+function renderCodeBlock(pre: Element): string {
+  const code = (pre.textContent || '').replace(/\n$/, '');
+  const classes = `${pre.className} ${pre.querySelector('code')?.className || ''}`;
+  const language = classes.match(/(?:^|\s)(?:language|lang)-([\w+#-]+)/)?.[1] || '';
+  const fence = '`'.repeat(Math.max(3, longestRun(code, '`') + 1));
+
+  return block(`${fence}${language}\n${code}\n${fence}`);
+}
+
+function renderInlineCode(text: string): string {
+  const code = text.replace(/\s+/g, ' ');
+  if (!code.trim()) return code;
+
+  const fence = '`'.repeat(longestRun(code, '`') + 1);
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+/**
+ * [text](url) for web and mail links; anything else keeps just its text
+ */
+function renderLink(link: HTMLAnchorElement): string {
+  const text = renderChildren(link).trim();
+  const href = link.getAttribute('href') ? link.href : '';
+
+  if (!text) return '';
+  if (!/^(https?|mailto):/i.test(href) || href === text) return text;
+
+  return `[${text}](${href})`;
+}
+
+function renderImage(image: HTMLImageElement): string {
+  const alt = image.alt.trim();
+  return alt && /^https?:/i.test(image.src) ? `![${alt}](${image.src})` : alt;
+}
+
+/**
+ * **bold** / _italic_, keeping the spaces around it outside the markers
+ */
+function wrapInline(content: string, marker: string): string {
+  const text = content.trim();
+  if (!text) return content;
+
+  const leading = content.match(/^\s*/)?.[0] || '';
+  const trailing = content.match(/\s*$/)?.[0] || '';
+  return `${leading}${marker}${text}${marker}${trailing}`;
+}
+
+function longestRun(text: string, char: string): number {
+  let longest = 0;
+  let current = 0;
+
+  for (const c of text) {
+    current = c === char ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+
+  return longest;
+}
@@ -0,0 +1,81 @@
+/**
+ * External Access Prompt
+ *
+ * Popup window the background opens the first time a partner page or
+ * another extension calls the external API
+ * - Shows who is asking and what they can do
+ * - Sends the decision back and closes (closing the window means "not now")
+ */
+
+import { useState } from 'react';
+import { ShieldQuestion } from 'lucide-react';
+import { sendToBackground } from '@/shared/messaging';
+import { logger } from '@/shared/utils';
+
+const EXTENSION_CALLER_PREFIX = 'extension:';
+
+export function ExternalAccessPrompt() {
+  const params = new URLSearchParams(window.location.search);
+  const promptId = params.get('promptId') || '';
+  const caller = params.get('caller') || '';
+
+  const [isSending, setIsSending] = useState(false);
+
+  const isExtension = caller.startsWith(EXTENSION_CALLER_PREFIX);
+  const callerLabel = isExtension
+    ? `Extension ${caller.slice(EXTENSION_CALLER_PREFIX.length)}`
+    : caller;
+
+  const decide = async (allowed: boolean) => {
+    setIsSending(true);
+
+    try {
+      await sendToBackground({
+        type: 'EXTERNAL_ACCESS_DECISION',
+        payload: { promptId, caller, allowed },
+      });
+    } catch (error) {
+      logger.error('Failed to send access decision:', error);
+    } finally {
+      window.close();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white p-6 flex flex-col">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-full bg-purple-100 flex items-center justify-center text-purple-600">
+          <ShieldQuestion className="w-5 h-5" />
+        </div>
+        <h1 className="text-lg font-semibold text-gray-900">Allow access to Stupify?</h1>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-2">
+        <span className="font-mono font-medium text-gray-900 break-all">{callerLabel}</span>{' '}
+        wants to:
+      </p>
+      <ul className="text-sm text-gray-600 list-disc pl-5 space-y-1 mb-4">
+        <li>Ask Stupify to explain text (uses your daily questions)</li>
+        <li>Open the Stupify panel</li>
+      </ul>
+      <p className="text-xs text-gray-400 mb-6">You can change this later in Settings.</p>
+
+      <div className="mt-auto flex justify-end gap-2">
+        <button
+          onClick={() => decide(false)}
+          disabled={isSending || !caller}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+        >
+          Don't allow
+        </button>
+        <button
+          onClick={() => decide(true)}
+          disabled={isSending || !caller}
+          className="px-4 py-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-lg"
+        >
+          Allow
+        </button>
+      </div>
+    </div>
+  );
+}
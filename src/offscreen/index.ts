@@ -0,0 +1,123 @@
+/**
+ * Offscreen Document
+ *
+ * Hosts work the service worker can't do itself (no DOM, no window)
+ * - Offline sync runner (one copy instead of one per extension page)
+ * - HTML parsing with DOMParser
+ * - Audio playback
+ * - Clipboard writes (keyboard commands have no page to copy from)
+ *
+ * Created and closed on demand by background/offscreen.ts. Offscreen
+ * documents only get chrome.runtime, so services that need chrome.storage,
+ * chrome.action or the page they measure (rate limiter, cache,
+ * performance monitor) stay where they are.
+ */
+
+import type {
+  OffscreenJob,
+  OffscreenJobResultMap,
+  OffscreenMessage,
+  ParsedHtml,
+  RpcResponse,
+} from '@/shared/types';
+import { syncRunner } from './syncRunner';
+
+// Default cap on parsed text (matches the content script's page content)
+const DEFAULT_PARSE_LENGTH = 6000;
+
+/**
+ * Run a job and resolve with its result
+ */
+async function runJob(job: OffscreenJob): Promise<OffscreenJobResultMap[OffscreenJob['type']]> {
+  switch (job.type) {
+    case 'RUN_SYNC':
+      return syncRunner.syncNow();
+    case 'PARSE_HTML':
+      return parseHtml(job.html, job.maxLength);
+    case 'PLAY_AUDIO':
+      return playAudio(job.url, job.volume);
+    case 'COPY_TEXT':
+      return copyText(job.text);
+  }
+}
+
+/**
+ * Extract the title and readable text from an HTML string
+ */
+function parseHtml(html: string, maxLength = DEFAULT_PARSE_LENGTH): ParsedHtml {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  doc.querySelectorAll('script, style, noscript, template, svg, nav, footer').forEach((el) => el.remove());
+
+  const root = doc.querySelector('article') || doc.querySelector('main') || doc.body;
+  const text = (root?.textContent || '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, maxLength);
+
+  return {
+    title: doc.title.trim(),
+    text,
+  };
+}
+
+/**
+ * Play a sound and resolve when it finishes
+ */
+function playAudio(url: string, volume = 1): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const audio = new Audio(url);
+    audio.volume = Math.min(Math.max(volume, 0), 1);
+    audio.addEventListener('ended', () => resolve(), { once: true });
+    audio.addEventListener('error', () => reject(new Error(`Failed to play ${url}`)), { once: true });
+    audio.play().catch(reject);
+  });
+}
+
+/**
+ * Copy text to the clipboard
+ * (navigator.clipboard needs a focused document; offscreen documents never are)
+ */
+function copyText(text: string): void {
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  document.body.appendChild(textarea);
+  textarea.select();
+
+  try {
+    if (!document.execCommand('copy')) {
+      throw new Error('Copy command was rejected');
+    }
+  } finally {
+    textarea.remove();
+  }
+}
+
+function isOffscreenMessage(message: unknown): message is OffscreenMessage {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as OffscreenMessage).target === 'offscreen'
+  );
+}
+
+/**
+ * Handle jobs from the background (ignore everything else)
+ */
+chrome.runtime.onMessage.addListener((message: unknown, sender, sendResponse) => {
+  if (!isOffscreenMessage(message) || sender.id !== chrome.runtime.id) {
+    return false;
+  }
+
+  runJob(message.job)
+    .then((data) => sendResponse({ success: true, data } satisfies RpcResponse<unknown>))
+    .catch((error) => {
+      console.error(`❌ Offscreen job ${message.job.type} failed:`, error);
+      sendResponse({
+        success: false,
+        error: { code: 'HANDLER_FAILED', message: error?.message || 'Job failed' },
+      } satisfies RpcResponse<unknown>);
+    });
+
+  return true;
+});
@@ -0,0 +1,238 @@
+/**
+ * Sync Runner
+ *
+ * The one copy of the offline sync, hosted in the offscreen document
+ * - Replays queued requests with retry delays
+ * - Forwards offline analytics to the background pipeline
+ * - Reports status to the background, which mirrors it for extension pages
+ */
+
+import { offlineStorage } from '@/services/offlineStorage';
+import { analyticsService } from '@/services/analytics';
+import { sendToBackground } from '@/shared/messaging';
+import type { SyncResult, SyncStatus } from '@/shared/types';
+
+// Retry Configuration
+const MAX_RETRIES = 3;
+const RETRY_DELAYS = [1000, 5000, 15000]; // 1s, 5s, 15s
+
+/**
+ * Sync Runner
+ */
+class SyncRunner {
+  private isSyncing: boolean = false;
+
+  /**
+   * Sync immediately
+   */
+  async syncNow(): Promise<SyncResult> {
+    if (this.isSyncing) {
+      console.log('⏳ Sync already in progress');
+      return { success: 0, failed: 0, errors: [] };
+    }
+
+    if (!navigator.onLine) {
+      console.log('📡 Still offline, skipping sync');
+      return { success: 0, failed: 0, errors: [] };
+    }
+
+    this.isSyncing = true;
+    this.reportStatus({ status: 'syncing', progress: 0 });
+
+    try {
+      const result: SyncResult = {
+        success: 0,
+        failed: 0,
+        errors: [],
+      };
+
+      // 1. Sync queued requests
+      const requestResult = await this.syncQueuedRequests();
+      result.success += requestResult.success;
+      result.failed += requestResult.failed;
+      result.errors.push(...requestResult.errors);
+
+      // 2. Sync offline analytics
+      const analyticsResult = await this.syncOfflineAnalytics();
+      result.success += analyticsResult.success;
+      result.failed += analyticsResult.failed;
+
+      // Log results
+      if (result.success > 0) {
+        console.log(`✅ Sync complete: ${result.success} items synced`);
+        this.reportStatus({ status: 'success', synced: result.success });
+      }
+
+      if (result.failed > 0) {
+        console.warn(`⚠️ Sync partial: ${result.failed} items failed`);
+        this.reportStatus({ status: 'partial', synced: result.success, failed: result.failed });
+        this.showSyncFailed(result.failed);
+      }
+
+      if (result.success === 0 && result.failed === 0) {
+        console.log('✨ Nothing to sync');
+        this.reportStatus({ status: 'idle' });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('❌ Sync failed:', error);
+      this.reportStatus({ status: 'error', error: String(error) });
+      return { success: 0, failed: 0, errors: [] };
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  /**
+   * Offer to retry when items fail to sync
+   */
+  private showSyncFailed(failed: number): void {
+    sendToBackground({
+      type: 'SHOW_NOTIFICATION',
+      payload: {
+        kind: 'sync_failed',
+        type: 'warning',
+        message: `${failed} offline ${failed === 1 ? 'item' : 'items'} failed to sync.`,
+        action: {
+          id: 'retry_sync',
+          text: 'Retry',
+        },
+      },
+    }).catch(() => {
+      // Ignore errors
+    });
+  }
+
+  /**
+   * Sync queued requests
+   */
+  private async syncQueuedRequests(): Promise<SyncResult> {
+    const result: SyncResult = { success: 0, failed: 0, errors: [] };
+
+    try {
+      const queue = await offlineStorage.getQueuedRequests();
+
+      if (queue.length === 0) {
+        return result;
+      }
+
+      console.log(`📤 Syncing ${queue.length} queued requests...`);
+
+      for (const request of queue) {
+        try {
+          // Skip if too many retries
+          if (request.retries >= MAX_RETRIES) {
+            console.warn(`⚠️ Max retries reached for ${request.id}, removing from queue`);
+            await offlineStorage.removeFromQueue(request.id);
+            result.failed++;
+            result.errors.push({ id: request.id, error: 'Max retries exceeded' });
+            continue;
+          }
+
+          // Wait based on retry count
+          if (request.retries > 0) {
+            const delay = RETRY_DELAYS[request.retries - 1] || RETRY_DELAYS[RETRY_DELAYS.length - 1];
+            await this.sleep(delay);
+          }
+
+          // Retry request
+          const response = await fetch(request.url, {
+            method: request.method,
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: request.body ? JSON.stringify(request.body) : undefined,
+          });
+
+          if (response.ok) {
+            // Success - remove from queue
+            await offlineStorage.removeFromQueue(request.id);
+            result.success++;
+            console.log(`✅ Synced request: ${request.type}`);
+          } else {
+            // Failed - increment retry count
+            await offlineStorage.updateRetryCount(request.id);
+            result.failed++;
+            result.errors.push({ id: request.id, error: `HTTP ${response.status}` });
+            console.warn(`⚠️ Retry failed for ${request.id}: ${response.status}`);
+          }
+        } catch (error) {
+          // Network error - increment retry count
+          await offlineStorage.updateRetryCount(request.id);
+          result.failed++;
+          result.errors.push({ id: request.id, error: String(error) });
+          console.error(`❌ Sync error for ${request.id}:`, error);
+        }
+      }
+
+      return result;
+    } catch (error) {
+      console.error('❌ Failed to sync queued requests:', error);
+      return result;
+    }
+  }
+
+  /**
+   * Sync offline analytics
+   */
+  private async syncOfflineAnalytics(): Promise<SyncResult> {
+    const result: SyncResult = { success: 0, failed: 0, errors: [] };
+
+    try {
+      const analytics = await offlineStorage.getOfflineAnalytics();
+
+      if (analytics.length === 0) {
+        return result;
+      }
+
+      console.log(`📊 Syncing ${analytics.length} offline analytics...`);
+
+      // Send analytics in batches
+      for (const analytic of analytics) {
+        try {
+          await analyticsService.track(analytic.event, {
+            ...analytic.properties,
+            offline_tracked: true,
+            original_timestamp: analytic.timestamp,
+          });
+
+          result.success++;
+        } catch (error) {
+          result.failed++;
+          console.error('❌ Failed to sync analytic:', error);
+        }
+      }
+
+      // Clear synced analytics
+      if (result.success > 0) {
+        await offlineStorage.clearOfflineAnalytics();
+        console.log(`✅ Synced ${result.success} analytics events`);
+      }
+
+      return result;
+    } catch (error) {
+      console.error('❌ Failed to sync offline analytics:', error);
+      return result;
+    }
+  }
+
+  /**
+   * Mirror status to extension pages through the background
+   */
+  private reportStatus(status: SyncStatus): void {
+    sendToBackground({ type: 'SYNC_STATUS_CHANGED', payload: status }).catch(() => {
+      // Ignore errors
+    });
+  }
+
+  /**
+   * Sleep utility
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+// Export singleton
+export const syncRunner = new SyncRunner();
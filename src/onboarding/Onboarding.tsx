@@ -10,6 +10,7 @@
 
 import React, { useState } from 'react';
 import { Check, Sparkles, Zap, Target, MousePointer2, MessageSquare, Trophy, X } from 'lucide-react';
+import { sendToBackground } from '@/shared/messaging';
 
 export const Onboarding: React.FC = () => {
   const [step, setStep] = useState(0);
@@ -43,9 +44,9 @@ export const Onboarding: React.FC = () => {
           icon: '⌨️',
         },
         {
-          method: 'Toolbar',
-          steps: ['1. Click the extension icon', '2. Type your question', '3. Hit enter'],
-          icon: '🔧',
+          method: 'Address Bar',
+          steps: ['1. Type "stupify" and a space', '2. Type your question', '3. Hit enter'],
+          icon: '🔍',
         },
       ],
     },
@@ -95,13 +96,13 @@ export const Onboarding: React.FC = () => {
     });
     
     // Track completion
-    chrome.runtime.sendMessage({
+    sendToBackground({
       type: 'TRACK_EVENT',
       payload: {
         event: 'onboarding_completed',
         properties: { steps_completed: step + 1 },
       },
-    });
+    }).catch(() => {});
 
     // Close the tab
     chrome.tabs.getCurrent((tab) => {
@@ -113,13 +114,13 @@ export const Onboarding: React.FC = () => {
 
   const handleSkip = async () => {
     // Track skip
-    chrome.runtime.sendMessage({
+    sendToBackground({
       type: 'TRACK_EVENT',
       payload: {
         event: 'onboarding_skipped',
         properties: { at_step: step },
       },
-    });
+    }).catch(() => {});
 
     await chrome.storage.local.set({ 
       onboarding: {
@@ -8,7 +8,9 @@
  * - Retry logic
  */
 
-const API_BASE_URL = process.env.VITE_API_URL || 'https://stupify.app';
+import { policyService } from './policy';
+import { connectivity } from './connectivity';
+
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
@@ -151,6 +153,16 @@ class ApiClient {
     return this.refreshPromise;
   }
 
+  /**
+   * Force a token refresh (used by the background REFRESH_TOKEN handler)
+   */
+  async refreshSession(): Promise<void> {
+    if (!this.refreshToken) {
+      await this.loadTokens();
+    }
+    await this.refreshAccessToken();
+  }
+
   /**
    * Make authenticated request with retry logic
    */
@@ -186,15 +198,27 @@ class ApiClient {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-        // Make request
-        const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        // Make request (managed policy can pin the endpoint)
+        const apiBaseUrl = await policyService.getApiBaseUrl();
+        const startedAt = Date.now();
+        const response = await fetch(`${apiBaseUrl}${endpoint}`, {
           ...fetchConfig,
           headers,
           signal: controller.signal,
+        }).catch((error) => {
+          connectivity.reportRequest({ ok: false, networkError: true });
+          throw error;
         });
 
         clearTimeout(timeoutId);
 
+        // Real requests double as connectivity checks (4xx still means we reached the API)
+        connectivity.reportRequest({
+          ok: response.status < 500,
+          status: response.status,
+          durationMs: Date.now() - startedAt,
+        });
+
         // Handle 401 - token expired
         if (response.status === 401 && requiresAuth && attempt < retries - 1) {
           console.log('🔄 Token expired, refreshing...');
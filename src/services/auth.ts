@@ -8,11 +8,16 @@
  * - Sync with web app
  * - ✅ Auto-cleanup to prevent memory leaks
  * 
- * FIXED: Now properly cleans up all listeners
+ * FIXED: Listeners are registered with the lifecycle registry, which
+ * removes them when the context goes away
  */
 
 import { apiClient } from './api';
 import { User } from '../shared/types';
+import { sendToBackground } from '../shared/messaging';
+import { lifecycle } from './memoryCleanup';
+
+const OWNER = 'authService';
 
 export interface AuthState {
   isAuthenticated: boolean;
@@ -31,34 +36,29 @@ class AuthService {
     loading: true,
   };
 
-  // ✅ Store listener references for cleanup
-  private messageListener: ((message: any, sender: any, sendResponse: any) => void) | null = null;
-  private storageListener: ((changes: any, areaName: string) => void) | null = null;
-
   constructor() {
     this.initialize();
+    lifecycle.onRestart(OWNER, () => this.initialize());
   }
 
   /**
    * Initialize auth service
-   * ✅ FIXED: Store listener references for cleanup
+   * ✅ FIXED: Listeners are registered for cleanup
    */
   private async initialize(): Promise<void> {
     await this.checkAuthStatus();
     
-    // ✅ Store message listener reference
-    this.messageListener = (message: any, sender: any, sendResponse: any) => {
+    // Listen for auth changes from background script
+    lifecycle.addChromeListener(OWNER, chrome.runtime.onMessage, (message: any, sender: any, sendResponse: any) => {
       if (message.type === 'AUTH_STATE_CHANGED') {
         console.log('📨 AUTH_STATE_CHANGED message received', sender, sendResponse);
         this.checkAuthStatus();
       }
-    };
+    }, 'AUTH_STATE_CHANGED');
 
-    // Listen for auth changes from background script
-    chrome.runtime.onMessage.addListener(this.messageListener);
-
-    // ✅ Store storage listener reference
-    this.storageListener = (changes: any, areaName: string) => {
+    // CRITICAL: Listen for storage changes across all contexts
+    // This ensures popup, sidepanel, and background stay in sync
+    lifecycle.addChromeListener(OWNER, chrome.storage.onChanged, (changes: any, areaName: string) => {
       if (areaName === 'local' && changes.auth) {
         console.log('🔄 Auth storage changed in SidePanel!', {
           had: !!changes.auth.oldValue,
@@ -66,11 +66,7 @@ class AuthService {
         });
         this.checkAuthStatus();
       }
-    };
-
-    // CRITICAL: Listen for storage changes across all contexts
-    // This ensures popup, sidepanel, and background stay in sync
-    chrome.storage.onChanged.addListener(this.storageListener);
+    }, 'storage.onChanged');
 
     console.log('✅ Auth service initialized');
   }
@@ -225,7 +221,8 @@ class AuthService {
     return new Promise((resolve, reject) => {
       const listener = async (message: any) => {
         if (message.type === 'WEB_AUTH_COMPLETE' && message.tabId === tab.id) {
-          chrome.runtime.onMessage.removeListener(listener);
+          stopListening();
+          cancelTimeout();
           
           console.log('✅ Web auth completed, checking status...');
           
@@ -240,11 +237,11 @@ class AuthService {
         }
       };
 
-      chrome.runtime.onMessage.addListener(listener);
+      const stopListening = lifecycle.addChromeListener(OWNER, chrome.runtime.onMessage, listener, 'WEB_AUTH_COMPLETE');
 
       // Timeout after 5 minutes
-      setTimeout(() => {
-        chrome.runtime.onMessage.removeListener(listener);
+      const cancelTimeout = lifecycle.setTimeout(OWNER, () => {
+        stopListening();
         reject(new Error('Authentication timeout'));
       }, 5 * 60 * 1000);
     });
@@ -292,7 +289,7 @@ class AuthService {
    * Broadcast auth change to all extension parts
    */
   private broadcastAuthChange(): void {
-    chrome.runtime.sendMessage({
+    sendToBackground({
       type: 'AUTH_STATE_CHANGED',
       payload: this.currentState,
     }).catch(() => {
@@ -304,7 +301,7 @@ class AuthService {
    * Track analytics event
    */
   private trackEvent(eventName: string, properties?: Record<string, any>): void {
-    chrome.runtime.sendMessage({
+    sendToBackground({
       type: 'TRACK_EVENT',
       payload: {
         event: eventName,
@@ -393,19 +390,8 @@ class AuthService {
    * ✅ Cleanup - Prevents memory leaks
    */
   destroy(): void {
-    // Remove message listener
-    if (this.messageListener) {
-      chrome.runtime.onMessage.removeListener(this.messageListener);
-      this.messageListener = null;
-      console.log('🧹 Removed message listener');
-    }
-
-    // Remove storage listener
-    if (this.storageListener) {
-      chrome.storage.onChanged.removeListener(this.storageListener);
-      this.storageListener = null;
-      console.log('🧹 Removed storage listener');
-    }
+    // Remove chrome listeners and pending timers
+    lifecycle.disposeOwner(OWNER);
 
     // Clear all listeners
     this.listeners.clear();
@@ -417,16 +403,3 @@ class AuthService {
 // Export singleton instance
 export const authService = new AuthService();
 
-// ✅ Auto-cleanup on extension unload
-if (typeof window !== 'undefined') {
-  window.addEventListener('beforeunload', () => {
-    authService.destroy();
-  });
-}
-
-// ✅ Auto-cleanup on Chrome extension suspend
-if (typeof chrome !== 'undefined' && chrome.runtime?.onSuspend) {
-  chrome.runtime.onSuspend.addListener(() => {
-    authService.destroy();
-  });
-}
\ No newline at end of file
@@ -5,7 +5,8 @@
  * - Cache last 10 explanations
  * - IndexedDB storage (fallback to chrome.storage)
  * - Smart invalidation
- * - Offline detection
+ *
+ * Offline detection lives in the background (see services/connectivity.ts)
  */
 
 import { CachedExplanation, ComplexityLevel } from '../shared/types';
@@ -65,12 +66,14 @@ class CacheService {
   }
 
   /**
-   * Add explanation to cache
+   * Add explanation to cache (contextKey: answers grounded in page context
+   * only match the same context)
    */
   async add(
     question: string,
     answer: string,
-    complexityLevel: ComplexityLevel
+    complexityLevel: ComplexityLevel,
+    contextKey?: string
   ): Promise<void> {
     if (!this.initialized) {
       await this.initialize();
@@ -81,11 +84,16 @@ class CacheService {
       answer,
       complexity_level: complexityLevel,
       cached_at: Date.now(),
+      context_key: contextKey,
     };
 
     // Remove if already exists (update)
     this.cache = this.cache.filter(
-      item => !(item.question === cached.question && item.complexity_level === cached.complexity_level)
+      item => !(
+        item.question === cached.question &&
+        item.complexity_level === cached.complexity_level &&
+        this.isSameContext(item, contextKey)
+      )
     );
 
     // Add to beginning
@@ -104,7 +112,8 @@ class CacheService {
    */
   async get(
     question: string,
-    complexityLevel: ComplexityLevel
+    complexityLevel: ComplexityLevel,
+    contextKey?: string
   ): Promise<CachedExplanation | null> {
     if (!this.initialized) {
       await this.initialize();
@@ -114,7 +123,10 @@ class CacheService {
 
     // Exact match
     const exactMatch = this.cache.find(
-      item => item.question === normalizedQuestion && item.complexity_level === complexityLevel
+      item =>
+        item.question === normalizedQuestion &&
+        item.complexity_level === complexityLevel &&
+        this.isSameContext(item, contextKey)
     );
 
     if (exactMatch && !this.isExpired(exactMatch)) {
@@ -125,6 +137,7 @@ class CacheService {
     const similarMatch = this.cache.find(
       item => 
         item.complexity_level === complexityLevel &&
+        this.isSameContext(item, contextKey) &&
         !this.isExpired(item) &&
         this.isSimilar(normalizedQuestion, item.question)
     );
@@ -132,6 +145,13 @@ class CacheService {
     return similarMatch || null;
   }
 
+  /**
+   * Answers without context only match questions without context
+   */
+  private isSameContext(item: CachedExplanation, contextKey?: string): boolean {
+    return (item.context_key || '') === (contextKey || '');
+  }
+
   /**
    * Check if item is expired
    */
@@ -217,106 +237,5 @@ class CacheService {
   }
 }
 
-/**
- * Offline Detection
- */
-class OfflineDetector {
-  private isOffline: boolean = false;
-  private listeners: Set<(offline: boolean) => void> = new Set();
-
-  constructor() {
-    this.initialize();
-  }
-
-  /**
-   * Initialize offline detection
-   */
-  private initialize(): void {
-    // Check initial state
-    this.isOffline = !navigator.onLine;
-
-    // Listen for online/offline events
-    window.addEventListener('online', () => this.setOffline(false));
-    window.addEventListener('offline', () => this.setOffline(true));
-
-    // Periodic connectivity check
-    setInterval(() => this.checkConnectivity(), 30000); // Every 30s
-  }
-
-  /**
-   * Check connectivity by making a simple request
-   */
-  private async checkConnectivity(): Promise<void> {
-    try {
-      const response = await fetch('https://stupify.app/api/health', {
-        method: 'HEAD',
-        cache: 'no-cache',
-      });
-      
-      this.setOffline(!response.ok);
-    } catch {
-      this.setOffline(true);
-    }
-  }
-
-  /**
-   * Set offline state
-   */
-  private setOffline(offline: boolean): void {
-    if (this.isOffline !== offline) {
-      this.isOffline = offline;
-      
-      // Notify listeners
-      this.listeners.forEach(listener => {
-        try {
-          listener(offline);
-        } catch (error) {
-          console.error('❌ Offline listener error:', error);
-        }
-      });
-
-      // Show notification
-      if (offline) {
-        this.showOfflineNotification();
-      }
-    }
-  }
-
-  /**
-   * Show offline notification
-   */
-  private showOfflineNotification(): void {
-    chrome.runtime.sendMessage({
-      type: 'SHOW_NOTIFICATION',
-      payload: {
-        type: 'info',
-        message: 'You\'re offline. Showing cached results.',
-      },
-    }).catch(() => {
-      // Ignore errors
-    });
-  }
-
-  /**
-   * Check if offline
-   */
-  isCurrentlyOffline(): boolean {
-    return this.isOffline;
-  }
-
-  /**
-   * Subscribe to offline state changes
-   */
-  subscribe(callback: (offline: boolean) => void): () => void {
-    this.listeners.add(callback);
-    
-    // Return unsubscribe function
-    return () => {
-      this.listeners.delete(callback);
-    };
-  }
-}
-
-// Export singleton instances
-export const cacheService = new CacheService();
-export const offlineDetector = new OfflineDetector();
\ No newline at end of file
+// Export singleton instance
+export const cacheService = new CacheService();
\ No newline at end of file
@@ -0,0 +1,120 @@
+/**
+ * Connectivity Client
+ *
+ * Views' window onto the background connectivity monitor
+ * - Starts from the state in chrome.storage.session
+ * - Follows CONNECTIVITY_CHANGED broadcasts
+ * - Reports real request outcomes back as passive signals
+ *
+ * In the service worker the monitor registers itself as the reporter, since
+ * the worker can't message itself.
+ */
+
+import type {
+  ConnectivityChangedMessage,
+  ConnectivityStatus,
+  RequestOutcome,
+  StoredConnectivity,
+} from '../shared/types';
+import { STORAGE_KEYS } from '../shared/constants';
+import { sendToBackground } from '../shared/messaging';
+import { lifecycle } from './memoryCleanup';
+
+type ConnectivityListener = (status: ConnectivityStatus) => void;
+type OutcomeReporter = (outcome: RequestOutcome) => void;
+
+/**
+ * Connectivity Client
+ */
+class ConnectivityClient {
+  private status: ConnectivityStatus = {
+    state: typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'online',
+    changedAt: Date.now(),
+    checkedAt: null,
+  };
+  private listeners: Set<ConnectivityListener> = new Set();
+  private localReporter: OutcomeReporter | null = null;
+
+  constructor() {
+    this.initialize();
+    lifecycle.onRestart('connectivity', () => this.initialize());
+  }
+
+  private initialize(): void {
+    chrome.storage.session?.get(STORAGE_KEYS.CONNECTIVITY).then((result) => {
+      const stored: StoredConnectivity | undefined = result[STORAGE_KEYS.CONNECTIVITY];
+      if (stored?.status && stored.status.changedAt >= this.status.changedAt) {
+        this.update(stored.status);
+      }
+    }).catch(() => {
+      // Ignore errors
+    });
+
+    lifecycle.addChromeListener('connectivity', chrome.runtime.onMessage, (message: ConnectivityChangedMessage) => {
+      if (message?.type === 'CONNECTIVITY_CHANGED') {
+        this.update(message.payload);
+      }
+      return false;
+    }, 'CONNECTIVITY_CHANGED');
+  }
+
+  getStatus(): ConnectivityStatus {
+    return this.status;
+  }
+
+  /**
+   * No usable connection to our API (cached results only)
+   */
+  isOffline(): boolean {
+    return this.status.state === 'offline' || this.status.state === 'api_down';
+  }
+
+  /**
+   * Subscribe to connectivity changes
+   */
+  subscribe(callback: ConnectivityListener): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Tell the monitor how a real API request went
+   */
+  reportRequest(outcome: RequestOutcome): void {
+    if (this.localReporter) {
+      this.localReporter(outcome);
+      return;
+    }
+
+    sendToBackground({ type: 'REPORT_REQUEST_OUTCOME', payload: outcome }).catch(() => {
+      // Ignore errors
+    });
+  }
+
+  /**
+   * Used by the background, which owns the monitor
+   */
+  setLocalReporter(reporter: OutcomeReporter): void {
+    this.localReporter = reporter;
+  }
+
+  private update(status: ConnectivityStatus): void {
+    const changed = status.state !== this.status.state;
+    this.status = status;
+
+    if (!changed) return;
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('❌ Connectivity listener error:', error);
+      }
+    });
+  }
+}
+
+// Export singleton
+export const connectivity = new ConnectivityClient();
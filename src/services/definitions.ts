@@ -0,0 +1,137 @@
+/**
+ * Definition Service
+ *
+ * Compact definition cards for single words and short phrases
+ * - Part of speech, plain definition and an example, per complexity level
+ * - Cached aggressively in chrome.storage.local (terms rarely change meaning)
+ * - Reports the backend's quota cost so lookups can count as less than a question
+ *
+ * Runs in the background (DEFINE_TERM) so content scripts aren't subject to
+ * the page's CORS rules.
+ */
+
+import { apiClient } from './api';
+import { STORAGE_KEYS } from '../shared/constants';
+import { normalizeTerm } from '../shared/utils';
+import type { ComplexityLevel, DefineTermResult, Definition } from '../shared/types';
+
+const MAX_CACHE_ENTRIES = 500;
+const CACHE_EXPIRY = 30 * 24 * 60 * 60 * 1000; // 30 days
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+
+// Charged when the backend doesn't say (same as a full explanation)
+const DEFAULT_QUOTA_COST = 1;
+
+interface DefineResponse {
+  partOfSpeech?: string;
+  definition: string;
+  example?: string;
+  // Fraction of a question this lookup used (newer backends only)
+  quotaCost?: number;
+}
+
+interface CachedDefinition {
+  definition: Definition;
+  cachedAt: number;
+}
+
+type DefinitionCache = Record<string, CachedDefinition>;
+
+/**
+ * Definition Service
+ */
+class DefinitionService {
+  /**
+   * Define a term at a complexity level (cache first)
+   */
+  async define(term: string, complexity: ComplexityLevel): Promise<DefineTermResult> {
+    const normalized = normalizeTerm(term);
+    if (!normalized) {
+      throw new Error('Nothing to define');
+    }
+
+    const key = this.getCacheKey(normalized, complexity);
+    const cache = await this.loadCache();
+    const cached = cache[key];
+
+    if (cached && !this.isExpired(cached)) {
+      return { definition: cached.definition, cached: true, quotaCost: 0 };
+    }
+
+    const response = await apiClient.request<DefineResponse>('/api/define', {
+      method: 'POST',
+      body: JSON.stringify({ term: normalized, complexityLevel: complexity }),
+      timeout: REQUEST_TIMEOUT,
+    });
+
+    if (!response?.definition) {
+      throw new Error(`No definition found for "${term.trim()}"`);
+    }
+
+    const definition: Definition = {
+      term: term.trim(),
+      partOfSpeech: response.partOfSpeech || '',
+      definition: response.definition,
+      example: response.example || '',
+      complexity,
+    };
+
+    await this.saveToCache(key, definition);
+
+    const quotaCost =
+      typeof response.quotaCost === 'number' && response.quotaCost >= 0
+        ? response.quotaCost
+        : DEFAULT_QUOTA_COST;
+
+    return { definition, cached: false, quotaCost };
+  }
+
+  /**
+   * Clear all cached definitions
+   */
+  async clear(): Promise<void> {
+    await chrome.storage.local.remove(STORAGE_KEYS.DEFINITION_CACHE);
+  }
+
+  private getCacheKey(term: string, complexity: ComplexityLevel): string {
+    return `${complexity}:${term}`;
+  }
+
+  private isExpired(entry: CachedDefinition): boolean {
+    return Date.now() - entry.cachedAt > CACHE_EXPIRY;
+  }
+
+  private async loadCache(): Promise<DefinitionCache> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.DEFINITION_CACHE);
+      return result[STORAGE_KEYS.DEFINITION_CACHE] || {};
+    } catch (error) {
+      console.error('❌ Failed to load definition cache:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Add a definition, dropping expired entries and then the oldest ones
+   */
+  private async saveToCache(key: string, definition: Definition): Promise<void> {
+    try {
+      const cache = await this.loadCache();
+      cache[key] = { definition, cachedAt: Date.now() };
+
+      const entries = Object.entries(cache)
+        .filter(([, entry]) => !this.isExpired(entry))
+        .sort(([, a], [, b]) => b.cachedAt - a.cachedAt)
+        .slice(0, MAX_CACHE_ENTRIES);
+
+      await chrome.storage.local.set({
+        [STORAGE_KEYS.DEFINITION_CACHE]: Object.fromEntries(entries),
+      });
+    } catch (error) {
+      console.error('❌ Failed to save definition cache:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const definitionService = new DefinitionService();
@@ -0,0 +1,158 @@
+/**
+ * Background Explanation Stream Client
+ *
+ * Connects a view to explanation streams owned by the background
+ * - Start a new stream
+ * - Re-attach to the latest stream and replay buffered text
+ * - Cancel from any attached view
+ */
+
+import {
+  ComplexityLevel,
+  ConversationTurn,
+  EXPLANATION_PORT_NAME,
+  ExplanationPortRequest,
+  SidePanelMessage,
+} from '../shared/sidepanel';
+import type { SelectionContext, SelectionFormat } from '../shared/types';
+
+interface BackgroundStreamHandlers {
+  onStart?: (info: { streamId: string; question: string; complexity: ComplexityLevel }) => void;
+  onToken: (token: string, replayed: boolean) => void;
+  onComplete: (fullText: string, replayed: boolean) => void;
+  onError: (error: Error) => void;
+  onCancel?: () => void;
+}
+
+// What the question came with (page context, Markdown flag)
+interface ExplanationRequestOptions {
+  context?: SelectionContext | null;
+  format?: SelectionFormat;
+}
+
+interface BackgroundStreamHandle {
+  cancel: () => void;
+  disconnect: () => void;
+}
+
+/**
+ * Open a port and wire it to stream handlers
+ */
+function connect(
+  handlers: BackgroundStreamHandlers,
+  request: ExplanationPortRequest
+): BackgroundStreamHandle {
+  const port = chrome.runtime.connect({ name: EXPLANATION_PORT_NAME });
+  let streamId: string | null = null;
+  let fullText = '';
+  let finished = false;
+
+  const disconnect = () => {
+    finished = true;
+    try {
+      port.disconnect();
+    } catch {
+      // Already disconnected
+    }
+  };
+
+  port.onMessage.addListener((message: SidePanelMessage) => {
+    switch (message.type) {
+      case 'EXPLANATION_STARTED':
+        // Ignore streams started after this one attached
+        if (streamId && streamId !== message.payload.streamId) return;
+        streamId = message.payload.streamId;
+        handlers.onStart?.(message.payload);
+        break;
+
+      case 'EXPLANATION_STREAM':
+        if (message.payload.streamId !== streamId) return;
+        if (message.payload.done) {
+          handlers.onComplete(fullText, !!message.payload.replayed);
+          disconnect();
+        } else {
+          fullText += message.payload.chunk;
+          handlers.onToken(message.payload.chunk, !!message.payload.replayed);
+        }
+        break;
+
+      case 'EXPLANATION_ERROR':
+        if (message.payload.streamId !== streamId) return;
+        handlers.onError(new Error(message.payload.error));
+        disconnect();
+        break;
+
+      case 'EXPLANATION_CANCELLED':
+        if (message.payload.streamId !== streamId) return;
+        handlers.onCancel?.();
+        disconnect();
+        break;
+    }
+  });
+
+  port.onDisconnect.addListener(() => {
+    if (finished) return;
+    finished = true;
+
+    // Background had nothing to attach to
+    if (!streamId) {
+      handlers.onCancel?.();
+      return;
+    }
+
+    handlers.onError(new Error('Lost connection to Stupify. Please try again.'));
+  });
+
+  port.postMessage(request);
+
+  return {
+    cancel: () => {
+      if (streamId && !finished) {
+        port.postMessage({
+          type: 'CANCEL_EXPLANATION',
+          payload: { streamId },
+        } satisfies ExplanationPortRequest);
+      }
+    },
+    disconnect,
+  };
+}
+
+/**
+ * Start an explanation stream in the background (grounded in the page
+ * context captured with the selection, if any)
+ */
+export function streamViaBackground(
+  question: string,
+  complexity: ComplexityLevel,
+  history: ConversationTurn[],
+  handlers: BackgroundStreamHandlers,
+  options: ExplanationRequestOptions = {}
+): BackgroundStreamHandle {
+  return connect(handlers, {
+    type: 'START_EXPLANATION',
+    payload: {
+      question,
+      complexity,
+      history,
+      format: options.format,
+      context: options.context || undefined,
+    },
+  });
+}
+
+/**
+ * Attach to an existing stream (latest if no ID given)
+ */
+export function attachToExplanation(
+  handlers: BackgroundStreamHandlers,
+  streamId?: string
+): BackgroundStreamHandle {
+  return connect(handlers, {
+    type: 'ATTACH_EXPLANATION',
+    payload: { streamId },
+  });
+}
+
+// Export types
+export type { BackgroundStreamHandlers, BackgroundStreamHandle, ExplanationRequestOptions };
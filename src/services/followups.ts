@@ -9,6 +9,7 @@
  */
 
 import { apiClient } from './api';
+import { lifecycle } from './memoryCleanup';
 import { SuggestedQuestion, ComplexityLevel } from '../shared/types';
 
 interface GenerateFollowUpsOptions {
@@ -24,6 +25,10 @@ interface GenerateFollowUpsOptions {
 class FollowUpService {
   private cache: Map<string, SuggestedQuestion[]> = new Map();
 
+  constructor() {
+    lifecycle.register('followUpService', 'cache', 'follow-up cache', () => this.clearCache());
+  }
+
   /**
    * Generate follow-up questions
    */
@@ -7,9 +7,13 @@
 // Core services
 export { apiClient } from './api';
 export { authService } from './auth';
-export { cacheService, offlineDetector } from './cache';
+export { cacheService } from './cache';
+export { definitionService } from './definitions';
+export { connectivity } from './connectivity';
 export { followUpService } from './followups';
 export { rateLimiter } from './rateLimiter';
+export { policyService } from './policy';
+export { lifecycle } from './memoryCleanup';
 
 // Streaming
 export {
@@ -18,9 +22,16 @@ export {
   createStreamCanceller,
   StreamMetrics,
 } from './streaming';
+export { streamViaBackground, attachToExplanation } from './explanationStream';
 
 // Types
 export type { ApiError, RequestConfig } from './api';
 export type { AuthState } from './auth';
 export type { ChatMessage, StreamOptions } from './streaming';
-export type { UsageState } from './rateLimiter';
\ No newline at end of file
+export type {
+  BackgroundStreamHandlers,
+  BackgroundStreamHandle,
+  ExplanationRequestOptions,
+} from './explanationStream';
+export type { UsageState } from './rateLimiter';
+export type { ExecutionContext, LeakReport } from './memoryCleanup';
\ No newline at end of file
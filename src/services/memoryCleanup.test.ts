@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Listener = () => void;
+
+/**
+ * chrome.runtime event that can be fired from the test
+ */
+function createEvent() {
+  const listeners = new Set<Listener>();
+  return {
+    addListener: (listener: Listener) => listeners.add(listener),
+    removeListener: (listener: Listener) => listeners.delete(listener),
+    fire: () => listeners.forEach((listener) => listener()),
+  };
+}
+
+let onSuspend: ReturnType<typeof createEvent>;
+let onSuspendCanceled: ReturnType<typeof createEvent>;
+
+/**
+ * Fresh registry wired to fake suspend events (it hooks them when created)
+ */
+async function loadLifecycle() {
+  onSuspend = createEvent();
+  onSuspendCanceled = createEvent();
+  vi.stubGlobal('chrome', { runtime: { getManifest: () => ({}), onSuspend, onSuspendCanceled } });
+  vi.resetModules();
+  return (await import('./memoryCleanup')).lifecycle;
+}
+
+describe('lifecycle registry', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('disposes everything on suspend', async () => {
+    const lifecycle = await loadLifecycle();
+    const dispose = vi.fn();
+    lifecycle.register('owner', 'listener', 'test', dispose);
+
+    onSuspend.fire();
+
+    expect(dispose).toHaveBeenCalledOnce();
+    expect(lifecycle.getLeakReport().total).toBe(0);
+  });
+
+  it('restarts owners when the suspend is canceled', async () => {
+    const lifecycle = await loadLifecycle();
+    const restart = vi.fn(() => {
+      lifecycle.register('owner', 'listener', 'test', () => {});
+    });
+    lifecycle.onRestart('owner', restart);
+    restart();
+
+    onSuspend.fire();
+    onSuspendCanceled.fire();
+
+    expect(restart).toHaveBeenCalledTimes(2);
+    expect(lifecycle.getLeakReport().byOwner).toEqual({ owner: 1 });
+  });
+
+  it('does not restart without a suspend first', async () => {
+    const lifecycle = await loadLifecycle();
+    const restart = vi.fn();
+    lifecycle.onRestart('owner', restart);
+
+    onSuspendCanceled.fire();
+
+    expect(restart).not.toHaveBeenCalled();
+  });
+});
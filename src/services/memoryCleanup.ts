@@ -0,0 +1,273 @@
+/**
+ * Lifecycle Registry
+ *
+ * One place where services register the timers, listeners and
+ * subscriptions they own, so they are released together
+ * - Knows which context it runs in (service worker, offscreen document,
+ *   extension page, content script)
+ * - Refuses intervals in the service worker (it sleeps after 30s idle;
+ *   use chrome.alarms there)
+ * - Disposes everything on runtime.onSuspend and pagehide
+ * - Restarts owners that asked for it when Chrome cancels the suspend (the
+ *   worker keeps running without what was disposed)
+ * - Leak report of live disposables (with creation stacks in dev builds,
+ *   available as stupifyLeakReport() in DevTools)
+ */
+
+import { isDevelopment, logger } from '../shared/utils';
+
+export type ExecutionContext = 'service_worker' | 'offscreen' | 'extension_page' | 'content_script';
+
+export type DisposableKind = 'timeout' | 'interval' | 'listener' | 'chrome_listener' | 'subscription' | 'cache';
+
+/**
+ * Any chrome.* event (chrome.runtime.onMessage, chrome.storage.onChanged, ...)
+ */
+interface ChromeEvent<T> {
+  addListener(callback: T): void;
+  removeListener(callback: T): void;
+}
+
+interface Disposable {
+  id: number;
+  owner: string;
+  kind: DisposableKind;
+  label: string;
+  createdAt: number;
+  stack?: string;
+  dispose: () => void;
+}
+
+export interface LeakReportEntry {
+  owner: string;
+  kind: DisposableKind;
+  label: string;
+  ageMs: number;
+  stack?: string;
+}
+
+export interface LeakReport {
+  context: ExecutionContext;
+  total: number;
+  byOwner: Record<string, number>;
+  entries: LeakReportEntry[];
+}
+
+const OFFSCREEN_PATH = '/offscreen.html';
+
+/**
+ * Work out where this bundle is running
+ */
+function detectContext(): ExecutionContext {
+  // The worker is the only extension context without a window
+  if (typeof window === 'undefined') {
+    return 'service_worker';
+  }
+
+  if (location.protocol !== 'chrome-extension:') {
+    return 'content_script';
+  }
+
+  return location.pathname === OFFSCREEN_PATH ? 'offscreen' : 'extension_page';
+}
+
+/**
+ * Lifecycle Registry
+ */
+class LifecycleRegistry {
+  readonly context: ExecutionContext = detectContext();
+
+  private disposables: Map<number, Disposable> = new Map();
+  private restarts: Map<string, () => void> = new Map();
+  private suspended = false;
+  private nextId = 1;
+  private readonly debug = isDevelopment();
+
+  constructor() {
+    this.hookTeardown();
+
+    if (this.debug) {
+      (globalThis as Record<string, unknown>).stupifyLeakReport = () => this.getLeakReport();
+    }
+  }
+
+  /**
+   * Register a cleanup function; returns a function that runs it early
+   */
+  register(owner: string, kind: DisposableKind, label: string, dispose: () => void): () => void {
+    const id = this.nextId++;
+
+    this.disposables.set(id, {
+      id,
+      owner,
+      kind,
+      label,
+      createdAt: Date.now(),
+      stack: this.debug ? new Error().stack?.split('\n').slice(2).join('\n') : undefined,
+      dispose,
+    });
+
+    return () => this.release(id);
+  }
+
+  /**
+   * setTimeout that forgets itself once it fires
+   */
+  setTimeout(owner: string, callback: () => void, delayMs: number): () => void {
+    let release: () => void = () => {};
+
+    const timeoutId = setTimeout(() => {
+      release();
+      callback();
+    }, delayMs);
+
+    release = this.register(owner, 'timeout', `timeout ${delayMs}ms`, () => clearTimeout(timeoutId));
+    return release;
+  }
+
+  /**
+   * setInterval (null in the service worker, which should use chrome.alarms)
+   */
+  setInterval(owner: string, callback: () => void, intervalMs: number): (() => void) | null {
+    if (this.context === 'service_worker') {
+      logger.error(`${owner}: intervals are not allowed in the service worker, use chrome.alarms`);
+      return null;
+    }
+
+    const intervalId = setInterval(callback, intervalMs);
+    return this.register(owner, 'interval', `interval ${intervalMs}ms`, () => clearInterval(intervalId));
+  }
+
+  /**
+   * DOM event listener (window, document, self, elements)
+   */
+  addEventListener(
+    owner: string,
+    target: EventTarget,
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: AddEventListenerOptions
+  ): () => void {
+    target.addEventListener(type, listener, options);
+    return this.register(owner, 'listener', type, () =>
+      target.removeEventListener(type, listener, options)
+    );
+  }
+
+  /**
+   * chrome.* event listener
+   */
+  addChromeListener<T>(owner: string, event: ChromeEvent<T>, listener: T, label = 'chrome event'): () => void {
+    event.addListener(listener);
+    return this.register(owner, 'chrome_listener', label, () => event.removeListener(listener));
+  }
+
+  /**
+   * Subscription to another service (anything that returns an unsubscribe function)
+   */
+  addSubscription(owner: string, unsubscribe: () => void, label = 'subscription'): () => void {
+    return this.register(owner, 'subscription', label, unsubscribe);
+  }
+
+  /**
+   * Set an owner up again after a canceled suspend (register what it owns
+   * again; only one restart per owner)
+   */
+  onRestart(owner: string, restart: () => void): void {
+    this.restarts.set(owner, restart);
+  }
+
+  /**
+   * Release everything one service registered
+   */
+  disposeOwner(owner: string): void {
+    this.disposables.forEach((disposable) => {
+      if (disposable.owner === owner) {
+        this.release(disposable.id);
+      }
+    });
+  }
+
+  /**
+   * Release everything (context is going away)
+   */
+  disposeAll(reason: string): void {
+    const count = this.disposables.size;
+    if (count === 0) return;
+
+    this.disposables.forEach((disposable) => this.release(disposable.id));
+    logger.debug(`🧹 Disposed ${count} resources (${reason}) in ${this.context}`);
+  }
+
+  /**
+   * Live disposables, oldest first
+   */
+  getLeakReport(): LeakReport {
+    const now = Date.now();
+    const byOwner: Record<string, number> = {};
+    const entries: LeakReportEntry[] = [];
+
+    this.disposables.forEach((disposable) => {
+      byOwner[disposable.owner] = (byOwner[disposable.owner] || 0) + 1;
+      entries.push({
+        owner: disposable.owner,
+        kind: disposable.kind,
+        label: disposable.label,
+        ageMs: now - disposable.createdAt,
+        stack: disposable.stack,
+      });
+    });
+
+    entries.sort((a, b) => b.ageMs - a.ageMs);
+
+    return { context: this.context, total: entries.length, byOwner, entries };
+  }
+
+  private release(id: number): void {
+    const disposable = this.disposables.get(id);
+    if (!disposable) return;
+
+    this.disposables.delete(id);
+
+    try {
+      disposable.dispose();
+    } catch (error) {
+      logger.error(`Failed to dispose ${disposable.kind} for ${disposable.owner}:`, error);
+    }
+  }
+
+  private restartAll(): void {
+    if (!this.suspended) return;
+    this.suspended = false;
+
+    this.restarts.forEach((restart, owner) => {
+      try {
+        restart();
+      } catch (error) {
+        logger.error(`Failed to restart ${owner}:`, error);
+      }
+    });
+    logger.debug(`🔁 Restarted ${this.restarts.size} owners (suspend canceled) in ${this.context}`);
+  }
+
+  private hookTeardown(): void {
+    // Workers (and event pages) get onSuspend; content scripts don't have it
+    chrome.runtime?.onSuspend?.addListener(() => {
+      this.suspended = true;
+      this.disposeAll('suspend');
+    });
+    chrome.runtime?.onSuspendCanceled?.addListener(() => this.restartAll());
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', (event) => {
+        // Pages kept in the back/forward cache come back with their state
+        if (!event.persisted) {
+          this.disposeAll('pagehide');
+        }
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const lifecycle = new LifecycleRegistry();
@@ -4,14 +4,15 @@
  * Upgrades existing API client to:
  * - Use offlineStorage for better caching
  * - Queue failed requests automatically
- * - Track offline analytics
  * - Seamless online/offline transitions
  */
 
 import { offlineStorage } from './offlineStorage';
-import { offlineDetector } from './cache';
+import { connectivity } from './connectivity';
 import { backgroundSync } from './backgroundSync';
 import { ComplexityLevel } from '../shared/types';
+import { sendToBackground } from '../shared/messaging';
+import { analyticsService } from './analytics';
 
 /**
  * Enhanced API Request with Offline Support
@@ -32,7 +33,7 @@ export class OfflineAwareAPI {
     } = options;
 
     // Check if offline
-    if (offlineDetector.isCurrentlyOffline()) {
+    if (connectivity.isOffline()) {
       // Queue request for later if enabled
       if (queueIfOffline && fetchOptions.method !== 'GET') {
         await this.queueRequest(url, fetchOptions);
@@ -122,7 +123,7 @@ export class OfflineAwareAPI {
     }
 
     // If offline, return error
-    if (offlineDetector.isCurrentlyOffline()) {
+    if (connectivity.isOffline()) {
       throw new Error('OFFLINE_NO_CACHE');
     }
 
@@ -157,26 +158,10 @@ export class OfflineAwareAPI {
   }
 
   /**
-   * Track analytics with offline support
+   * Track analytics (the background queues and retries while offline)
    */
   static async trackEvent(event: string, properties: Record<string, any>): Promise<void> {
-    if (offlineDetector.isCurrentlyOffline()) {
-      // Store offline for later sync
-      await offlineStorage.trackOfflineEvent(event, properties);
-      return;
-    }
-
-    try {
-      await this.request('/api/analytics/track', {
-        method: 'POST',
-        body: JSON.stringify({ event, properties }),
-        requiresAuth: true,
-        queueIfOffline: true,
-      });
-    } catch (error) {
-      // Store offline if failed
-      await offlineStorage.trackOfflineEvent(event, properties);
-    }
+    await analyticsService.track(event, properties);
   }
 
   /**
@@ -189,7 +174,7 @@ export class OfflineAwareAPI {
     const url = '/api/explanations/rate';
     const body = { explanationId, rating };
 
-    if (offlineDetector.isCurrentlyOffline()) {
+    if (connectivity.isOffline()) {
       await offlineStorage.queueRequest('rating', url, 'POST', body);
       return;
     }
@@ -277,7 +262,9 @@ export class OfflineAwareAPI {
    */
   private static async handleAuthError(): Promise<void> {
     await chrome.storage.sync.remove('auth_token');
-    chrome.runtime.sendMessage({ type: 'AUTH_ERROR' });
+    sendToBackground({ type: 'AUTH_ERROR' }).catch(() => {
+      // Ignore errors
+    });
   }
 
   /**
@@ -292,7 +279,7 @@ export class OfflineAwareAPI {
       storage,
       queue,
       syncStatus,
-      isOffline: offlineDetector.isCurrentlyOffline(),
+      isOffline: connectivity.isOffline(),
     };
   }
 
@@ -17,6 +17,7 @@
 
 import React from 'react';
 import { logger } from '../shared/utils';
+import { lifecycle } from './memoryCleanup';
 
 // ---------------- Types ----------------
 
@@ -46,6 +47,8 @@ type PerfWithMemory = Performance & { memory?: MemoryMetrics };
 
 // ---------------- Config ----------------
 
+const OWNER = 'performanceMonitor';
+
 const THRESHOLDS = {
   LOAD_TIME_WARNING: 2000, // 2s
   LOAD_TIME_CRITICAL: 5000, // 5s
@@ -59,8 +62,6 @@ const THRESHOLDS = {
 
 class PerformanceMonitor {
   private metrics: PerformanceMetric[] = [];
-  private memoryCheckInterval: number | null = null;
-  private reportInterval: number | null = null;
   private isEnabled = true;
 
   constructor() {
@@ -93,7 +94,7 @@ class PerformanceMonitor {
       this.reportAll();
       this.cleanup();
     };
-    window.addEventListener('beforeunload', handleBeforeUnload);
+    lifecycle.addEventListener(OWNER, window, 'beforeunload', handleBeforeUnload);
 
     logger.info('📊 Performance monitoring initialized');
   }
@@ -102,9 +103,9 @@ class PerformanceMonitor {
    * Track page load metrics
    */
   private trackLoadMetrics(): void {
-    window.addEventListener('load', () => {
+    lifecycle.addEventListener(OWNER, window, 'load', () => {
       // next tick so perf entries are populated
-      setTimeout(() => {
+      lifecycle.setTimeout(OWNER, () => {
         const nav = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
 
         if (nav) {
@@ -137,7 +138,7 @@ class PerformanceMonitor {
           }
         }
       }, 0);
-    });
+    }, { once: true });
   }
 
   /**
@@ -150,7 +151,7 @@ class PerformanceMonitor {
       return;
     }
 
-    this.memoryCheckInterval = window.setInterval(() => {
+    lifecycle.setInterval(OWNER, () => {
       this.checkMemoryUsage();
     }, interval);
 
@@ -183,7 +184,7 @@ class PerformanceMonitor {
    * Start periodic reporting
    */
   private startPeriodicReporting(interval: number): void {
-    this.reportInterval = window.setInterval(() => {
+    lifecycle.setInterval(OWNER, () => {
       this.reportAll();
     }, interval);
   }
@@ -370,14 +371,7 @@ class PerformanceMonitor {
    * Cleanup
    */
   cleanup(): void {
-    if (this.memoryCheckInterval) {
-      clearInterval(this.memoryCheckInterval);
-      this.memoryCheckInterval = null;
-    }
-    if (this.reportInterval) {
-      clearInterval(this.reportInterval);
-      this.reportInterval = null;
-    }
+    lifecycle.disposeOwner(OWNER);
     logger.info('📊 Performance monitoring cleaned up');
   }
 
@@ -0,0 +1,210 @@
+/**
+ * Policy Service
+ *
+ * Enterprise policy set by IT through chrome.storage.managed
+ * (schema in public/managed_schema.json)
+ * - Fixed API endpoint
+ * - Forced default complexity (locks the setting)
+ * - Analytics on/off
+ * - Blocked domains (no content script, no explanations)
+ *
+ * Policy always wins over user settings. Values are re-checked here since
+ * unmanaged installs (and tests) can put anything in the managed area.
+ */
+
+import type { ComplexityLevel, ExtensionSettings, ManagedPolicy } from '../shared/types';
+import { DEFAULT_SETTINGS } from '../shared/constants';
+import { logger } from '../shared/utils';
+import { lifecycle } from './memoryCleanup';
+
+const DEFAULT_API_BASE_URL = process.env.VITE_API_URL || 'https://stupify.app';
+const LEVELS: ComplexityLevel[] = ['5yo', 'normal', 'advanced'];
+
+type PolicyListener = (policy: ManagedPolicy) => void;
+
+/**
+ * Keep only well-formed policy values
+ */
+function sanitizePolicy(raw: Record<string, unknown>): ManagedPolicy {
+  const policy: ManagedPolicy = {};
+
+  if (typeof raw.apiBaseUrl === 'string') {
+    try {
+      const url = new URL(raw.apiBaseUrl);
+      if (url.protocol === 'https:' || url.protocol === 'http:') {
+        policy.apiBaseUrl = url.origin;
+      }
+    } catch {
+      logger.warn('Ignoring invalid managed apiBaseUrl:', raw.apiBaseUrl);
+    }
+  }
+
+  if (LEVELS.includes(raw.defaultComplexity as ComplexityLevel)) {
+    policy.defaultComplexity = raw.defaultComplexity as ComplexityLevel;
+  }
+
+  if (typeof raw.analyticsEnabled === 'boolean') {
+    policy.analyticsEnabled = raw.analyticsEnabled;
+  }
+
+  if (Array.isArray(raw.blockedDomains)) {
+    policy.blockedDomains = raw.blockedDomains
+      .filter((domain): domain is string => typeof domain === 'string')
+      .map(normalizeDomain)
+      .filter(Boolean);
+  }
+
+  return policy;
+}
+
+/**
+ * "https://*.Example.com/path" → "example.com"
+ */
+function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z*]+:\/\//, '')
+    .replace(/\/.*$/, '')
+    .replace(/^\*\./, '');
+}
+
+/**
+ * Whether a URL (or hostname) is on a blocked domain list
+ * (sync, for callers that cache the policy to keep a user gesture)
+ */
+export function isUrlBlocked(urlOrHostname: string | undefined, blockedDomains: string[] = []): boolean {
+  if (!urlOrHostname || blockedDomains.length === 0) return false;
+
+  let hostname = urlOrHostname;
+  try {
+    hostname = new URL(urlOrHostname).hostname;
+  } catch {
+    // Already a hostname
+  }
+  hostname = hostname.toLowerCase();
+
+  return blockedDomains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+/**
+ * Policy Service
+ */
+class PolicyService {
+  private policy: Promise<ManagedPolicy> | null = null;
+  private listeners: Set<PolicyListener> = new Set();
+
+  constructor() {
+    if (!chrome.storage?.onChanged) return;
+
+    this.listen();
+    // Changes made while the listener was gone would be missed, so read again
+    lifecycle.onRestart('policyService', () => {
+      this.policy = null;
+      this.listen();
+    });
+  }
+
+  private listen(): void {
+    lifecycle.addChromeListener('policyService', chrome.storage.onChanged, (_changes, areaName) => {
+      if (areaName !== 'managed') return;
+
+      this.policy = null;
+      this.getPolicy().then((policy) => {
+        logger.info('Managed policy changed');
+        this.listeners.forEach((listener) => listener(policy));
+      });
+    }, 'storage.onChanged');
+  }
+
+  /**
+   * Current policy (empty when the extension isn't managed)
+   */
+  getPolicy(): Promise<ManagedPolicy> {
+    if (!this.policy) {
+      this.policy = chrome.storage.managed
+        .get(null)
+        .then(sanitizePolicy)
+        .catch((error) => {
+          logger.debug('Managed storage unavailable:', error);
+          return {};
+        });
+    }
+    return this.policy;
+  }
+
+  /**
+   * Subscribe to policy changes
+   */
+  subscribe(listener: PolicyListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Server origin for API calls
+   */
+  async getApiBaseUrl(): Promise<string> {
+    return (await this.getPolicy()).apiBaseUrl || DEFAULT_API_BASE_URL;
+  }
+
+  async isAnalyticsEnabled(): Promise<boolean> {
+    return (await this.getPolicy()).analyticsEnabled !== false;
+  }
+
+  /**
+   * Whether a URL (or hostname) is on the blocked domain list
+   */
+  async isDomainBlocked(urlOrHostname: string | undefined): Promise<boolean> {
+    return isUrlBlocked(urlOrHostname, (await this.getPolicy()).blockedDomains);
+  }
+
+  /**
+   * Match patterns for the blocked domains (content script excludeMatches)
+   */
+  async getBlockedMatchPatterns(): Promise<string[]> {
+    const { blockedDomains = [] } = await this.getPolicy();
+    return blockedDomains.flatMap((domain) => [`*://${domain}/*`, `*://*.${domain}/*`]);
+  }
+
+  /**
+   * Settings with managed values applied
+   */
+  async applyToSettings<T extends Partial<ExtensionSettings>>(settings: T): Promise<T> {
+    const policy = await this.getPolicy();
+    return policy.defaultComplexity
+      ? { ...settings, defaultComplexity: policy.defaultComplexity }
+      : settings;
+  }
+
+  /**
+   * Level new explanations start at: the forced one, else the user's default
+   */
+  async getDefaultComplexity(): Promise<ComplexityLevel> {
+    const [policy, local, sync] = await Promise.all([
+      this.getPolicy(),
+      chrome.storage.local.get('settings'),
+      chrome.storage.sync.get('settings'),
+    ]);
+
+    return (
+      policy.defaultComplexity ||
+      local.settings?.defaultComplexity ||
+      sync.settings?.defaultComplexity ||
+      DEFAULT_SETTINGS.defaultComplexity
+    );
+  }
+
+  /**
+   * Settings the user can't change
+   */
+  async getLockedSettings(): Promise<Array<keyof ExtensionSettings>> {
+    const policy = await this.getPolicy();
+    return policy.defaultComplexity ? ['defaultComplexity'] : [];
+  }
+}
+
+// Export singleton instance
+export const policyService = new PolicyService();
@@ -1,32 +1,26 @@
 /**
- * Rate Limiter Service
- * 
- * Handles usage tracking and limits
- * - Track daily usage
- * - Display remaining questions
- * - Handle limit exceeded
- * - Premium upgrade prompts
+ * Rate Limiter Client
+ *
+ * Views' window onto the background usage monitor, which counts every
+ * question and definition itself when it finishes
+ * - Starts from GET_USAGE
+ * - Follows USAGE_CHANGED broadcasts
+ * - Display helpers (time until reset, share used, pricing page)
  */
 
-import { apiClient } from './api';
-import { authService } from './auth';
+import type { UsageChangedMessage, UsageState } from '../shared/types';
+import { sendToBackground } from '../shared/messaging';
+import { lifecycle } from './memoryCleanup';
 
 const FREE_DAILY_LIMIT = 10;
-const PREMIUM_DAILY_LIMIT = 1000; // Effectively unlimited
+const OWNER = 'rateLimiter';
 
-interface UsageState {
-  remaining: number;
-  limit: number;
-  used: number;
-  resetAt: string;
-  isPremium: boolean;
-  isLoading: boolean;
-}
+type UsageListener = (state: UsageState) => void;
 
 /**
- * Rate Limiter Service
+ * Rate Limiter Client
  */
-class RateLimiterService {
+class RateLimiterClient {
   private currentState: UsageState = {
     remaining: FREE_DAILY_LIMIT,
     limit: FREE_DAILY_LIMIT,
@@ -36,165 +30,40 @@ class RateLimiterService {
     isLoading: true,
   };
 
-  private listeners: Set<(state: UsageState) => void> = new Set();
-  private syncInterval: number | null = null;
+  private listeners: Set<UsageListener> = new Set();
 
   constructor() {
     this.initialize();
+    lifecycle.onRestart(OWNER, () => this.initialize());
   }
 
-  /**
-   * Initialize rate limiter
-   */
-  private async initialize(): Promise<void> {
-    // Load cached usage
-    await this.loadCachedUsage();
-
-    // Check if premium
-    const isPremium = authService.isPremium();
-    this.updateState({ ...this.currentState, isPremium });
-
-    // Sync with server
-    await this.sync();
-
-    // Start periodic sync (every 5 minutes)
-    this.syncInterval = window.setInterval(() => this.sync(), 5 * 60 * 1000);
-
-    // Listen for auth changes
-    authService.subscribe((authState: any) => {
-      const isPremium = authState.user?.subscription_tier === 'premium';
-      this.updateState({ ...this.currentState, isPremium });
-      this.sync();
+  private initialize(): void {
+    sendToBackground({ type: 'GET_USAGE' }).then((state) => {
+      this.updateState(state);
+    }).catch((error) => {
+      console.error('❌ Failed to load usage:', error);
     });
-  }
-
-  /**
-   * Load cached usage from storage
-   */
-  private async loadCachedUsage(): Promise<void> {
-    try {
-      const result = await chrome.storage.local.get(['dailyUsage']);
-      const cached = result.dailyUsage;
-
-      if (cached && this.isToday(cached.date)) {
-        this.updateState({
-          ...this.currentState,
-          used: cached.used || 0,
-          remaining: Math.max(0, this.currentState.limit - (cached.used || 0)),
-          isLoading: false,
-        });
-      }
-    } catch (error) {
-      console.error('❌ Failed to load cached usage:', error);
-    }
-  }
-
-  /**
-   * Save usage to storage
-   */
-  private async saveUsage(): Promise<void> {
-    try {
-      await chrome.storage.local.set({
-        dailyUsage: {
-          date: this.getCurrentDate(),
-          used: this.currentState.used,
-          limit: this.currentState.limit,
-        },
-      });
-    } catch (error) {
-      console.error('❌ Failed to save usage:', error);
-    }
-  }
 
-  /**
-   * Sync usage with server
-   */
-  async sync(): Promise<void> {
-    try {
-      const isAuth = await apiClient.isAuthenticated();
-      if (!isAuth) {
-        // Not authenticated, use local tracking
-        this.updateState({
-          ...this.currentState,
-          isLoading: false,
-        });
-        return;
+    lifecycle.addChromeListener(OWNER, chrome.runtime.onMessage, (message: UsageChangedMessage) => {
+      if (message?.type === 'USAGE_CHANGED') {
+        this.updateState(message.payload);
       }
-
-      // Fetch from server
-      const usage = await apiClient.checkUsage();
-
-      const isPremium = authService.isPremium();
-      const limit = isPremium ? PREMIUM_DAILY_LIMIT : FREE_DAILY_LIMIT;
-      const used = limit - usage.remaining;
-
-      this.updateState({
-        remaining: usage.remaining,
-        limit,
-        used,
-        resetAt: usage.resetAt,
-        isPremium,
-        isLoading: false,
-      });
-
-      await this.saveUsage();
-
-    } catch (error) {
-      console.error('❌ Usage sync failed:', error);
-      
-      // Use cached data
-      this.updateState({
-        ...this.currentState,
-        isLoading: false,
-      });
-    }
+      return false;
+    }, 'USAGE_CHANGED');
   }
 
   /**
-   * Check if user can ask a question
+   * Check if user can ask a question (the background has the final say;
+   * until usage has loaded, don't block)
    */
   canAsk(): boolean {
-    // Premium users have unlimited questions
-    if (this.currentState.isPremium) {
+    if (this.currentState.isLoading || this.currentState.isPremium) {
       return true;
     }
 
-    // Check remaining questions
     return this.currentState.remaining > 0;
   }
 
-  /**
-   * Record a question asked
-   */
-  async recordQuestion(): Promise<void> {
-    // Premium users don't need tracking
-    if (this.currentState.isPremium) {
-      return;
-    }
-
-    // Increment used count
-    const used = this.currentState.used + 1;
-    const remaining = Math.max(0, this.currentState.limit - used);
-
-    this.updateState({
-      ...this.currentState,
-      used,
-      remaining,
-    });
-
-    await this.saveUsage();
-
-    // Show warning if running low
-    if (remaining === 3) {
-      this.showLowUsageWarning();
-    } else if (remaining === 0) {
-      this.showLimitReached();
-    }
-
-    // Sync with server in background
-    setTimeout(() => this.sync(), 1000);
-  }
-
   /**
    * Get current usage state
    */
@@ -205,9 +74,9 @@ class RateLimiterService {
   /**
    * Subscribe to usage changes
    */
-  subscribe(callback: (state: UsageState) => void): () => void {
+  subscribe(callback: UsageListener): () => void {
     this.listeners.add(callback);
-    
+
     // Return unsubscribe function
     return () => {
       this.listeners.delete(callback);
@@ -219,7 +88,7 @@ class RateLimiterService {
    */
   private updateState(newState: UsageState): void {
     this.currentState = newState;
-    
+
     // Notify all listeners
     this.listeners.forEach(listener => {
       try {
@@ -228,71 +97,6 @@ class RateLimiterService {
         console.error('❌ Usage listener error:', error);
       }
     });
-
-    // Update badge
-    this.updateBadge();
-  }
-
-  /**
-   * Update extension badge
-   */
-  private updateBadge(): void {
-    if (this.currentState.isPremium) {
-      chrome.action.setBadgeText({ text: '∞' });
-      chrome.action.setBadgeBackgroundColor({ color: '#10b981' }); // Green
-      return;
-    }
-
-    const remaining = this.currentState.remaining;
-    
-    if (remaining === 0) {
-      chrome.action.setBadgeText({ text: '0' });
-      chrome.action.setBadgeBackgroundColor({ color: '#ef4444' }); // Red
-    } else if (remaining <= 3) {
-      chrome.action.setBadgeText({ text: remaining.toString() });
-      chrome.action.setBadgeBackgroundColor({ color: '#f59e0b' }); // Orange
-    } else {
-      chrome.action.setBadgeText({ text: remaining.toString() });
-      chrome.action.setBadgeBackgroundColor({ color: '#8b5cf6' }); // Purple
-    }
-  }
-
-  /**
-   * Show low usage warning
-   */
-  private showLowUsageWarning(): void {
-    chrome.runtime.sendMessage({
-      type: 'SHOW_NOTIFICATION',
-      payload: {
-        type: 'warning',
-        message: `Only ${this.currentState.remaining} questions left today!`,
-        action: {
-          text: 'Upgrade',
-          onClick: () => this.openPricingPage(),
-        },
-      },
-    }).catch(() => {
-      // Ignore errors
-    });
-  }
-
-  /**
-   * Show limit reached notification
-   */
-  private showLimitReached(): void {
-    chrome.runtime.sendMessage({
-      type: 'SHOW_NOTIFICATION',
-      payload: {
-        type: 'error',
-        message: 'Daily limit reached! Upgrade for unlimited questions.',
-        action: {
-          text: 'Upgrade Now',
-          onClick: () => this.openPricingPage(),
-        },
-      },
-    }).catch(() => {
-      // Ignore errors
-    });
   }
 
   /**
@@ -322,7 +126,7 @@ class RateLimiterService {
     if (hours > 0) {
       return `${hours}h ${minutes}m`;
     }
-    
+
     return `${minutes}m`;
   }
 
@@ -333,22 +137,8 @@ class RateLimiterService {
     if (this.currentState.limit === 0) {
       return 0;
     }
-    
-    return Math.round((this.currentState.used / this.currentState.limit) * 100);
-  }
-
-  /**
-   * Check if it's today
-   */
-  private isToday(date: string): boolean {
-    return date === this.getCurrentDate();
-  }
 
-  /**
-   * Get current date in YYYY-MM-DD format
-   */
-  private getCurrentDate(): string {
-    return new Date().toISOString().split('T')[0];
+    return Math.round((this.currentState.used / this.currentState.limit) * 100);
   }
 
   /**
@@ -364,31 +154,13 @@ class RateLimiterService {
    * Cleanup
    */
   destroy(): void {
-    if (this.syncInterval) {
-      window.clearInterval(this.syncInterval);
-      this.syncInterval = null;
-    }
-    
+    lifecycle.disposeOwner(OWNER);
     this.listeners.clear();
   }
 }
 
 // Export singleton instance
-export const rateLimiter = new RateLimiterService();
-
-// Auto-cleanup on extension unload
-if (typeof window !== 'undefined') {
-  window.addEventListener('beforeunload', () => {
-    rateLimiter.destroy();
-  });
-}
-
-// Also cleanup when browser tab closes
-if (typeof chrome !== 'undefined') {
-  chrome.runtime.onSuspend?.addListener(() => {
-    rateLimiter.destroy();
-  });
-}
+export const rateLimiter = new RateLimiterClient();
 
 // Export types
-export type { UsageState };
\ No newline at end of file
+export type { UsageState };
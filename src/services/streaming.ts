@@ -9,13 +9,19 @@
  */
 
 import { apiClient } from './api';
-import { ComplexityLevel } from '../shared/types';
+import { policyService } from './policy';
+import { connectivity } from './connectivity';
+import { ComplexityLevel, SelectionContext, SelectionFormat } from '../shared/types';
 
 interface StreamOptions {
   onToken: (token: string) => void;
   onComplete: (fullText: string) => void;
   onError: (error: Error) => void;
   signal?: AbortSignal;
+  // Page context around the selection, sent alongside (not inside) the question
+  context?: SelectionContext;
+  // 'markdown' tells the API the question keeps table rows, list items and code lines
+  format?: SelectionFormat;
 }
 
 interface ChatMessage {
@@ -32,7 +38,7 @@ export async function streamChatResponse(
   conversationHistory: ChatMessage[] = [],
   options: StreamOptions
 ): Promise<void> {
-  const { onToken, onComplete, onError, signal } = options;
+  const { onToken, onComplete, onError, signal, context, format } = options;
 
   let fullResponse = '';
   let controller: AbortController | null = null;
@@ -60,7 +66,9 @@ export async function streamChatResponse(
     ];
 
     // Make streaming request
-    const response = await fetch(`${process.env.VITE_API_URL || 'https://stupify.app'}/api/chat`, {
+    const apiBaseUrl = await policyService.getApiBaseUrl();
+    const startedAt = Date.now();
+    const response = await fetch(`${apiBaseUrl}/api/chat`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -69,9 +77,23 @@ export async function streamChatResponse(
       body: JSON.stringify({
         messages,
         simplicityLevel: complexityLevel,
-        source: 'extension'
+        source: 'extension',
+        ...(context && { context }),
+        ...(format === 'markdown' && { selectionFormat: 'markdown' }),
       }),
       signal: controller.signal,
+    }).catch((error) => {
+      // Aborts are the user stopping, not the network
+      if (error?.name !== 'AbortError') {
+        connectivity.reportRequest({ ok: false, networkError: true });
+      }
+      throw error;
+    });
+
+    connectivity.reportRequest({
+      ok: response.status < 500,
+      status: response.status,
+      durationMs: Date.now() - startedAt,
     });
 
     if (!response.ok) {
@@ -8,6 +8,14 @@
  * - Auto-open panel toggle
  * - Sound effects toggle
  * - Animation speed control
+ * - Notifications and quiet hours
+ * - Preferred explanation surface
+ * - How much page context is sent with a selection
+ * - Page access (on-demand injection or passive tracking on granted sites)
+ * - Selection "Explain" bubble (hidden sites and snooze)
+ * - Sites and extensions allowed to use the external API
+ *
+ * Values set by managed policy are shown locked ("Managed by your organization")
  */
 
 import { useState, useEffect } from 'react';
@@ -20,41 +28,247 @@ import {
   Save,
   RotateCcw,
   ChevronRight,
-  Check
+  Check,
+  Bell,
+  PanelRight,
+  Globe,
+  Link2,
+  Building2,
+  FileText,
+  X
 } from 'lucide-react';
 import { logger } from '../shared/utils';
+import { DEFAULT_CONTEXT_BUDGET } from '../shared/constants';
+import { sendToBackground } from '../shared/messaging';
+import { getExternalAccessGrants, removeExternalAccess } from '../shared/externalAccess';
+import {
+  getSelectionBubblePrefs,
+  showSelectionBubbleOnSite,
+  snoozeSelectionBubble,
+} from '../shared/selectionBubble';
+import { policyService } from '../services/policy';
+import type { ExternalAccessGrant, ManagedPolicy, SelectionBubblePrefs } from '../shared/types';
 
 type ComplexityLevel = '5yo' | 'normal' | 'advanced';
 type Theme = 'light' | 'dark' | 'system';
 type AnimationSpeed = 'slow' | 'normal' | 'fast';
+type PanelSurface = 'side_panel' | 'floating' | 'popup' | 'inline';
+type SelectionTracking = 'on_demand' | 'passive';
+
+// Chrome owns command bindings; users change them here
+const SHORTCUTS_URL = 'chrome://extensions/shortcuts';
+
+// Characters of page context sent with a selection
+const CONTEXT_BUDGETS: { value: number; label: string; hint: string }[] = [
+  { value: 0, label: 'Off', hint: 'Selection only' },
+  { value: 500, label: 'Brief', hint: '500 characters' },
+  { value: DEFAULT_CONTEXT_BUDGET, label: 'Standard', hint: '1,500 characters' },
+  { value: 3000, label: 'Detailed', hint: '3,000 characters' },
+];
+
+// Granted at install for our API, not page access
+const REQUIRED_ORIGINS = chrome.runtime.getManifest().host_permissions || [];
 
 interface SettingsState {
   defaultComplexity: ComplexityLevel;
-  keyboardShortcut: string;
   theme: Theme;
   autoOpenPanel: boolean;
   soundEffects: boolean;
   animationSpeed: AnimationSpeed;
+  notificationsEnabled: boolean;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  preferredSurface: PanelSurface;
+  selectionTracking: SelectionTracking;
+  showSelectionBubble: boolean;
+  contextBudget: number;
+  showWhatsNew: boolean;
 }
 
 const DEFAULT_SETTINGS: SettingsState = {
   defaultComplexity: 'normal',
-  keyboardShortcut: 'Ctrl+Shift+S',
   theme: 'system',
   autoOpenPanel: true,
   soundEffects: true,
   animationSpeed: 'normal',
+  notificationsEnabled: true,
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+  preferredSurface: 'side_panel',
+  selectionTracking: 'on_demand',
+  showSelectionBubble: true,
+  contextBudget: DEFAULT_CONTEXT_BUDGET,
+  showWhatsNew: true,
 };
 
+/**
+ * Turn "example.com" or a URL into a host permission pattern
+ */
+function toOriginPattern(input: string): string | null {
+  const value = input.trim();
+  if (!value) return null;
+
+  try {
+    const url = new URL(value.includes('://') ? value : `https://${value}`);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return `${url.protocol}//${url.hostname}/*`;
+  } catch {
+    return null;
+  }
+}
+
 export function Settings() {
   const [settings, setSettings] = useState<SettingsState>(DEFAULT_SETTINGS);
   const [saved, setSaved] = useState(false);
-  const [isRecordingShortcut, setIsRecordingShortcut] = useState(false);
+  const [commands, setCommands] = useState<chrome.commands.Command[]>([]);
+  const [grantedOrigins, setGrantedOrigins] = useState<string[]>([]);
+  const [newSite, setNewSite] = useState('');
+  const [siteError, setSiteError] = useState('');
+  const [externalGrants, setExternalGrants] = useState<ExternalAccessGrant[]>([]);
+  const [policy, setPolicy] = useState<ManagedPolicy>({});
+  const [bubblePrefs, setBubblePrefs] = useState<SelectionBubblePrefs>({ hiddenSites: [], snoozedUntil: 0 });
+
+  // Managed values win; the user's own choice is kept underneath
+  const complexityLocked = !!policy.defaultComplexity;
+  const effectiveComplexity = policy.defaultComplexity || settings.defaultComplexity;
 
   useEffect(() => {
     loadSettings();
+    loadCommands();
+    loadGrantedOrigins();
+    loadExternalGrants();
+    loadBubblePrefs();
+
+    policyService.getPolicy().then(setPolicy);
+    return policyService.subscribe(setPolicy);
+  }, []);
+
+  // Bindings and site access can change on chrome://extensions while this page is open
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        loadCommands();
+        loadGrantedOrigins();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
   }, []);
 
+  const loadCommands = async () => {
+    try {
+      setCommands(await chrome.commands.getAll());
+    } catch (error) {
+      logger.error('Failed to load keyboard commands:', error);
+    }
+  };
+
+  const openShortcutSettings = () => {
+    chrome.tabs.create({ url: SHORTCUTS_URL });
+  };
+
+  const loadGrantedOrigins = async () => {
+    try {
+      const { origins = [] } = await chrome.permissions.getAll();
+      setGrantedOrigins(origins.filter((origin) => !REQUIRED_ORIGINS.includes(origin)));
+    } catch (error) {
+      logger.error('Failed to load site access:', error);
+    }
+  };
+
+  // Must run straight from the click (permission requests need a user gesture)
+  const requestSiteAccess = async (origins: string[]) => {
+    try {
+      const granted = await chrome.permissions.request({ origins });
+      if (!granted) {
+        setSiteError('Access was not granted');
+        return;
+      }
+
+      setNewSite('');
+      setSiteError('');
+      await loadGrantedOrigins();
+    } catch (error) {
+      logger.error('Failed to request site access:', error);
+      setSiteError('Could not request access for this site');
+    }
+  };
+
+  // The bubble needs the page script on the site, so grant every site and track
+  // (also straight from the click)
+  const enableBubbleEverywhere = async () => {
+    await requestSiteAccess(['<all_urls>']);
+
+    if (await chrome.permissions.contains({ origins: ['<all_urls>'] })) {
+      setSettings(prev => ({ ...prev, selectionTracking: 'passive' }));
+    }
+  };
+
+  const addSite = () => {
+    const origin = toOriginPattern(newSite);
+    if (!origin) {
+      setSiteError('Enter a site like example.com');
+      return;
+    }
+
+    requestSiteAccess([origin]);
+  };
+
+  const removeSite = async (origin: string) => {
+    try {
+      await chrome.permissions.remove({ origins: [origin] });
+      await loadGrantedOrigins();
+    } catch (error) {
+      logger.error('Failed to remove site access:', error);
+    }
+  };
+
+  const loadExternalGrants = async () => {
+    try {
+      setExternalGrants(await getExternalAccessGrants());
+    } catch (error) {
+      logger.error('Failed to load connected apps:', error);
+    }
+  };
+
+  const forgetExternalGrant = async (caller: string) => {
+    try {
+      await removeExternalAccess(caller);
+      await loadExternalGrants();
+    } catch (error) {
+      logger.error('Failed to remove connected app:', error);
+    }
+  };
+
+  const loadBubblePrefs = async () => {
+    try {
+      setBubblePrefs(await getSelectionBubblePrefs());
+    } catch (error) {
+      logger.error('Failed to load selection bubble preferences:', error);
+    }
+  };
+
+  const showBubbleOnSite = async (hostname: string) => {
+    try {
+      await showSelectionBubbleOnSite(hostname);
+      await loadBubblePrefs();
+    } catch (error) {
+      logger.error('Failed to update selection bubble sites:', error);
+    }
+  };
+
+  const endBubbleSnooze = async () => {
+    try {
+      await snoozeSelectionBubble(0);
+      await loadBubblePrefs();
+    } catch (error) {
+      logger.error('Failed to end selection bubble snooze:', error);
+    }
+  };
+
   const loadSettings = async () => {
     try {
       const result = await chrome.storage.local.get('settings');
@@ -74,7 +288,7 @@ export function Settings() {
       logger.info('Settings saved');
       
       // Track analytics
-      chrome.runtime.sendMessage({
+      sendToBackground({
         type: 'TRACK_EVENT',
         payload: {
           event: 'settings_saved',
@@ -93,37 +307,6 @@ export function Settings() {
     }
   };
 
-  const handleShortcutRecord = () => {
-    setIsRecordingShortcut(true);
-    
-    const handleKeyDown = (e: KeyboardEvent) => {
-      e.preventDefault();
-      const keys: string[] = [];
-      
-      if (e.ctrlKey || e.metaKey) keys.push(e.ctrlKey ? 'Ctrl' : 'Cmd');
-      if (e.shiftKey) keys.push('Shift');
-      if (e.altKey) keys.push('Alt');
-      
-      if (e.key !== 'Control' && e.key !== 'Shift' && e.key !== 'Alt' && e.key !== 'Meta') {
-        keys.push(e.key.toUpperCase());
-      }
-      
-      if (keys.length >= 2) {
-        setSettings(prev => ({ ...prev, keyboardShortcut: keys.join('+') }));
-        setIsRecordingShortcut(false);
-        document.removeEventListener('keydown', handleKeyDown);
-      }
-    };
-    
-    document.addEventListener('keydown', handleKeyDown);
-    
-    // Cancel after 5 seconds
-    setTimeout(() => {
-      setIsRecordingShortcut(false);
-      document.removeEventListener('keydown', handleKeyDown);
-    }, 5000);
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
       {/* Header */}
@@ -176,17 +359,19 @@ export function Settings() {
           icon={<Zap className="w-5 h-5" />}
           title="Default Complexity"
           description="Choose your preferred explanation level"
+          managed={complexityLocked}
         >
           <div className="grid grid-cols-3 gap-3">
             {(['5yo', 'normal', 'advanced'] as ComplexityLevel[]).map((level) => (
               <button
                 key={level}
                 onClick={() => setSettings(prev => ({ ...prev, defaultComplexity: level }))}
+                disabled={complexityLocked}
                 className={`
-                  p-4 rounded-xl border-2 transition-all
-                  ${settings.defaultComplexity === level
+                  p-4 rounded-xl border-2 transition-all disabled:cursor-not-allowed
+                  ${effectiveComplexity === level
                     ? 'border-purple-500 bg-purple-50 shadow-md'
-                    : 'border-gray-200 hover:border-purple-300 bg-white'
+                    : 'border-gray-200 hover:border-purple-300 bg-white disabled:opacity-50 disabled:hover:border-gray-200'
                   }
                 `}
               >
@@ -210,37 +395,35 @@ export function Settings() {
           </div>
         </SettingsSection>
 
-        {/* Keyboard Shortcut */}
+        {/* Keyboard Shortcuts */}
         <SettingsSection
           icon={<Keyboard className="w-5 h-5" />}
-          title="Keyboard Shortcut"
-          description="Quick access to explain selected text"
+          title="Keyboard Shortcuts"
+          description="Quick access to Stupify from any page"
         >
-          <div className="flex items-center gap-4">
-            <div className="flex-1">
-              <button
-                onClick={handleShortcutRecord}
-                className={`
-                  w-full px-4 py-3 rounded-lg border-2 font-mono text-center transition-all
-                  ${isRecordingShortcut
-                    ? 'border-purple-500 bg-purple-50 animate-pulse'
-                    : 'border-gray-300 bg-white hover:border-purple-400'
-                  }
-                `}
-              >
-                {isRecordingShortcut ? 'Press keys...' : settings.keyboardShortcut}
-              </button>
-            </div>
-            <button
-              onClick={handleShortcutRecord}
-              className="px-4 py-3 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors font-medium"
-            >
-              Record
-            </button>
+          <div className="divide-y divide-gray-100">
+            {commands
+              .filter((command) => command.name && command.description)
+              .map((command) => (
+                <div key={command.name} className="flex items-center justify-between py-3">
+                  <span className="text-sm text-gray-900">{command.description}</span>
+                  {command.shortcut ? (
+                    <kbd className="px-2 py-1 rounded-md border border-gray-300 bg-gray-50 font-mono text-xs text-gray-700">
+                      {command.shortcut}
+                    </kbd>
+                  ) : (
+                    <span className="text-xs text-gray-400">Not set</span>
+                  )}
+                </div>
+              ))}
           </div>
-          <p className="text-xs text-gray-500 mt-2">
-            Click "Record" and press your desired key combination
-          </p>
+          <button
+            onClick={openShortcutSettings}
+            className="mt-4 flex items-center gap-1 text-sm font-medium text-purple-600 hover:text-purple-700"
+          >
+            Change shortcuts in Chrome
+            <ChevronRight className="w-4 h-4" />
+          </button>
         </SettingsSection>
 
         {/* Theme */}
@@ -277,6 +460,247 @@ export function Settings() {
           </div>
         </SettingsSection>
 
+        {/* Explanation Surface */}
+        <SettingsSection
+          icon={<PanelRight className="w-5 h-5" />}
+          title="Where to Explain"
+          description="Falls back to the floating panel, then a popup window, if this can't open"
+        >
+          <div className="grid grid-cols-4 gap-3">
+            {(['side_panel', 'floating', 'popup', 'inline'] as PanelSurface[]).map((surface) => (
+              <button
+                key={surface}
+                onClick={() => setSettings(prev => ({ ...prev, preferredSurface: surface }))}
+                className={`
+                  p-4 rounded-xl border-2 transition-all
+                  ${settings.preferredSurface === surface
+                    ? 'border-purple-500 bg-purple-50 shadow-md'
+                    : 'border-gray-200 hover:border-purple-300 bg-white'
+                  }
+                `}
+              >
+                <div className="text-center">
+                  <div className="text-2xl mb-2">
+                    {surface === 'side_panel' && '📑'}
+                    {surface === 'floating' && '🪟'}
+                    {surface === 'popup' && '🗔'}
+                    {surface === 'inline' && '💬'}
+                  </div>
+                  <div className="font-semibold text-gray-900">
+                    {surface === 'side_panel' && 'Side Panel'}
+                    {surface === 'floating' && 'Floating Panel'}
+                    {surface === 'popup' && 'Popup Window'}
+                    {surface === 'inline' && 'Inline Card'}
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        </SettingsSection>
+
+        {/* Page Context */}
+        <SettingsSection
+          icon={<FileText className="w-5 h-5" />}
+          title="Page Context"
+          description="Send the surrounding paragraph, headings and page title with your selection for answers about the actual article"
+        >
+          <div className="grid grid-cols-4 gap-3">
+            {CONTEXT_BUDGETS.map(({ value, label, hint }) => (
+              <button
+                key={value}
+                onClick={() => setSettings(prev => ({ ...prev, contextBudget: value }))}
+                className={`
+                  p-4 rounded-xl border-2 transition-all
+                  ${settings.contextBudget === value
+                    ? 'border-purple-500 bg-purple-50 shadow-md'
+                    : 'border-gray-200 hover:border-purple-300 bg-white'
+                  }
+                `}
+              >
+                <div className="text-center">
+                  <div className="font-semibold text-gray-900">{label}</div>
+                  <div className="text-xs text-gray-500 mt-1">{hint}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+        </SettingsSection>
+
+        {/* Page Access */}
+        <SettingsSection
+          icon={<Globe className="w-5 h-5" />}
+          title="Page Access"
+          description="Stupify only runs on a page when you use it, unless you allow a site"
+        >
+          <div className="space-y-4">
+            <ToggleOption
+              label="Track selections on allowed sites"
+              description="Show selection shortcuts as you select text on the sites below"
+              checked={settings.selectionTracking === 'passive'}
+              onChange={(checked) => setSettings(prev => ({
+                ...prev,
+                selectionTracking: checked ? 'passive' : 'on_demand',
+              }))}
+            />
+
+            <ToggleOption
+              label="Show the Explain bubble"
+              description="Offer quick Explain buttons next to text you select on allowed sites"
+              checked={settings.showSelectionBubble}
+              onChange={(checked) => setSettings(prev => ({ ...prev, showSelectionBubble: checked }))}
+            />
+
+            {settings.showSelectionBubble && (settings.selectionTracking !== 'passive' || grantedOrigins.length === 0) && (
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-yellow-50 text-sm text-yellow-800">
+                <span>
+                  The bubble only appears on sites you allow with selection tracking on. Until then, use the
+                  right-click menu or the keyboard shortcut.
+                </span>
+                <button
+                  onClick={enableBubbleEverywhere}
+                  className="shrink-0 px-3 py-1 rounded-md bg-yellow-100 font-medium hover:bg-yellow-200"
+                >
+                  Allow all sites
+                </button>
+              </div>
+            )}
+
+            {bubblePrefs.snoozedUntil > Date.now() && (
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  Bubble snoozed until{' '}
+                  {new Date(bubblePrefs.snoozedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                <button
+                  onClick={endBubbleSnooze}
+                  className="px-3 py-1 rounded-md text-purple-600 hover:bg-purple-50"
+                >
+                  Resume now
+                </button>
+              </div>
+            )}
+
+            {bubblePrefs.hiddenSites.length > 0 && (
+              <div>
+                <div className="text-sm font-medium text-gray-900 mb-2">Bubble hidden on</div>
+                <div className="flex flex-wrap gap-2">
+                  {bubblePrefs.hiddenSites.map((hostname) => (
+                    <span
+                      key={hostname}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md bg-gray-100 font-mono text-xs text-gray-600"
+                    >
+                      {hostname}
+                      <button
+                        onClick={() => showBubbleOnSite(hostname)}
+                        className="text-gray-400 hover:text-gray-700"
+                        aria-label={`Show the bubble on ${hostname} again`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="divide-y divide-gray-100">
+              {grantedOrigins.length === 0 ? (
+                <p className="py-3 text-sm text-gray-400">No sites allowed yet</p>
+              ) : (
+                grantedOrigins.map((origin) => (
+                  <div key={origin} className="flex items-center justify-between py-3">
+                    <span className="font-mono text-sm text-gray-900">
+                      {origin === '<all_urls>' ? 'All sites' : origin}
+                    </span>
+                    <button
+                      onClick={() => removeSite(origin)}
+                      className="p-1 rounded-md text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+                      aria-label={`Remove ${origin}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newSite}
+                placeholder="example.com"
+                onChange={(e) => {
+                  setNewSite(e.target.value);
+                  setSiteError('');
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && addSite()}
+                className="flex-1 px-3 py-2 rounded-lg border-2 border-gray-300 focus:border-purple-500 outline-none text-sm"
+              />
+              <button
+                onClick={addSite}
+                className="px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-medium hover:bg-purple-700"
+              >
+                Allow site
+              </button>
+              <button
+                onClick={() => requestSiteAccess(['<all_urls>'])}
+                className="px-4 py-2 rounded-lg text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100"
+              >
+                Allow all sites
+              </button>
+            </div>
+
+            {siteError && <p className="text-sm text-red-600">{siteError}</p>}
+
+            {!!policy.blockedDomains?.length && (
+              <div className="pt-2">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-sm font-medium text-gray-900">Always off on</span>
+                  <ManagedBadge />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {policy.blockedDomains.map((domain) => (
+                    <span key={domain} className="px-2 py-1 rounded-md bg-gray-100 font-mono text-xs text-gray-600">
+                      {domain}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </SettingsSection>
+
+        {/* Connected Sites & Apps */}
+        <SettingsSection
+          icon={<Link2 className="w-5 h-5" />}
+          title="Connected Sites & Apps"
+          description="Pages and extensions that asked to use Stupify for you"
+        >
+          <div className="divide-y divide-gray-100">
+            {externalGrants.length === 0 ? (
+              <p className="py-3 text-sm text-gray-400">Nothing has asked yet</p>
+            ) : (
+              externalGrants.map((grant) => (
+                <div key={grant.caller} className="flex items-center justify-between py-3">
+                  <div>
+                    <div className="font-mono text-sm text-gray-900 break-all">{grant.caller}</div>
+                    <div className={`text-xs ${grant.status === 'granted' ? 'text-green-600' : 'text-gray-400'}`}>
+                      {grant.status === 'granted' ? 'Allowed' : 'Blocked'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => forgetExternalGrant(grant.caller)}
+                    className="p-1 rounded-md text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+                    aria-label={`Forget ${grant.caller}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </SettingsSection>
+
         {/* Toggles */}
         <SettingsSection
           icon={<Gauge className="w-5 h-5" />}
@@ -297,6 +721,59 @@ export function Settings() {
               checked={settings.soundEffects}
               onChange={(checked) => setSettings(prev => ({ ...prev, soundEffects: checked }))}
             />
+
+            <ToggleOption
+              label="Show what's new after updates"
+              description="Open the release notes when Stupify gets new features"
+              checked={settings.showWhatsNew}
+              onChange={(checked) => setSettings(prev => ({ ...prev, showWhatsNew: checked }))}
+            />
+          </div>
+        </SettingsSection>
+
+        {/* Notifications */}
+        <SettingsSection
+          icon={<Bell className="w-5 h-5" />}
+          title="Notifications"
+          description="Usage warnings, offline and sync alerts"
+        >
+          <div className="space-y-4">
+            <ToggleOption
+              label="Show notifications"
+              description="Show alerts on the page or as system notifications"
+              checked={settings.notificationsEnabled}
+              onChange={(checked) => setSettings(prev => ({ ...prev, notificationsEnabled: checked }))}
+            />
+
+            <ToggleOption
+              label="Quiet hours"
+              description="Hold back system notifications during these hours"
+              checked={settings.quietHoursEnabled}
+              onChange={(checked) => setSettings(prev => ({ ...prev, quietHoursEnabled: checked }))}
+            />
+
+            {settings.quietHoursEnabled && (
+              <div className="flex items-center gap-3 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  From
+                  <input
+                    type="time"
+                    value={settings.quietHoursStart}
+                    onChange={(e) => setSettings(prev => ({ ...prev, quietHoursStart: e.target.value }))}
+                    className="px-3 py-2 rounded-lg border-2 border-gray-300 focus:border-purple-500 outline-none"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  to
+                  <input
+                    type="time"
+                    value={settings.quietHoursEnd}
+                    onChange={(e) => setSettings(prev => ({ ...prev, quietHoursEnd: e.target.value }))}
+                    className="px-3 py-2 rounded-lg border-2 border-gray-300 focus:border-purple-500 outline-none"
+                  />
+                </label>
+              </div>
+            )}
           </div>
         </SettingsSection>
 
@@ -382,11 +859,13 @@ function SettingsSection({
   icon, 
   title, 
   description, 
+  managed = false,
   children 
 }: { 
   icon: React.ReactNode; 
   title: string; 
   description: string; 
+  managed?: boolean;
   children: React.ReactNode;
 }) {
   return (
@@ -396,7 +875,10 @@ function SettingsSection({
           {icon}
         </div>
         <div className="flex-1">
-          <h3 className="font-semibold text-gray-900 text-lg">{title}</h3>
+          <div className="flex items-center gap-2">
+            <h3 className="font-semibold text-gray-900 text-lg">{title}</h3>
+            {managed && <ManagedBadge />}
+          </div>
           <p className="text-sm text-gray-500 mt-1">{description}</p>
         </div>
       </div>
@@ -405,6 +887,15 @@ function SettingsSection({
   );
 }
 
+function ManagedBadge() {
+  return (
+    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600">
+      <Building2 className="w-3 h-3" />
+      Managed by your organization
+    </span>
+  );
+}
+
 function ToggleOption({
   label,
   description,
@@ -0,0 +1,57 @@
+/**
+ * Changelog
+ *
+ * Bundled release notes shown on the "What's new" page after an update
+ * - Newest entries first, one per released version
+ * - Only notable releases open the page; the rest are listed but stay quiet
+ */
+
+import { compareVersions } from './utils';
+
+export interface ChangelogHighlight {
+  title: string;
+  description: string;
+}
+
+export interface ChangelogEntry {
+  version: string;
+  date: string; // YYYY-MM-DD
+  notable: boolean;
+  highlights: ChangelogHighlight[];
+}
+
+export const CHANGELOG: ChangelogEntry[] = [
+  {
+    version: '1.0.0',
+    date: '2025-10-01',
+    notable: true,
+    highlights: [
+      {
+        title: 'Explain anything on the page',
+        description: 'Select text and get it explained at the level you choose, right in the side panel.',
+      },
+      {
+        title: 'Three complexity levels',
+        description: "Switch between 5-year-old, normal and advanced explanations whenever you like.",
+      },
+    ],
+  },
+];
+
+/**
+ * Entries released after `fromVersion`, up to and including `toVersion`
+ */
+export function getChangelogBetween(fromVersion: string, toVersion: string): ChangelogEntry[] {
+  return CHANGELOG.filter(
+    (entry) =>
+      compareVersions(entry.version, fromVersion) > 0 &&
+      compareVersions(entry.version, toVersion) <= 0
+  );
+}
+
+/**
+ * Whether an update is worth opening the "What's new" page for
+ */
+export function hasNotableChanges(fromVersion: string, toVersion: string): boolean {
+  return getChangelogBetween(fromVersion, toVersion).some((entry) => entry.notable);
+}
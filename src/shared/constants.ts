@@ -1,5 +1,7 @@
 // Constants for Stupify Chrome Extension
 
+import type { SelectionTracking } from './types';
+
 export const APP_NAME = 'Stupify';
 export const APP_VERSION = '1.0.0';
 
@@ -17,9 +19,16 @@ export const MAX_CACHED_EXPLANATIONS = 10;
 export const CACHE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 // Selection Constraints
-export const MIN_SELECTION_LENGTH = 10;
+export const MIN_SELECTION_LENGTH = 2;
 export const MAX_SELECTION_LENGTH = 5000;
 
+// Short selections (a word or a short phrase) get a definition card
+export const MAX_DEFINE_WORDS = 3;
+export const MAX_DEFINE_LENGTH = 60;
+
+// Characters of surrounding page context sent with a selection (0 = none)
+export const DEFAULT_CONTEXT_BUDGET = 1500;
+
 // UI Configuration
 export const SIDE_PANEL_WIDTH = 400;
 export const POPUP_WIDTH = 320;
@@ -57,7 +66,7 @@ export const ERROR_MESSAGES = {
   NETWORK_ERROR: 'Network error. Please check your connection and try again.',
   AUTH_ERROR: 'Authentication failed. Please sign in again.',
   RATE_LIMIT: 'You\'ve reached your daily limit. Upgrade to Premium for unlimited explanations!',
-  INVALID_SELECTION: 'Please select text between 10 and 5000 characters.',
+  INVALID_SELECTION: 'Please select a word or up to 5000 characters of text.',
   UNKNOWN_ERROR: 'Something went wrong. Please try again.',
   NO_TEXT_SELECTED: 'Please select some text to explain.',
 } as const;
@@ -72,6 +81,10 @@ export const STORAGE_KEYS = {
   ONBOARDING_COMPLETED: 'onboarding_completed',
   LAST_SYNC: 'last_sync',
   ANALYTICS_QUEUE: 'analytics_queue',
+  SYNC_STATUS: 'syncStatus', // session (mirrored from the offscreen sync runner)
+  CONNECTIVITY: 'connectivity', // session (written by the background connectivity monitor)
+  DEFINITION_CACHE: 'definitionCache',
+  PANEL_TOKENS: 'panelTokens', // session (issued by the background for framed and popup panels)
 } as const;
 
 // Default Settings
@@ -86,10 +99,23 @@ export const DEFAULT_SETTINGS = {
 export const CONTEXT_MENU_ID = 'stupify-simplify';
 export const CONTEXT_MENU_TITLE = 'Simplify with Stupify';
 
-// Keyboard Shortcuts
-export const KEYBOARD_SHORTCUTS = {
-  SIMPLIFY: 'simplify-selection',
-};
+// Global the background sets before injecting the content script on demand
+export const CONTENT_SCRIPT_TRACKING_GLOBAL = '__stupifySelectionTracking';
+
+declare global {
+  var __stupifySelectionTracking: SelectionTracking | undefined;
+  var __stupifyExternalBridge: (() => void) | undefined;
+}
+
+// External integration API (see background/externalApi.ts)
+export const EXTERNAL_API_VERSION = 1;
+export const EXTERNAL_API_SUPPORTED_VERSIONS = [1];
+
+// window.postMessage envelope sources for the page bridge
+export const EXTERNAL_BRIDGE_PAGE_SOURCE = 'stupify-page';
+export const EXTERNAL_BRIDGE_EXTENSION_SOURCE = 'stupify-extension';
+// Teardown of the bridge answering this frame (content script or partner bridge)
+export const EXTERNAL_BRIDGE_GLOBAL = '__stupifyExternalBridge';
 
 // URLs
 export const URLS = {
@@ -101,6 +127,7 @@ export const URLS = {
   UPGRADE: 'https://stupify.app/pricing',
   SUPPORT: 'mailto:support@stupify.app',
   PRIVACY: 'https://stupify.app/privacy',
+  UNINSTALL_FEEDBACK: 'https://stupify.app/uninstall',
 } as const;
 
 // Badge Colors
@@ -0,0 +1,56 @@
+/**
+ * External Access Grants
+ *
+ * Which partner pages and extensions may use the external API, in
+ * chrome.storage.local
+ * - One decision per caller ("https://origin" or "extension:<id>")
+ * - Written by the background after the user answers the access prompt
+ * - Listed and revoked from the settings page
+ */
+
+import type { ExternalAccessGrant, ExternalAccessStatus } from './types';
+
+const EXTERNAL_ACCESS_KEY = 'externalAccess';
+
+/**
+ * All decisions, newest first
+ */
+export async function getExternalAccessGrants(): Promise<ExternalAccessGrant[]> {
+  const result = await chrome.storage.local.get(EXTERNAL_ACCESS_KEY);
+  const grants = result[EXTERNAL_ACCESS_KEY];
+  return Array.isArray(grants) ? grants : [];
+}
+
+/**
+ * Current status for a caller ('prompt' if the user hasn't decided)
+ */
+export async function getExternalAccessStatus(caller: string): Promise<ExternalAccessStatus> {
+  const grants = await getExternalAccessGrants();
+  return grants.find((grant) => grant.caller === caller)?.status || 'prompt';
+}
+
+/**
+ * Record the user's decision for a caller
+ */
+export async function setExternalAccess(caller: string, allowed: boolean): Promise<void> {
+  const grants = await getExternalAccessGrants();
+  const grant: ExternalAccessGrant = {
+    caller,
+    status: allowed ? 'granted' : 'denied',
+    decidedAt: Date.now(),
+  };
+
+  await chrome.storage.local.set({
+    [EXTERNAL_ACCESS_KEY]: [grant, ...grants.filter((item) => item.caller !== caller)],
+  });
+}
+
+/**
+ * Forget a caller's decision (it will be asked again)
+ */
+export async function removeExternalAccess(caller: string): Promise<void> {
+  const grants = await getExternalAccessGrants();
+  await chrome.storage.local.set({
+    [EXTERNAL_ACCESS_KEY]: grants.filter((item) => item.caller !== caller),
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Favorite Explanations
+ *
+ * Explanations the user chose to keep, in chrome.storage.local
+ * - Newest first, capped so the list can't grow without bound
+ * - Saving the same question at the same level again moves it to the top
+ */
+
+import type { FavoriteExplanation } from './types';
+import { generateId } from './utils';
+
+const FAVORITES_KEY = 'favorites';
+const MAX_FAVORITES = 100;
+
+type NewFavorite = Omit<FavoriteExplanation, 'id' | 'savedAt'>;
+
+/**
+ * All favorites, newest first
+ */
+export async function getFavorites(): Promise<FavoriteExplanation[]> {
+  const result = await chrome.storage.local.get(FAVORITES_KEY);
+  const favorites = result[FAVORITES_KEY];
+  return Array.isArray(favorites) ? favorites : [];
+}
+
+/**
+ * Save an explanation to favorites
+ */
+export async function addFavorite(favorite: NewFavorite): Promise<FavoriteExplanation> {
+  const entry: FavoriteExplanation = {
+    ...favorite,
+    id: generateId(),
+    savedAt: Date.now(),
+  };
+
+  const favorites = await getFavorites();
+  const updated = [
+    entry,
+    ...favorites.filter(
+      (item) => item.question !== entry.question || item.complexity !== entry.complexity
+    ),
+  ].slice(0, MAX_FAVORITES);
+
+  await chrome.storage.local.set({ [FAVORITES_KEY]: updated });
+  return entry;
+}
+
+/**
+ * Remove a favorite by ID
+ */
+export async function removeFavorite(id: string): Promise<void> {
+  const favorites = await getFavorites();
+  await chrome.storage.local.set({
+    [FAVORITES_KEY]: favorites.filter((item) => item.id !== id),
+  });
+}
@@ -0,0 +1,50 @@
+/**
+ * Background Messaging Client
+ *
+ * Typed wrapper around chrome.runtime.sendMessage for the popup,
+ * side panel, settings pages and content script.
+ */
+
+import type {
+  BackgroundMessage,
+  BackgroundResponseMap,
+  RpcError,
+  RpcErrorCode,
+  RpcResponse,
+} from './types';
+
+/**
+ * Error thrown when the background returns a structured error
+ */
+export class MessagingError extends Error {
+  code: RpcErrorCode;
+
+  constructor(error: RpcError) {
+    super(error.message);
+    this.name = 'MessagingError';
+    this.code = error.code;
+  }
+}
+
+/**
+ * Send a typed message to the background and unwrap its response
+ */
+export async function sendToBackground<T extends BackgroundMessage>(
+  message: T
+): Promise<BackgroundResponseMap[T['type']]> {
+  const response: RpcResponse<BackgroundResponseMap[T['type']]> | undefined =
+    await chrome.runtime.sendMessage(message);
+
+  if (!response) {
+    throw new MessagingError({
+      code: 'NO_RESPONSE',
+      message: `No response for ${message.type}`,
+    });
+  }
+
+  if (!response.success) {
+    throw new MessagingError(response.error);
+  }
+
+  return response.data;
+}
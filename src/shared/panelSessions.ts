@@ -0,0 +1,48 @@
+/**
+ * Side Panel Sessions
+ *
+ * Per-tab explanation state in chrome.storage.session
+ * - The side panel saves the tab it is showing and restores on tab switch
+ * - Tab-bound panels (floating, popup, tab-specific side panel) use the same entry
+ * - Background drops the entry when the tab closes
+ */
+
+import type { PanelSession } from './sidepanel';
+
+const KEY_PREFIX = 'panelSession:';
+
+/**
+ * Storage key for one tab's session
+ */
+export function getPanelSessionKey(tabId: number): string {
+  return `${KEY_PREFIX}${tabId}`;
+}
+
+export function isPanelSessionKey(key: string): boolean {
+  return key.startsWith(KEY_PREFIX);
+}
+
+/**
+ * Load a tab's session, or null if it has none
+ */
+export async function loadPanelSession(tabId: number): Promise<PanelSession | null> {
+  const key = getPanelSessionKey(tabId);
+  const result = await chrome.storage.session.get(key);
+  return result[key] || null;
+}
+
+/**
+ * Save a tab's session
+ */
+export async function savePanelSession(session: PanelSession): Promise<void> {
+  await chrome.storage.session.set({
+    [getPanelSessionKey(session.tabId)]: { ...session, updatedAt: Date.now() },
+  });
+}
+
+/**
+ * Drop a tab's session (e.g. when the tab closes)
+ */
+export async function clearPanelSession(tabId: number): Promise<void> {
+  await chrome.storage.session.remove(getPanelSessionKey(tabId));
+}
@@ -0,0 +1,80 @@
+/**
+ * Pending Explanation Handoff
+ *
+ * Per-tab queue in chrome.storage.session for explanations waiting on the side panel
+ * - Background enqueues before opening the panel
+ * - The side panel takes only the entries for its own window and tab
+ * - Entries expire on their own; nothing is written to disk
+ */
+
+import type { PendingExplanation } from './types';
+import { generateId } from './utils';
+
+const KEY_PREFIX = 'pendingExplanations:';
+const PENDING_TTL = 5 * 60 * 1000; // 5 minutes
+const MAX_PER_TAB = 5;
+
+type NewPendingExplanation = Omit<PendingExplanation, 'id' | 'createdAt' | 'expiresAt'>;
+
+/**
+ * Storage key for one tab's queue
+ */
+export function getPendingKey(windowId: number, tabId: number): string {
+  return `${KEY_PREFIX}${windowId}:${tabId}`;
+}
+
+export function isPendingKey(key: string): boolean {
+  return key.startsWith(KEY_PREFIX);
+}
+
+function isFresh(entry: PendingExplanation, now = Date.now()): boolean {
+  return entry.expiresAt > now;
+}
+
+/**
+ * Queue an explanation for a tab's side panel
+ */
+export async function enqueuePendingExplanation(
+  request: NewPendingExplanation
+): Promise<PendingExplanation> {
+  const now = Date.now();
+  const key = getPendingKey(request.windowId, request.tabId);
+
+  const entry: PendingExplanation = {
+    ...request,
+    id: generateId(),
+    createdAt: now,
+    expiresAt: now + PENDING_TTL,
+  };
+
+  const result = await chrome.storage.session.get(key);
+  const queue: PendingExplanation[] = result[key] || [];
+  const updated = [...queue.filter((item) => isFresh(item, now)), entry].slice(-MAX_PER_TAB);
+
+  await chrome.storage.session.set({ [key]: updated });
+  return entry;
+}
+
+/**
+ * Remove and return a tab's unexpired entries (oldest first)
+ */
+export async function takePendingExplanations(
+  windowId: number,
+  tabId: number
+): Promise<PendingExplanation[]> {
+  const key = getPendingKey(windowId, tabId);
+  const result = await chrome.storage.session.get(key);
+  const queue: PendingExplanation[] = result[key] || [];
+
+  if (queue.length === 0) return [];
+
+  await chrome.storage.session.remove(key);
+  return queue.filter((item) => isFresh(item));
+}
+
+/**
+ * Drop a tab's queue (e.g. when the tab closes)
+ */
+export async function clearPendingExplanations(windowId: number, tabId: number): Promise<void> {
+  await chrome.storage.session.remove(getPendingKey(windowId, tabId));
+}
@@ -0,0 +1,62 @@
+/**
+ * Selection Bubble Preferences
+ *
+ * Where the in-page "Explain" bubble stays hidden, in chrome.storage.local
+ * - Sites the user chose "Don't show on this site" for (hostnames)
+ * - A snooze that hides it everywhere for a while
+ * - The on/off switch itself is settings.showSelectionBubble
+ */
+
+import type { SelectionBubblePrefs } from './types';
+
+const SELECTION_BUBBLE_KEY = 'selectionBubble';
+
+const EMPTY_PREFS: SelectionBubblePrefs = { hiddenSites: [], snoozedUntil: 0 };
+
+export async function getSelectionBubblePrefs(): Promise<SelectionBubblePrefs> {
+  const result = await chrome.storage.local.get(SELECTION_BUBBLE_KEY);
+  return { ...EMPTY_PREFS, ...result[SELECTION_BUBBLE_KEY] };
+}
+
+/**
+ * Whether the bubble should stay hidden on a site right now
+ */
+export function isSelectionBubbleSuppressed(
+  prefs: SelectionBubblePrefs,
+  hostname: string,
+  now: number = Date.now()
+): boolean {
+  return prefs.snoozedUntil > now || prefs.hiddenSites.includes(hostname);
+}
+
+/**
+ * "Don't show on this site"
+ */
+export async function hideSelectionBubbleOnSite(hostname: string): Promise<void> {
+  const prefs = await getSelectionBubblePrefs();
+  if (prefs.hiddenSites.includes(hostname)) return;
+
+  await chrome.storage.local.set({
+    [SELECTION_BUBBLE_KEY]: { ...prefs, hiddenSites: [...prefs.hiddenSites, hostname] },
+  });
+}
+
+/**
+ * Show the bubble on a site again (settings page)
+ */
+export async function showSelectionBubbleOnSite(hostname: string): Promise<void> {
+  const prefs = await getSelectionBubblePrefs();
+  await chrome.storage.local.set({
+    [SELECTION_BUBBLE_KEY]: { ...prefs, hiddenSites: prefs.hiddenSites.filter((site) => site !== hostname) },
+  });
+}
+
+/**
+ * Hide the bubble everywhere for a while (0 ends a snooze)
+ */
+export async function snoozeSelectionBubble(durationMs: number): Promise<void> {
+  const prefs = await getSelectionBubblePrefs();
+  await chrome.storage.local.set({
+    [SELECTION_BUBBLE_KEY]: { ...prefs, snoozedUntil: durationMs > 0 ? Date.now() + durationMs : 0 },
+  });
+}
@@ -3,6 +3,8 @@
  * Day 4: Side Panel UI
  */
 
+import type { Definition, SelectionContext, SelectionFormat, SelectionMode } from './types';
+
 export type ComplexityLevel = '5yo' | 'normal' | 'advanced';
 
 export interface SelectedText {
@@ -10,6 +12,12 @@ export interface SelectedText {
   url: string;
   domain: string;
   timestamp: number;
+  // Markdown when the selection had tables, lists, code or links
+  format?: SelectionFormat;
+  // Page context captured with the selection (grounds the explanation)
+  context?: SelectionContext;
+  // 'define' for a short page selection (unset: explain)
+  mode?: SelectionMode;
 }
 
 export interface ExplanationState {
@@ -18,6 +26,8 @@ export interface ExplanationState {
   response: string;
   error: string | null;
   completed: boolean;
+  // Set instead of streaming for short selections (response holds its text form)
+  definition?: Definition;
 }
 
 export interface FollowUpQuestion {
@@ -39,13 +49,30 @@ export interface SidePanelState {
   // Follow-ups
   followUpQuestions: FollowUpQuestion[];
   
-  // History
+  // History (newest first, per tab)
   history: ExplanationHistory[];
+
+  // Index into history being viewed (null = current explanation)
+  historyCursor: number | null;
   
   // UI State
   isCollapsed: boolean;
 }
 
+// Tab-scoped part of the side panel state (see shared/panelSessions.ts)
+export interface PanelSession {
+  tabId: number;
+  selectedText: SelectedText | null;
+  complexity: ComplexityLevel;
+  explanation: ExplanationState;
+  followUpQuestions: FollowUpQuestion[];
+  history: ExplanationHistory[];
+  historyCursor: number | null;
+  // Background stream still running for this tab
+  streamId: string | null;
+  updatedAt: number;
+}
+
 export interface ExplanationHistory {
   id: string;
   question: string;
@@ -65,22 +92,97 @@ export interface OpenSidePanelMessage {
   };
 }
 
+export interface ExplanationStartedMessage {
+  type: 'EXPLANATION_STARTED';
+  payload: {
+    streamId: string;
+    question: string;
+    complexity: ComplexityLevel;
+  };
+}
+
 export interface ExplanationStreamMessage {
   type: 'EXPLANATION_STREAM';
   payload: {
+    streamId: string;
     chunk: string;
     done: boolean;
+    // True when the chunk replays buffered text to a (re)attached view
+    replayed?: boolean;
   };
 }
 
 export interface ExplanationErrorMessage {
   type: 'EXPLANATION_ERROR';
   payload: {
+    streamId: string;
     error: string;
   };
 }
 
+export interface ExplanationCancelledMessage {
+  type: 'EXPLANATION_CANCELLED';
+  payload: {
+    streamId: string;
+  };
+}
+
 export type SidePanelMessage =
   | OpenSidePanelMessage
+  | ExplanationStartedMessage
   | ExplanationStreamMessage
-  | ExplanationErrorMessage;
\ No newline at end of file
+  | ExplanationErrorMessage
+  | ExplanationCancelledMessage;
+
+// Port used by views to drive and observe background explanation streams
+export const EXPLANATION_PORT_NAME = 'explanation-stream';
+
+// Port an open side panel holds so the background knows it is showing
+export const SIDE_PANEL_PORT_NAME = 'side-panel';
+
+export interface SidePanelHello {
+  type: 'SIDE_PANEL_OPENED';
+  payload: {
+    windowId: number;
+  };
+}
+
+export interface CloseSidePanelRequest {
+  type: 'CLOSE_SIDE_PANEL';
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface StartExplanationRequest {
+  type: 'START_EXPLANATION';
+  payload: {
+    question: string;
+    complexity: ComplexityLevel;
+    history?: ConversationTurn[];
+    format?: SelectionFormat;
+    context?: SelectionContext;
+  };
+}
+
+export interface AttachExplanationRequest {
+  type: 'ATTACH_EXPLANATION';
+  payload: {
+    // Omit to attach to the most recent stream
+    streamId?: string;
+  };
+}
+
+export interface CancelExplanationRequest {
+  type: 'CANCEL_EXPLANATION';
+  payload: {
+    streamId: string;
+  };
+}
+
+export type ExplanationPortRequest =
+  | StartExplanationRequest
+  | AttachExplanationRequest
+  | CancelExplanationRequest;
@@ -81,17 +81,47 @@ export interface ExtensionSettings {
   keyboardShortcut: string;
 }
 
+// Enterprise policy from chrome.storage.managed (see public/managed_schema.json)
+export interface ManagedPolicy {
+  apiBaseUrl?: string;
+  defaultComplexity?: ComplexityLevel;
+  analyticsEnabled?: boolean;
+  blockedDomains?: string[];
+}
+
 export interface AnalyticsEvent {
   event_name: string;
   properties?: Record<string, any>;
   timestamp: number;
 }
 
+// Short selections are defined, everything else is explained
+export type SelectionMode = 'define' | 'explain';
+
+// Compact definition card for a word or short phrase
+export interface Definition {
+  term: string;
+  partOfSpeech: string;
+  definition: string;
+  example: string;
+  complexity: ComplexityLevel;
+}
+
+export interface DefineTermResult {
+  definition: Definition;
+  // Served from the definition cache (no quota used)
+  cached: boolean;
+  // Questions this lookup counts as (below 1 when the backend charges less)
+  quotaCost: number;
+}
+
 export interface CachedExplanation {
   question: string;
   answer: string;
   complexity_level: ComplexityLevel;
   cached_at: number;
+  // Hash of the page context the answer was grounded in (unset: none)
+  context_key?: string;
 }
 
 // Chrome extension specific types
@@ -101,6 +131,31 @@ export interface SelectionData {
   title: string;
   x: number;
   y: number;
+  context?: SelectionContext;
+}
+
+// What the page says around a selection, sent with the question so answers
+// refer to the actual article (see content/selectionContext.ts)
+export interface SelectionContext {
+  // Enclosing paragraph (or list item, table cell, quote)
+  paragraph: string;
+  // Nearest heading chain, outermost first ("Guide", "Installing", "Linux")
+  headings: string[];
+  title: string;
+  description: string;
+  // Page language from <html lang> ('' when the page doesn't say)
+  language: string;
+}
+
+// How selected text is written: plain, or Markdown that keeps tables,
+// lists, code and links (see content/selectionMarkdown.ts)
+export type SelectionFormat = 'text' | 'markdown';
+
+// Current selection as reported by the content script
+export interface CurrentSelection {
+  text: string;
+  format: SelectionFormat;
+  context: SelectionContext | null;
 }
 
 // This is the base interface for all Chrome extension messages
@@ -112,12 +167,37 @@ export interface ChromeMessage {
 // Specific message types for better type safety
 export type ChromeMessageType =
   | 'OPEN_SIDE_PANEL'
-  | 'CONTEXT_MENU_CLICKED'
   | 'GET_CURRENT_SELECTION'
+  | 'GET_PAGE_CONTENT'
+  | 'PING_CONTENT_SCRIPT'
+  | 'SHOW_FLOATING_PANEL'
+  | 'SHOW_INLINE_CARD'
   | 'TRACK_EVENT'
   | 'GET_AUTH_STATE'
   | 'SET_AUTH_STATE'
   | 'CLEAR_AUTH_STATE'
+  | 'GET_AUTH'
+  | 'SEND_ANALYTICS'
+  | 'CHECK_USAGE'
+  | 'REFRESH_TOKEN'
+  | 'AUTH_STATE_CHANGED'
+  | 'AUTH_ERROR'
+  | 'SHOW_NOTIFICATION'
+  | 'NOTIFICATION_ACTION'
+  | 'SHOW_TOAST'
+  | 'RUN_SYNC'
+  | 'SYNC_STATUS_CHANGED'
+  | 'WEB_AUTH_COMPLETE'
+  | 'EXTERNAL_API_REQUEST'
+  | 'EXTERNAL_ACCESS_DECISION'
+  | 'CONNECTIVITY_CHANGED'
+  | 'GET_CONNECTIVITY'
+  | 'REPORT_REQUEST_OUTCOME'
+  | 'DEFINE_TERM'
+  | 'ISSUE_PANEL_TOKEN'
+  | 'REDEEM_PANEL_TOKEN'
+  | 'GET_USAGE'
+  | 'USAGE_CHANGED'
   | 'AUTH_STATUS'
   | 'USAGE_UPDATE'
   | 'ACHIEVEMENT_UNLOCKED'
@@ -127,26 +207,53 @@ export interface OpenSidePanelMessage extends ChromeMessage {
   type: 'OPEN_SIDE_PANEL';
   payload: {
     text: string;
-    trigger: 'keyboard_shortcut' | 'context_menu';
+    trigger: ExplanationTrigger;
+    complexity?: ComplexityLevel;
+    // Overrides the preferred surface ("Open in side panel" from the inline card)
+    surface?: PanelSurface;
+    // Set by the inline card; otherwise the text is a selection and the background decides
+    mode?: SelectionMode;
+    format?: SelectionFormat;
+    context?: SelectionContext;
   };
 }
 
-export interface ContextMenuClickedMessage extends ChromeMessage {
-  type: 'CONTEXT_MENU_CLICKED';
+export interface GetCurrentSelectionMessage extends ChromeMessage {
+  type: 'GET_CURRENT_SELECTION';
+}
+
+export interface GetPageContentMessage extends ChromeMessage {
+  type: 'GET_PAGE_CONTENT';
+}
+
+// Answered by an already injected content script
+export interface PingContentScriptMessage extends ChromeMessage {
+  type: 'PING_CONTENT_SCRIPT';
+}
+
+// The content script asks for a panel token itself (see background/panelTokens.ts)
+export interface ShowFloatingPanelMessage extends ChromeMessage {
+  type: 'SHOW_FLOATING_PANEL';
+}
+
+// Explanation card anchored to the selection (top frame only)
+export interface ShowInlineCardMessage extends ChromeMessage {
+  type: 'SHOW_INLINE_CARD';
   payload: {
     text: string;
+    complexity: ComplexityLevel;
+    mode: SelectionMode;
+    format?: SelectionFormat;
   };
 }
 
-export interface GetCurrentSelectionMessage extends ChromeMessage {
-  type: 'GET_CURRENT_SELECTION';
-}
-
 export interface TrackEventMessage extends ChromeMessage {
   type: 'TRACK_EVENT';
   payload: {
     event: string;
     properties?: Record<string, any>;
+    // When the event happened in the sending context
+    timestamp?: number;
   };
 }
 
@@ -156,33 +263,422 @@ export interface GetAuthStateMessage extends ChromeMessage {
 
 export interface SetAuthStateMessage extends ChromeMessage {
   type: 'SET_AUTH_STATE';
-  payload: any;
+  payload: StoredAuth;
 }
 
 export interface ClearAuthStateMessage extends ChromeMessage {
   type: 'CLEAR_AUTH_STATE';
 }
 
+export interface GetAuthMessage extends ChromeMessage {
+  type: 'GET_AUTH';
+}
+
+export interface SendAnalyticsMessage extends ChromeMessage {
+  type: 'SEND_ANALYTICS';
+  payload: {
+    event: string;
+    properties?: Record<string, any>;
+  };
+}
+
+export interface CheckUsageMessage extends ChromeMessage {
+  type: 'CHECK_USAGE';
+}
+
+export interface RefreshTokenMessage extends ChromeMessage {
+  type: 'REFRESH_TOKEN';
+}
+
+export interface AuthStateChangedMessage extends ChromeMessage {
+  type: 'AUTH_STATE_CHANGED';
+  payload?: {
+    isAuthenticated: boolean;
+    user: User | null;
+    loading: boolean;
+  };
+}
+
+export interface AuthErrorMessage extends ChromeMessage {
+  type: 'AUTH_ERROR';
+}
+
+export interface ShowNotificationMessage extends ChromeMessage {
+  type: 'SHOW_NOTIFICATION';
+  payload: {
+    kind: NotificationKind;
+    type: NotificationType;
+    title?: string;
+    message: string;
+    action?: NotificationAction;
+  };
+}
+
+export interface NotificationActionMessage extends ChromeMessage {
+  type: 'NOTIFICATION_ACTION';
+  payload: {
+    actionId: NotificationActionId;
+  };
+}
+
+export interface ShowToastMessage extends ChromeMessage {
+  type: 'SHOW_TOAST';
+  payload: {
+    type: NotificationType;
+    message: string;
+    action?: NotificationAction;
+  };
+}
+
+// Runs the offline sync in the offscreen document
+export interface RunSyncMessage extends ChromeMessage {
+  type: 'RUN_SYNC';
+}
+
+// Reported by the offscreen sync runner
+export interface SyncStatusChangedMessage extends ChromeMessage {
+  type: 'SYNC_STATUS_CHANGED';
+  payload: SyncStatus;
+}
+
+export interface WebAuthCompleteMessage extends ChromeMessage {
+  type: 'WEB_AUTH_COMPLETE';
+  tabId?: number;
+}
+
+// Forwarded by the content script's window.postMessage bridge
+export interface ExternalApiRequestMessage extends ChromeMessage {
+  type: 'EXTERNAL_API_REQUEST';
+  payload: ExternalApiRequest;
+}
+
+// Answer from the external access prompt window
+export interface ExternalAccessDecisionMessage extends ChromeMessage {
+  type: 'EXTERNAL_ACCESS_DECISION';
+  payload: {
+    promptId: string;
+    caller: string;
+    allowed: boolean;
+  };
+}
+
+// Broadcast by the background connectivity monitor to every view
+export interface ConnectivityChangedMessage extends ChromeMessage {
+  type: 'CONNECTIVITY_CHANGED';
+  payload: ConnectivityStatus;
+}
+
+export interface GetConnectivityMessage extends ChromeMessage {
+  type: 'GET_CONNECTIVITY';
+}
+
+// Passive signal from a real API request made by a view
+export interface ReportRequestOutcomeMessage extends ChromeMessage {
+  type: 'REPORT_REQUEST_OUTCOME';
+  payload: RequestOutcome;
+}
+
+// Definition card for a short selection (fetched and cached by the background)
+export interface DefineTermMessage extends ChromeMessage {
+  type: 'DEFINE_TERM';
+  payload: {
+    term: string;
+    complexity: ComplexityLevel;
+  };
+}
+
+// Broadcast by the background usage monitor to every view
+export interface UsageChangedMessage extends ChromeMessage {
+  type: 'USAGE_CHANGED';
+  payload: UsageState;
+}
+
+export interface GetUsageMessage extends ChromeMessage {
+  type: 'GET_USAGE';
+}
+
+// Tab a framed or popup panel serves (see background/panelTokens.ts)
+export interface PanelBinding {
+  tabId: number;
+  windowId: number;
+}
+
+// Token for a floating panel on the sender's tab
+export interface IssuePanelTokenMessage extends ChromeMessage {
+  type: 'ISSUE_PANEL_TOKEN';
+}
+
+// A panel trading its token for the tab it serves
+export interface RedeemPanelTokenMessage extends ChromeMessage {
+  type: 'REDEEM_PANEL_TOKEN';
+  payload: {
+    token: string;
+  };
+}
+
 // Union type for all Chrome messages
 export type AnyChromeMessage =
   | OpenSidePanelMessage
-  | ContextMenuClickedMessage
   | GetCurrentSelectionMessage
+  | GetPageContentMessage
+  | PingContentScriptMessage
+  | ShowFloatingPanelMessage
+  | ShowInlineCardMessage
   | TrackEventMessage
   | GetAuthStateMessage
   | SetAuthStateMessage
-  | ClearAuthStateMessage;
+  | ClearAuthStateMessage
+  | GetAuthMessage
+  | SendAnalyticsMessage
+  | CheckUsageMessage
+  | RefreshTokenMessage
+  | AuthStateChangedMessage
+  | AuthErrorMessage
+  | ShowNotificationMessage
+  | NotificationActionMessage
+  | ShowToastMessage
+  | RunSyncMessage
+  | SyncStatusChangedMessage
+  | WebAuthCompleteMessage
+  | ExternalApiRequestMessage
+  | ExternalAccessDecisionMessage
+  | ConnectivityChangedMessage
+  | GetConnectivityMessage
+  | ReportRequestOutcomeMessage
+  | DefineTermMessage
+  | IssuePanelTokenMessage
+  | RedeemPanelTokenMessage
+  | UsageChangedMessage
+  | GetUsageMessage;
+
+// Messages the background sends to content scripts
+export type ContentScriptMessage =
+  | GetCurrentSelectionMessage
+  | GetPageContentMessage
+  | PingContentScriptMessage
+  | ShowFloatingPanelMessage
+  | ShowInlineCardMessage
+  | ShowToastMessage;
+
+// Messages the background broadcasts to extension views
+export type ViewBroadcastMessage = ConnectivityChangedMessage | UsageChangedMessage;
+
+// Messages handled by the background service worker
+export type BackgroundMessage = Exclude<AnyChromeMessage, ContentScriptMessage | ViewBroadcastMessage>;
+export type BackgroundMessageType = BackgroundMessage['type'];
 
 export interface MessageFromBackground {
   type: 'AUTH_STATUS' | 'USAGE_UPDATE' | 'ACHIEVEMENT_UNLOCKED' | 'STREAK_UPDATE';
   payload: any;
 }
 
-export interface MessageToBackground {
-  type: 'GET_AUTH' | 'SEND_ANALYTICS' | 'CHECK_USAGE' | 'REFRESH_TOKEN';
-  payload?: any;
+export type MessageToBackground =
+  | GetAuthMessage
+  | SendAnalyticsMessage
+  | CheckUsageMessage
+  | RefreshTokenMessage;
+
+// Auth data persisted by the background under the `auth` key
+export interface StoredAuth {
+  accessToken: string;
+  refreshToken: string | null;
+  user: User | null;
+}
+
+// Daily usage persisted under the `dailyUsage` key
+export interface StoredDailyUsage {
+  date: string;
+  used: number;
+  limit: number;
+}
+
+// Daily question allowance (counted by background/usageMonitor.ts)
+export interface UsageState {
+  remaining: number;
+  limit: number;
+  used: number;
+  resetAt: string;
+  isPremium: boolean;
+  isLoading: boolean;
 }
 
+// Notifications (see background/notificationCenter.ts)
+export type NotificationType = 'info' | 'success' | 'warning' | 'error';
+
+// Kinds are rate limited and deduped independently
+export type NotificationKind = 'low_usage' | 'limit_reached' | 'offline' | 'sync_failed' | 'general';
+
+// Serializable action IDs dispatched by the background
+export type NotificationActionId = 'open_pricing' | 'retry_sync' | 'open_panel';
+
+export interface NotificationAction {
+  id: NotificationActionId;
+  text: string;
+}
+
+// How a notification reached the user
+export type NotificationDelivery = 'toast' | 'system' | 'suppressed';
+
+// How the content script follows selections (see background/contentScripts.ts)
+// - passive: registered on sites the user allowed, tracks selections as they happen
+// - on_demand: injected via activeTab when the user invokes Stupify
+export type SelectionTracking = 'passive' | 'on_demand';
+
+// Where explanations are shown ('tab': the panel page in its own tab, from the omnibox)
+export type PanelSurface = 'side_panel' | 'floating' | 'popup' | 'inline' | 'tab';
+
+// Where a pending explanation came from
+export type ExplanationSource = 'selection' | 'link' | 'page' | 'image' | 'omnibox' | 'external';
+
+// What the user did to ask
+export type ExplanationTrigger =
+  | 'context_menu'
+  | 'keyboard_shortcut'
+  | 'omnibox'
+  | 'external_api'
+  | 'selection_bubble'
+  | 'inline_card';
+
+// Explanation queued for one tab's side panel (see shared/pendingExplanations.ts)
+export interface PendingExplanation {
+  id: string;
+  text: string;
+  trigger: ExplanationTrigger;
+  source: ExplanationSource;
+  // 'define' only for page selections short enough for a definition card
+  mode: SelectionMode;
+  complexity?: ComplexityLevel;
+  url?: string;
+  format?: SelectionFormat;
+  context?: SelectionContext;
+  tabId: number;
+  windowId: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Explanation saved with the "save to favorites" command (see shared/favorites.ts)
+export interface FavoriteExplanation {
+  id: string;
+  question: string;
+  answer: string;
+  complexity: ComplexityLevel;
+  url?: string;
+  savedAt: number;
+}
+
+// Offline sync (runs in the offscreen document, see offscreen/syncRunner.ts)
+export type SyncStatus =
+  | { status: 'idle' }
+  | { status: 'syncing'; progress: number }
+  | { status: 'success'; synced: number }
+  | { status: 'partial'; synced: number; failed: number }
+  | { status: 'error'; error: string };
+
+// Connectivity (owned by background/connectivityMonitor.ts)
+// degraded: requests are slow or some fail; api_down: the network works but our API doesn't
+export type ConnectivityState = 'online' | 'offline' | 'degraded' | 'api_down';
+
+export interface ConnectivityStatus {
+  state: ConnectivityState;
+  changedAt: number;
+  checkedAt: number | null;
+}
+
+// chrome.storage.session record (the failure count drives the backoff)
+export interface StoredConnectivity {
+  status: ConnectivityStatus;
+  consecutiveFailures: number;
+  lastSuccessAt: number;
+}
+
+export interface RequestOutcome {
+  ok: boolean;
+  status?: number;
+  // fetch threw (no response at all)
+  networkError?: boolean;
+  durationMs?: number;
+}
+
+export interface SyncResult {
+  success: number;
+  failed: number;
+  errors: Array<{ id: string; error: string }>;
+}
+
+// DOM-dependent jobs the background hands to the offscreen document
+export type OffscreenJob =
+  | { type: 'RUN_SYNC' }
+  | { type: 'PARSE_HTML'; html: string; maxLength?: number }
+  | { type: 'PLAY_AUDIO'; url: string; volume?: number }
+  | { type: 'COPY_TEXT'; text: string };
+
+export interface ParsedHtml {
+  title: string;
+  text: string;
+}
+
+export interface OffscreenJobResultMap {
+  RUN_SYNC: SyncResult;
+  PARSE_HTML: ParsedHtml;
+  PLAY_AUDIO: void;
+  COPY_TEXT: void;
+}
+
+// Sent by the background; other contexts ignore messages with a target
+export interface OffscreenMessage {
+  target: 'offscreen';
+  job: OffscreenJob;
+}
+
+// Response data for each background message
+export interface BackgroundResponseMap {
+  OPEN_SIDE_PANEL: void;
+  TRACK_EVENT: void;
+  GET_AUTH_STATE: StoredAuth | null;
+  SET_AUTH_STATE: void;
+  CLEAR_AUTH_STATE: void;
+  GET_AUTH: StoredAuth | null;
+  SEND_ANALYTICS: void;
+  CHECK_USAGE: StoredDailyUsage | null;
+  REFRESH_TOKEN: void;
+  AUTH_STATE_CHANGED: void;
+  AUTH_ERROR: void;
+  SHOW_NOTIFICATION: NotificationDelivery;
+  NOTIFICATION_ACTION: void;
+  RUN_SYNC: SyncResult;
+  SYNC_STATUS_CHANGED: void;
+  WEB_AUTH_COMPLETE: void;
+  // Errors are part of the result so callers get the external error code
+  EXTERNAL_API_REQUEST: ExternalApiResponse;
+  EXTERNAL_ACCESS_DECISION: void;
+  GET_CONNECTIVITY: ConnectivityStatus;
+  REPORT_REQUEST_OUTCOME: void;
+  DEFINE_TERM: DefineTermResult;
+  ISSUE_PANEL_TOKEN: string;
+  REDEEM_PANEL_TOKEN: PanelBinding | null;
+  GET_USAGE: UsageState;
+}
+
+export type RpcErrorCode =
+  | 'UNKNOWN_TYPE'
+  | 'INVALID_PAYLOAD'
+  | 'FORBIDDEN'
+  | 'HANDLER_FAILED'
+  | 'NO_RESPONSE'
+  | 'UNSUPPORTED_VERSION'
+  | 'PERMISSION_DENIED'
+  | 'RATE_LIMITED';
+
+export interface RpcError {
+  code: RpcErrorCode;
+  message: string;
+}
+
+export type RpcResponse<T> =
+  | { success: true; data: T }
+  | { success: false; error: RpcError };
+
 // API Response types
 export interface APIResponse<T> {
   data?: T;
@@ -199,4 +695,49 @@ export interface UsageLimitResponse {
   remaining: number;
   limit: number;
   resets_at: string;
-}
\ No newline at end of file
+}
+
+// External integration API (partner pages and other extensions)
+export type ExternalApiMethod = 'explain' | 'openPanel' | 'getCapabilities';
+
+export interface ExternalApiRequest {
+  version: number;
+  method: ExternalApiMethod;
+  params?: {
+    text?: string;
+    level?: ComplexityLevel;
+  };
+}
+
+export type ExternalAccessStatus = 'granted' | 'denied' | 'prompt';
+
+// Where the user turned the selection bubble off (see shared/selectionBubble.ts)
+export interface SelectionBubblePrefs {
+  hiddenSites: string[];
+  snoozedUntil: number;
+}
+
+// Decision stored per caller ("https://origin" or "extension:<id>")
+export interface ExternalAccessGrant {
+  caller: string;
+  status: Exclude<ExternalAccessStatus, 'prompt'>;
+  decidedAt: number;
+}
+
+export interface ExternalCapabilities {
+  apiVersion: number;
+  supportedVersions: number[];
+  methods: ExternalApiMethod[];
+  levels: ComplexityLevel[];
+  maxTextLength: number;
+  extensionVersion: string;
+  access: ExternalAccessStatus;
+}
+
+export interface ExternalApiResultMap {
+  explain: void;
+  openPanel: void;
+  getCapabilities: ExternalCapabilities;
+}
+
+export type ExternalApiResponse = RpcResponse<ExternalApiResultMap[ExternalApiMethod]>;
@@ -1,6 +1,12 @@
 // Utility functions for Stupify Chrome Extension
 
-import { MIN_SELECTION_LENGTH, MAX_SELECTION_LENGTH } from './constants';
+import {
+  MIN_SELECTION_LENGTH,
+  MAX_SELECTION_LENGTH,
+  MAX_DEFINE_WORDS,
+  MAX_DEFINE_LENGTH,
+} from './constants';
+import type { Definition, SelectionMode } from './types';
 
 /**
  * Logger utility for consistent logging across the extension
@@ -150,6 +156,73 @@ export function isValidSelection(text: string): boolean {
   return trimmed.length >= MIN_SELECTION_LENGTH && trimmed.length <= MAX_SELECTION_LENGTH;
 }
 
+/**
+ * Word segmenter (splits scripts written without spaces, such as Chinese,
+ * Japanese or Thai, by dictionary), or null where Intl.Segmenter is missing
+ */
+export function getWordSegmenter(): Intl.Segmenter | null {
+  if (typeof Intl === 'undefined' || typeof Intl.Segmenter !== 'function') return null;
+  return new Intl.Segmenter(undefined, { granularity: 'word' });
+}
+
+/**
+ * Counts words (by dictionary where the segmenter is available,
+ * whitespace-separated otherwise)
+ */
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  if (!trimmed) return 0;
+
+  const segmenter = getWordSegmenter();
+  if (segmenter) {
+    return Array.from(segmenter.segment(trimmed)).filter((segment) => segment.isWordLike).length;
+  }
+
+  return trimmed.split(/\s+/).length;
+}
+
+/**
+ * How a selection should be answered: a definition card for a word or short
+ * phrase, a full explanation otherwise (null when the selection is unusable)
+ */
+export function getSelectionMode(text: string): SelectionMode | null {
+  if (!isValidSelection(text)) return null;
+
+  const term = normalizeTerm(text);
+  if (term && countWords(term) <= MAX_DEFINE_WORDS && term.length <= MAX_DEFINE_LENGTH) {
+    return 'define';
+  }
+
+  return 'explain';
+}
+
+/**
+ * Term as it is looked up and cached ("Idempotent," → "idempotent")
+ */
+export function normalizeTerm(text: string): string {
+  return text
+    .trim()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+}
+
+/**
+ * Plain-text form of a definition (copying, history)
+ */
+export function formatDefinition(definition: Definition): string {
+  const heading = definition.partOfSpeech
+    ? `${definition.term} (${definition.partOfSpeech})`
+    : definition.term;
+  const lines = [heading, '', definition.definition];
+
+  if (definition.example) {
+    lines.push('', `Example: ${definition.example}`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Truncates text to a maximum length with ellipsis
  */
@@ -197,6 +270,20 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/**
+ * Short, stable hash of a string (FNV-1a, 32-bit, hex)
+ */
+export function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16);
+}
+
 /**
  * Delays execution for a specified time
  */
@@ -257,6 +344,23 @@ export function isDevelopment(): boolean {
   return !('update_url' in chrome.runtime.getManifest());
 }
 
+/**
+ * Compare two semver strings (major.minor.patch)
+ * Returns a negative number if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map((part) => parseInt(part, 10) || 0);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+}
+
 /**
  * Gets the current date in YYYY-MM-DD format
  */
@@ -6,16 +6,40 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { ComplexitySelector } from '../components/ComplexitySelector';
 import { StreamingResponse } from '../components/StreamingResponse';
-import { Globe, ChevronDown, ChevronUp, LogIn } from 'lucide-react';
-import { useSidePanelStore } from '@/stores/useSidePanelStore';
-import { FollowUpQuestion } from '@/shared/sidepanel';
+import { DefinitionCard } from '../components/DefinitionCard';
+import { Globe, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, History, LogIn } from 'lucide-react';
+import {
+  createHistoryEntry,
+  IDLE_EXPLANATION,
+  prependHistory,
+  useSidePanelStore,
+} from '@/stores/useSidePanelStore';
+import {
+  CloseSidePanelRequest,
+  ComplexityLevel,
+  FollowUpQuestion,
+  PanelSession,
+  SIDE_PANEL_PORT_NAME,
+  SidePanelHello,
+} from '@/shared/sidepanel';
+import { isPendingKey, takePendingExplanations } from '@/shared/pendingExplanations';
+import { loadPanelSession, savePanelSession } from '@/shared/panelSessions';
+import { sendToBackground } from '@/shared/messaging';
+import { formatDefinition } from '@/shared/utils';
 import {
   authService,
   rateLimiter,
-  streamWithRetry,
-  createStreamCanceller,
   followUpService,
-  cacheService,
+  connectivity,
+  policyService,
+  attachToExplanation,
+  streamViaBackground,
+} from '../services';
+import type { ConnectivityState } from '@/shared/types';
+import type {
+  BackgroundStreamHandle,
+  BackgroundStreamHandlers,
+  ExplanationRequestOptions,
 } from '../services';
 
 import { lazyLoad, preloadComponent } from '@/utils/lazyLoad';
@@ -36,29 +60,94 @@ const FollowUpQuestions = lazyLoad(() => import('@/components/FollowUpQuestions'
 const ErrorState = lazyLoad(() => import('@/components/ErrorState'));
 const EmptyState = lazyLoad(() => import('@/components/EmptyState'));
 
+// Debounce for saving the shown tab's session
+const SESSION_SAVE_DELAY = 300;
+
+type PanelTab = { id: number; windowId: number };
+
+// Tab of a floating / popup panel or of a tab's own side panel (resolved once)
+let boundTab: Promise<PanelTab | null> | null = null;
+
+/**
+ * Tab this panel serves:
+ * - Floating panel or popup window: the tab the background bound its token to
+ *   (a framed panel never falls back to anything else)
+ * - Page opened from the omnibox: its own tab
+ * - A tab's own side panel: the tab that was active when it opened
+ * - Otherwise the active tab of the side panel's window
+ */
+const getPanelTab = async (): Promise<PanelTab | null> => {
+  const params = new URLSearchParams(window.location.search);
+  const surface = params.get('surface');
+
+  if (surface === 'floating' || surface === 'popup' || window.top !== window) {
+    boundTab = boundTab || redeemPanelToken(params.get('token'));
+    return boundTab;
+  }
+
+  if (surface === 'tab') {
+    const own = await chrome.tabs.getCurrent();
+    return own?.id ? { id: own.id, windowId: own.windowId } : null;
+  }
+
+  if (surface === 'side_panel') {
+    boundTab = boundTab || getActiveTab();
+    return boundTab;
+  }
+
+  return getActiveTab();
+};
+
+const getActiveTab = async (): Promise<PanelTab | null> => {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return tab?.id ? { id: tab.id, windowId: tab.windowId } : null;
+};
+
+const redeemPanelToken = async (token: string | null): Promise<PanelTab | null> => {
+  if (!token) return null;
+
+  try {
+    const binding = await sendToBackground({ type: 'REDEEM_PANEL_TOKEN', payload: { token } });
+    return binding ? { id: binding.tabId, windowId: binding.windowId } : null;
+  } catch (error) {
+    console.error('❌ Failed to redeem panel token:', error);
+    return null;
+  }
+};
+
 export const SidePanel: React.FC = () => {
   const {
     selectedText,
     complexity,
     explanation,
     followUpQuestions,
+    history,
+    historyCursor,
     isCollapsed,
     setComplexity,
     startExplanation,
     streamResponse,
     completeExplanation,
+    startDefinition,
+    completeDefinition,
+    clearExplanation,
     setError,
     setFollowUpQuestions,
     markFollowUpClicked,
     toggleCollapse,
     setSelectedText,
+    setStreamId,
+    setHistoryCursor,
   } = useSidePanelStore();
 
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [usageRemaining, setUsageRemaining] = useState(10);
   const [isPremium, setIsPremium] = useState(false);
-  const [isOffline, setIsOffline] = useState(false);
-  const cancellerRef = useRef<{ cancel: () => void } | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectivityState>(
+    connectivity.getStatus().state
+  );
+  // Background streams by tab (a tab's stream keeps running while another is shown)
+  const streamsRef = useRef<Map<number, BackgroundStreamHandle>>(new Map());
 
   const preloadFollowUps = () => {
     preloadComponent(() => import('@/components/FollowUpQuestions'));
@@ -89,14 +178,50 @@ export const SidePanel: React.FC = () => {
     return unsubscribe;
   }, []);
 
-  // Offline detection
+  // Connectivity (monitored by the background)
+  useEffect(() => {
+    setConnectionState(connectivity.getStatus().state);
+    return connectivity.subscribe((status) => setConnectionState(status.state));
+  }, []);
+
+  // Tell the background this side panel is open (so commands can toggle it)
   useEffect(() => {
-    // const unsubscribe = offlineDetector.subscribe((offline) => {
-    //   setIsOffline(offline);
-    // });
+    const surface = new URLSearchParams(window.location.search).get('surface');
+    if (surface && surface !== 'side_panel') return;
 
-    // return unsubscribe;
-    setIsOffline(false);
+    let port: chrome.runtime.Port | null = null;
+    let closed = false;
+
+    const connect = async () => {
+      const tab = await getPanelTab();
+      if (!tab || closed) return;
+
+      port = chrome.runtime.connect({ name: SIDE_PANEL_PORT_NAME });
+      port.postMessage({
+        type: 'SIDE_PANEL_OPENED',
+        payload: { windowId: tab.windowId },
+      } satisfies SidePanelHello);
+
+      port.onMessage.addListener((message: CloseSidePanelRequest) => {
+        if (message?.type === 'CLOSE_SIDE_PANEL') {
+          window.close();
+        }
+      });
+
+      // The service worker restarted; register again
+      port.onDisconnect.addListener(() => {
+        if (!closed) {
+          connect();
+        }
+      });
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      port?.disconnect();
+    };
   }, []);
 
   // Listen for messages from content script
@@ -130,124 +255,322 @@ export const SidePanel: React.FC = () => {
 
     const question = selectedText.text;
 
-    // Reset state
-    startExplanation();
+    // Short page selections get a definition card (cached by the background)
+    if (selectedText.mode === 'define') {
+      runDefinition(question, complexity);
+      return;
+    }
 
-    // Check cache first
-    const cached = await cacheService.get(question, complexity);
-    if (cached) {
-      console.log('✅ Using cached response');
-      
-      // Stream the cached response character by character for effect
-      const words = cached.answer.split(' ');
-      let currentText = '';
-      
-      for (const word of words) {
-        currentText += (currentText ? ' ' : '') + word;
-        streamResponse(word + ' ');
-        await new Promise(resolve => setTimeout(resolve, 30));
+    // Cached answers come back from the background like any other stream
+    runExplanation(question, complexity, {
+      context: selectedText.context,
+      format: selectedText.format,
+    });
+  };
+
+  /**
+   * Build handlers for a background stream
+   * The background caches and counts answers itself (also for streams that
+   * finish while the panel is closed), so views only render.
+   * Streams keep running when the panel switches tabs; results for a tab
+   * that isn't shown go to its stored session instead of the store.
+   */
+  const createStreamHandlers = (context: {
+    tabId: number | null;
+    question: string;
+    complexity: ComplexityLevel;
+  }): BackgroundStreamHandlers => {
+    const isShown = () => useSidePanelStore.getState().tabId === context.tabId;
+
+    const release = () => {
+      if (context.tabId !== null) {
+        streamsRef.current.delete(context.tabId);
       }
-      
-      completeExplanation();
-      
-      // Generate follow-ups
-      generateFollowUps(question, cached.answer);
-      return;
+    };
+
+    return {
+      onStart: (info) => {
+        context.question = info.question;
+        context.complexity = info.complexity;
+
+        if (!isShown()) return;
+
+        setStreamId(info.streamId);
+
+        if (!useSidePanelStore.getState().selectedText) {
+          setSelectedText({
+            text: info.question,
+            url: '',
+            domain: '',
+            timestamp: Date.now(),
+          });
+        }
+
+        startExplanation();
+      },
+      onToken: (token) => {
+        if (isShown()) {
+          streamResponse(token);
+        }
+      },
+      onComplete: (final) => {
+        release();
+
+        if (isShown()) {
+          setStreamId(null);
+          completeExplanation();
+        } else {
+          updateHiddenSession(context.tabId, (session) => ({
+            explanation: { ...IDLE_EXPLANATION, response: final, completed: true },
+            history: prependHistory(
+              session.history || [],
+              createHistoryEntry(context.question, context.complexity, final, session.selectedText?.url || '')
+            ),
+            historyCursor: null,
+          }));
+        }
+
+        // Generate follow-ups
+        if (isShown()) {
+          generateFollowUps(context.question, final);
+        }
+      },
+      onError: (error) => {
+        release();
+        console.error('❌ Stream error:', error);
+
+        const message = error.message || 'Failed to get explanation';
+
+        if (isShown()) {
+          setStreamId(null);
+          setError(message);
+        } else {
+          updateHiddenSession(context.tabId, {
+            explanation: { ...IDLE_EXPLANATION, error: message },
+          });
+        }
+      },
+      onCancel: () => {
+        release();
+
+        if (isShown()) {
+          setStreamId(null);
+          clearExplanation();
+        } else {
+          updateHiddenSession(context.tabId, {
+            explanation: IDLE_EXPLANATION,
+            followUpQuestions: [],
+          });
+        }
+      },
+    };
+  };
+
+  /**
+   * Write a stream result into the stored session of a tab that isn't shown
+   */
+  const updateHiddenSession = (
+    tabId: number | null,
+    update: Partial<PanelSession> | ((session: PanelSession) => Partial<PanelSession>)
+  ) => {
+    if (tabId === null) return;
+
+    loadPanelSession(tabId)
+      .then((session) => {
+        if (session) {
+          const changes = typeof update === 'function' ? update(session) : update;
+          return savePanelSession({ ...session, ...changes, streamId: null });
+        }
+      })
+      .catch((error) => {
+        console.error('❌ Failed to update tab session:', error);
+      });
+  };
+
+  /**
+   * Start an explanation stream owned by the background
+   */
+  const runExplanation = (
+    question: string,
+    level: ComplexityLevel,
+    request: ExplanationRequestOptions = {}
+  ) => {
+    const { tabId } = useSidePanelStore.getState();
+
+    if (tabId !== null) {
+      streamsRef.current.get(tabId)?.disconnect();
+    }
+
+    startExplanation();
+
+    const handle = streamViaBackground(
+      question,
+      level,
+      [],
+      createStreamHandlers({ tabId, question, complexity: level }),
+      request
+    );
+
+    if (tabId !== null) {
+      streamsRef.current.set(tabId, handle);
+    }
+  };
+
+  /**
+   * Look up a definition for a short selection
+   * Cached definitions are free; others cost what the backend reports.
+   */
+  const runDefinition = async (term: string, level: ComplexityLevel) => {
+    const { tabId } = useSidePanelStore.getState();
+    const isShown = () => useSidePanelStore.getState().tabId === tabId;
+
+    if (tabId !== null) {
+      streamsRef.current.get(tabId)?.disconnect();
+      streamsRef.current.delete(tabId);
     }
 
-    // Create canceller
-    const canceller = createStreamCanceller();
-    cancellerRef.current = canceller;
+    startDefinition();
 
     try {
-      let fullResponse = '';
+      const result = await sendToBackground({
+        type: 'DEFINE_TERM',
+        payload: { term, complexity: level },
+      });
 
-      // Stream response
-      await streamWithRetry(
-        question,
-        complexity,
-        [],
-        {
-          signal: canceller.signal,
-          onToken: (token) => {
-            fullResponse += token;
-            streamResponse(token);
+      if (isShown()) {
+        completeDefinition(result.definition);
+      } else {
+        const response = formatDefinition(result.definition);
+        updateHiddenSession(tabId, (session) => ({
+          explanation: {
+            ...IDLE_EXPLANATION,
+            response,
+            completed: true,
+            definition: result.definition,
           },
-          onComplete: async (final) => {
-            completeExplanation();
-            
-            // Cache the response
-            await cacheService.add(question, final, complexity);
-            
-            // Record usage
-            await rateLimiter.recordQuestion();
-            
-            // Generate follow-ups
-            generateFollowUps(question, final);
-          },
-          onError: (error) => {
-            setError(error.message || 'Failed to get explanation');
-            console.error('❌ Stream error:', error);
-          },
-        }
+          history: prependHistory(
+            session.history || [],
+            createHistoryEntry(term, result.definition.complexity, response, session.selectedText?.url || '')
+          ),
+          historyCursor: null,
+        }));
+      }
+    } catch (error) {
+      console.error('❌ Definition error:', error);
+
+      const message = (error as Error).message || 'Failed to get definition';
+
+      if (isShown()) {
+        setError(message);
+      } else {
+        updateHiddenSession(tabId, {
+          explanation: { ...IDLE_EXPLANATION, error: message },
+        });
+      }
+    }
+  };
+
+  /**
+   * Show a tab's session: save the current one, then restore the new one
+   */
+  const showTabSession = async (tabId: number) => {
+    const store = useSidePanelStore.getState();
+    if (store.tabId === tabId) return;
+
+    const current = store.getSession();
+    if (current) {
+      await savePanelSession(current);
+    }
+
+    const session = await loadPanelSession(tabId);
+    store.loadSession(tabId, session);
+
+    // Re-attach so the buffered text replays and streaming continues live
+    if (session?.explanation.isStreaming && session.streamId) {
+      streamsRef.current.get(tabId)?.disconnect();
+      streamsRef.current.set(
+        tabId,
+        attachToExplanation(
+          createStreamHandlers({
+            tabId,
+            question: session.selectedText?.text || '',
+            complexity: session.complexity,
+          }),
+          session.streamId
+        )
       );
-    } catch (error: any) {
-      setError(error.message || 'Failed to get explanation');
-      console.error('❌ Ask error:', error);
     }
   };
 
-  // Check for pending explanation on load
+  // Persist the shown tab's session as it changes
+  useEffect(() => {
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = useSidePanelStore.subscribe(() => {
+      if (saveTimer) clearTimeout(saveTimer);
+
+      saveTimer = setTimeout(() => {
+        const session = useSidePanelStore.getState().getSession();
+        if (session) {
+          savePanelSession(session).catch((error) => {
+            console.error('❌ Failed to save tab session:', error);
+          });
+        }
+      }, SESSION_SAVE_DELAY);
+    });
+
+    return () => {
+      if (saveTimer) clearTimeout(saveTimer);
+      unsubscribe();
+    };
+  }, []);
+
+  // Restore this tab's session and consume pending explanations queued for it
   useEffect(() => {
     const checkPendingExplanation = async () => {
       try {
-        const { pendingExplanation } = await chrome.storage.local.get('pendingExplanation');
+        const tab = await getPanelTab();
+        if (!tab) return;
+
+        await showTabSession(tab.id);
+
+        // Newest request wins; older ones for this tab are dropped
+        const entries = await takePendingExplanations(tab.windowId, tab.id);
+        const pending = entries[entries.length - 1];
         
-        if (pendingExplanation?.text) {
-          const text = pendingExplanation.text;
+        if (pending) {
+          const text = pending.text;
+          // Requests without a level (omnibox, shortcut) use the default one
+          const level = pending.complexity || (await policyService.getDefaultComplexity());
           console.log('📝 Found pending explanation:', text.substring(0, 50) + '...');
           
           // Set the text in state
-          setSelectedText(text);
-          await chrome.storage.local.remove('pendingExplanation');
+          setSelectedText({
+            text,
+            url: pending.url || '',
+            domain: getDomain(pending.url || ''),
+            timestamp: pending.createdAt,
+            format: pending.format,
+            context: pending.context,
+            mode: pending.mode,
+          });
+          setComplexity(level);
           
           // Auto-start explanation
           setTimeout(async () => {
+            // The user may have switched tabs in the meantime
+            if (useSidePanelStore.getState().tabId !== tab.id) return;
+
             // Check rate limit
             if (!rateLimiter.canAsk()) {
               setError('Daily limit reached! Upgrade for unlimited questions.');
               return;
             }
 
-            // Start explanation (no arguments!)
-            startExplanation();
-            
-            try {
-              const canceller = createStreamCanceller();
-              cancellerRef.current = canceller;
-
-              // Correct function signature: (question, complexity, history, options, retries)
-              await streamWithRetry(
-                text,                    // question
-                complexity,              // complexity level
-                [],                      // conversation history (empty for now)
-                {                        // StreamOptions object
-                  onToken: (token) => streamResponse(token),
-                  onComplete: () => {
-                    completeExplanation();
-                    cancellerRef.current = null;
-                  },
-                  onError: (error) => {
-                    setError(error.message);
-                    cancellerRef.current = null;
-                  },
-                  signal: canceller.signal,
-                },
-                2                        // max retries (optional)
-              );
-            } catch (error: any) {
-              console.error('❌ Stream error:', error);
-              setError(error.message || 'Failed to get explanation');
+            if (pending.mode === 'define') {
+              runDefinition(text, level);
+            } else {
+              runExplanation(text, level, { context: pending.context, format: pending.format });
             }
           }, 500);
         }
@@ -256,7 +579,43 @@ export const SidePanel: React.FC = () => {
       }
     };
 
+    // Requests queued while the panel is already open
+    const handleStorageChange = (
+      changes: { [key: string]: chrome.storage.StorageChange },
+      areaName: string
+    ) => {
+      if (areaName !== 'session') return;
+
+      const queued = Object.keys(changes).some(
+        (key) => isPendingKey(key) && changes[key].newValue
+      );
+
+      if (queued) {
+        checkPendingExplanation();
+      }
+    };
+
+    // Switching tabs shows that tab's session (and any requests queued for it)
+    const handleTabActivated = () => {
+      checkPendingExplanation();
+    };
+
     checkPendingExplanation();
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    chrome.tabs.onActivated.addListener(handleTabActivated);
+
+    return () => {
+      chrome.storage.onChanged.removeListener(handleStorageChange);
+      chrome.tabs.onActivated.removeListener(handleTabActivated);
+
+      const session = useSidePanelStore.getState().getSession();
+      if (session) {
+        savePanelSession(session).catch(() => {});
+      }
+
+      streamsRef.current.forEach((handle) => handle.disconnect());
+      streamsRef.current.clear();
+    };
   }, []);
 
   const generateFollowUps = async (question: string, answer: string) => {
@@ -294,6 +653,8 @@ export const SidePanel: React.FC = () => {
       url: selectedText?.url || '',
       domain: selectedText?.domain || 'Follow-up',
       timestamp: Date.now(),
+      // Follow-ups are about the same page
+      context: selectedText?.context,
     });
     
     // Trigger new explanation
@@ -301,9 +662,9 @@ export const SidePanel: React.FC = () => {
   };
 
   const handleCancelStream = () => {
-    if (cancellerRef.current) {
-      cancellerRef.current.cancel();
-      cancellerRef.current = null;
+    const { tabId } = useSidePanelStore.getState();
+    if (tabId !== null) {
+      streamsRef.current.get(tabId)?.cancel();
     }
   };
 
@@ -362,6 +723,24 @@ export const SidePanel: React.FC = () => {
     window.open('https://stupify.app/chat', '_blank');
   };
 
+  // This tab's history: no cursor shows the current explanation, which is
+  // history[0] once it has finished
+  const liveIndex = explanation.completed ? 0 : -1;
+  const viewedEntry = historyCursor !== null ? history[historyCursor] || null : null;
+  const shownIndex = viewedEntry && historyCursor !== null ? historyCursor : liveIndex;
+  const canShowOlder =
+    !explanation.isLoading && !explanation.isStreaming && shownIndex + 1 < history.length;
+
+  const showOlderExplanation = () => {
+    if (canShowOlder) setHistoryCursor(shownIndex + 1);
+  };
+
+  const showNewerExplanation = () => {
+    if (!viewedEntry) return;
+    const next = shownIndex - 1;
+    setHistoryCursor(next <= liveIndex ? null : next);
+  };
+
   return (
     <div className="h-screen flex flex-col bg-gradient-to-br from-primary-50 via-purple-50 to-pink-50">
       {/* Header */}
@@ -376,9 +755,11 @@ export const SidePanel: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-3">
-              {isOffline && (
+              {connectionState !== 'online' && (
                 <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded text-xs font-medium">
-                  Offline
+                  {connectionState === 'offline' && 'Offline'}
+                  {connectionState === 'degraded' && 'Slow connection'}
+                  {connectionState === 'api_down' && 'Service unavailable'}
                 </span>
               )}
               
@@ -422,12 +803,59 @@ export const SidePanel: React.FC = () => {
         <div className="p-6 space-y-6">
           {/* Stats Widget */}
           <StatsWidget />
-          
+
+          {/* History navigation for this tab */}
+          {(canShowOlder || viewedEntry) && (
+            <div className="flex items-center justify-between bg-white rounded-lg border border-gray-200 shadow-sm px-3 py-2">
+              <button
+                onClick={showOlderExplanation}
+                disabled={!canShowOlder}
+                aria-label="Earlier explanation"
+                className="p-1 rounded-md text-gray-500 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="flex items-center gap-1.5 text-xs font-medium text-gray-500">
+                <History className="w-4 h-4" />
+                {viewedEntry
+                  ? `Earlier explanation ${shownIndex + 1} of ${history.length}`
+                  : 'Current explanation'}
+              </span>
+              <button
+                onClick={showNewerExplanation}
+                disabled={!viewedEntry}
+                aria-label="Newer explanation"
+                className="p-1 rounded-md text-gray-500 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {/* Earlier explanation from this tab's history (read-only) */}
+          {viewedEntry && (
+            <>
+              <div className="bg-white rounded-lg border border-gray-200 shadow-sm px-4 py-3">
+                <div className="flex items-center gap-2 mb-1">
+                  <Globe className="w-4 h-4 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-500">
+                    {getDomain(viewedEntry.url)}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700 line-clamp-2">{viewedEntry.question}</p>
+              </div>
+
+              <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+                <StreamingResponse text={viewedEntry.response} isStreaming={false} isLoading={false} />
+              </div>
+            </>
+          )}
+
           {/* No text selected - Empty State */}
-          {!selectedText && <EmptyState />}
+          {!viewedEntry && !selectedText && <EmptyState />}
 
           {/* Text selected - Show explanation */}
-          {selectedText && (
+          {!viewedEntry && selectedText && (
             <>
               {/* Selected Text Preview */}
               <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
@@ -442,7 +870,11 @@ export const SidePanel: React.FC = () => {
                         {getDomain(selectedText.url)}
                       </span>
                     </div>
-                    <p className={`text-sm text-gray-700 ${isCollapsed ? 'line-clamp-2' : ''}`}>
+                    <p
+                      className={`text-sm text-gray-700 ${isCollapsed ? 'line-clamp-2' : ''} ${
+                        selectedText.format === 'markdown' ? 'whitespace-pre-wrap font-mono text-xs' : ''
+                      }`}
+                    >
                       {selectedText.text}
                     </p>
                   </div>
@@ -461,6 +893,8 @@ export const SidePanel: React.FC = () => {
               >
                 {explanation.error ? (
                   <ErrorState error={explanation.error} onRetry={handleRetry} />
+                ) : explanation.definition ? (
+                  <DefinitionCard definition={explanation.definition} />
                 ) : explanation.response || explanation.isLoading ? (
                   <StreamingResponse
                     text={explanation.response}
@@ -476,7 +910,11 @@ export const SidePanel: React.FC = () => {
                       disabled={!rateLimiter.canAsk()}
                       className="px-6 py-3 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      {rateLimiter.canAsk() ? 'Explain This' : 'Daily Limit Reached'}
+                      {!rateLimiter.canAsk()
+                        ? 'Daily Limit Reached'
+                        : selectedText.mode === 'define'
+                          ? 'Define This'
+                          : 'Explain This'}
                     </button>
                     {!rateLimiter.canAsk() && (
                       <button
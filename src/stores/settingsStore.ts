@@ -1,12 +1,16 @@
 // Settings Store - Manages user preferences
+// Managed policy (chrome.storage.managed) overrides and locks settings
 
 import { create } from 'zustand';
 import type { ExtensionSettings, ComplexityLevel } from '../shared/types';
 import { settingsStorage } from '../lib/storage';
 import { DEFAULT_SETTINGS } from '../shared/constants';
+import { policyService } from '../services/policy';
 
 interface SettingsState extends ExtensionSettings {
   isLoading: boolean;
+  // Settings fixed by the user's organization
+  lockedSettings: Array<keyof ExtensionSettings>;
   
   // Actions
   setDefaultComplexity: (complexity: ComplexityLevel) => Promise<void>;
@@ -21,8 +25,11 @@ interface SettingsState extends ExtensionSettings {
 export const useSettingsStore = create<SettingsState>((set, get) => ({
   ...DEFAULT_SETTINGS,
   isLoading: true,
+  lockedSettings: [],
 
   setDefaultComplexity: async (complexity) => {
+    if (get().lockedSettings.includes('defaultComplexity')) return;
+
     const settings = { ...get(), defaultComplexity: complexity };
     await settingsStorage.set(settings);
     set({ defaultComplexity: complexity });
@@ -50,18 +57,23 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
     set({ isLoading: true });
     
     try {
-      const saved = await settingsStorage.get();
+      const [saved, lockedSettings] = await Promise.all([
+        settingsStorage.get(),
+        policyService.getLockedSettings(),
+      ]);
       
       if (saved) {
         set({ 
-          ...saved,
+          ...(await policyService.applyToSettings(saved)),
+          lockedSettings,
           isLoading: false,
         });
       } else {
         // First time - save defaults
         await settingsStorage.set(DEFAULT_SETTINGS);
         set({ 
-          ...DEFAULT_SETTINGS,
+          ...(await policyService.applyToSettings(DEFAULT_SETTINGS)),
+          lockedSettings,
           isLoading: false,
         });
       }
@@ -76,8 +88,11 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
 
   saveSettings: async (newSettings) => {
     const current = get();
+    const locked = current.lockedSettings;
     const updated = {
-      defaultComplexity: newSettings.defaultComplexity ?? current.defaultComplexity,
+      defaultComplexity: locked.includes('defaultComplexity')
+        ? current.defaultComplexity
+        : newSettings.defaultComplexity ?? current.defaultComplexity,
       autoOpenPanel: newSettings.autoOpenPanel ?? current.autoOpenPanel,
       showBadgeCounter: newSettings.showBadgeCounter ?? current.showBadgeCounter,
       keyboardShortcut: newSettings.keyboardShortcut ?? current.keyboardShortcut,
@@ -89,11 +104,16 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
 
   resetSettings: async () => {
     await settingsStorage.set(DEFAULT_SETTINGS);
-    set({ ...DEFAULT_SETTINGS });
+    set({ ...(await policyService.applyToSettings(DEFAULT_SETTINGS)) });
   },
 }));
 
 // Initialize settings on load
 if (typeof window !== 'undefined') {
   useSettingsStore.getState().loadSettings();
+
+  // IT can change the policy while a view is open
+  policyService.subscribe(() => {
+    useSettingsStore.getState().loadSettings();
+  });
 }
\ No newline at end of file
@@ -10,15 +10,37 @@ import type {
   SelectedText,
   FollowUpQuestion,
   ExplanationHistory,
+  ExplanationState,
+  PanelSession,
 } from '../shared/sidepanel';
+import type { Definition } from '../shared/types';
+import { formatDefinition } from '../shared/utils';
+
+// Explanations kept per tab
+const MAX_HISTORY = 20;
+
+export const IDLE_EXPLANATION: ExplanationState = {
+  isLoading: false,
+  isStreaming: false,
+  response: '',
+  error: null,
+  completed: false,
+};
 
 interface SidePanelStore extends SidePanelState {
+  // Tab whose session is shown
+  tabId: number | null;
+  // Background stream feeding the current explanation
+  streamId: string | null;
+
   // Actions
   setSelectedText: (text: SelectedText | null) => void;
   setComplexity: (complexity: ComplexityLevel) => void;
   startExplanation: () => void;
   streamResponse: (chunk: string) => void;
   completeExplanation: () => void;
+  startDefinition: () => void;
+  completeDefinition: (definition: Definition) => void;
   setError: (error: string) => void;
   clearExplanation: () => void;
   setFollowUpQuestions: (questions: FollowUpQuestion[]) => void;
@@ -26,21 +48,22 @@ interface SidePanelStore extends SidePanelState {
   addToHistory: (item: ExplanationHistory) => void;
   clearHistory: () => void;
   toggleCollapse: () => void;
+  setStreamId: (streamId: string | null) => void;
+  setHistoryCursor: (cursor: number | null) => void;
+  loadSession: (tabId: number, session: PanelSession | null) => void;
+  getSession: () => PanelSession | null;
 }
 
 export const useSidePanelStore = create<SidePanelStore>((set, get) => ({
   // Initial state
+  tabId: null,
+  streamId: null,
   selectedText: null,
   complexity: 'normal',
-  explanation: {
-    isLoading: false,
-    isStreaming: false,
-    response: '',
-    error: null,
-    completed: false,
-  },
+  explanation: IDLE_EXPLANATION,
   followUpQuestions: [],
   history: [],
+  historyCursor: null,
   isCollapsed: false,
 
   // Actions
@@ -58,6 +81,7 @@ export const useSidePanelStore = create<SidePanelStore>((set, get) => ({
         completed: false,
       },
       followUpQuestions: [],
+      historyCursor: null,
     }),
 
   streamResponse: (chunk) => {
@@ -85,15 +109,32 @@ export const useSidePanelStore = create<SidePanelStore>((set, get) => ({
 
     // Add to history
     if (selectedText) {
-      get().addToHistory({
-        id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-        question: selectedText.text,
-        complexity,
-        response: explanation.response,
-        followUps: [],
-        timestamp: Date.now(),
-        url: selectedText.url,
-      });
+      get().addToHistory(createHistoryEntry(selectedText.text, complexity, explanation.response, selectedText.url));
+    }
+  },
+
+  startDefinition: () =>
+    set({
+      explanation: { ...IDLE_EXPLANATION, isLoading: true },
+      followUpQuestions: [],
+      historyCursor: null,
+    }),
+
+  completeDefinition: (definition) => {
+    const { selectedText } = get();
+    const response = formatDefinition(definition);
+
+    set({
+      explanation: {
+        ...IDLE_EXPLANATION,
+        response,
+        completed: true,
+        definition,
+      },
+    });
+
+    if (selectedText) {
+      get().addToHistory(createHistoryEntry(selectedText.text, definition.complexity, response, selectedText.url));
     }
   },
 
@@ -110,13 +151,7 @@ export const useSidePanelStore = create<SidePanelStore>((set, get) => ({
 
   clearExplanation: () =>
     set({
-      explanation: {
-        isLoading: false,
-        isStreaming: false,
-        response: '',
-        error: null,
-        completed: false,
-      },
+      explanation: IDLE_EXPLANATION,
       followUpQuestions: [],
     }),
 
@@ -132,12 +167,80 @@ export const useSidePanelStore = create<SidePanelStore>((set, get) => ({
   },
 
   addToHistory: (item) => {
-    const { history } = get();
-    const newHistory = [item, ...history].slice(0, 20); // Keep last 20
-    set({ history: newHistory });
+    set({ history: prependHistory(get().history, item), historyCursor: null });
   },
 
-  clearHistory: () => set({ history: [] }),
+  clearHistory: () => set({ history: [], historyCursor: null }),
 
   toggleCollapse: () => set((state) => ({ isCollapsed: !state.isCollapsed })),
-}));
\ No newline at end of file
+
+  setStreamId: (streamId) => set({ streamId }),
+
+  setHistoryCursor: (cursor) => set({ historyCursor: cursor }),
+
+  // Swap in another tab's session (fresh state if it has none)
+  loadSession: (tabId, session) =>
+    set({
+      tabId,
+      selectedText: session?.selectedText ?? null,
+      complexity: session?.complexity ?? get().complexity,
+      explanation: session?.explanation ?? IDLE_EXPLANATION,
+      followUpQuestions: session?.followUpQuestions ?? [],
+      history: session?.history ?? [],
+      historyCursor: session?.historyCursor ?? null,
+      streamId: session?.streamId ?? null,
+    }),
+
+  getSession: () => {
+    const {
+      tabId,
+      selectedText,
+      complexity,
+      explanation,
+      followUpQuestions,
+      history,
+      historyCursor,
+      streamId,
+    } = get();
+    if (tabId === null) return null;
+
+    return {
+      tabId,
+      selectedText,
+      complexity,
+      explanation,
+      followUpQuestions,
+      history,
+      historyCursor,
+      streamId,
+      updatedAt: Date.now(),
+    };
+  },
+}));
+
+/**
+ * History entry for a finished explanation or definition
+ */
+export function createHistoryEntry(
+  question: string,
+  complexity: ComplexityLevel,
+  response: string,
+  url: string
+): ExplanationHistory {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    question,
+    complexity,
+    response,
+    followUps: [],
+    timestamp: Date.now(),
+    url,
+  };
+}
+
+/**
+ * Add an entry to a tab's history (newest first, last 20 kept)
+ */
+export function prependHistory(history: ExplanationHistory[], item: ExplanationHistory): ExplanationHistory[] {
+  return [item, ...history].slice(0, MAX_HISTORY);
+}
@@ -0,0 +1,95 @@
+/**
+ * What's New Page
+ *
+ * Opened by the background after a notable update:
+ * - Release notes between the previous and current version (?from=)
+ * - Latest release when opened without a previous version
+ * - Opt out of opening this page after future updates
+ */
+
+import { useState } from 'react';
+import { Sparkles, Settings as SettingsIcon } from 'lucide-react';
+import { CHANGELOG, getChangelogBetween } from '@/shared/changelog';
+import { logger } from '@/shared/utils';
+
+export function WhatsNew() {
+  const currentVersion = chrome.runtime.getManifest().version;
+  const previousVersion = new URLSearchParams(window.location.search).get('from');
+
+  const entries = previousVersion
+    ? getChangelogBetween(previousVersion, currentVersion)
+    : CHANGELOG.slice(0, 1);
+
+  const [optedOut, setOptedOut] = useState(false);
+
+  const stopShowing = async () => {
+    try {
+      const { settings } = await chrome.storage.local.get('settings');
+      await chrome.storage.local.set({ settings: { ...settings, showWhatsNew: false } });
+      setOptedOut(true);
+    } catch (error) {
+      logger.error('Failed to save What\'s new preference:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="max-w-2xl mx-auto px-6 py-12">
+        <div className="flex items-center gap-3 mb-8">
+          <div className="w-12 h-12 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 flex items-center justify-center">
+            <Sparkles className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">What's new in Stupify</h1>
+            <p className="text-sm text-gray-500">
+              {previousVersion
+                ? `Updated from ${previousVersion} to ${currentVersion}`
+                : `Version ${currentVersion}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {entries.length === 0 ? (
+            <p className="text-gray-600">Bug fixes and performance improvements.</p>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.version} className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+                <div className="flex items-baseline justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900">Version {entry.version}</h2>
+                  <span className="text-xs text-gray-400">{entry.date}</span>
+                </div>
+                <ul className="space-y-3">
+                  {entry.highlights.map((highlight) => (
+                    <li key={highlight.title}>
+                      <div className="font-medium text-gray-900">{highlight.title}</div>
+                      <div className="text-sm text-gray-600 mt-0.5">{highlight.description}</div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="mt-8 flex items-center justify-between text-sm">
+          {optedOut ? (
+            <span className="text-gray-500">We won't open this page after updates.</span>
+          ) : (
+            <button onClick={stopShowing} className="text-gray-500 hover:text-gray-700">
+              Don't show this after updates
+            </button>
+          )}
+
+          <button
+            onClick={() => chrome.runtime.openOptionsPage()}
+            className="flex items-center gap-1 font-medium text-purple-600 hover:text-purple-700"
+          >
+            <SettingsIcon className="w-4 h-4" />
+            Settings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,9 @@ export default defineConfig({
         popup: 'popup.html',
         sidepanel: 'sidepanel.html',
         onboarding: 'onboarding.html',
+        offscreen: 'offscreen.html',
+        whatsNew: 'whats-new.html',
+        externalAccess: 'external-access.html',
       },
       output: {
         // Manual chunks for better caching and code splitting
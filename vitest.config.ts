@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+// Kept apart from vite.config.ts so unit tests don't load the crx plugin
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // DOM specs opt in with a `@vitest-environment jsdom` comment
+    environment: 'node',
+  },
+});